@@ -0,0 +1,79 @@
+/**
+ * Loading of local benchmark corpora
+ *
+ * Supported formats:
+ *   .jsonl  one string or { id?, content | text, fragment_type? } per line
+ *   .json   an array of the same
+ *   other   plain text, one item per blank-line separated paragraph
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { CorpusItem } from './types.js';
+
+function toItem(value: unknown, index: number, file: string): CorpusItem {
+  if (typeof value === 'string') {
+    return { id: `item-${index + 1}`, content: value };
+  }
+  if (value && typeof value === 'object') {
+    const entry = value as Record<string, unknown>;
+    const content = entry.content ?? entry.text;
+    if (typeof content === 'string') {
+      return {
+        id: typeof entry.id === 'string' || typeof entry.id === 'number' ? String(entry.id) : `item-${index + 1}`,
+        content,
+        fragment_type: typeof entry.fragment_type === 'string' ? entry.fragment_type : undefined,
+      };
+    }
+  }
+  throw new Error(`Invalid corpus item ${index + 1} in ${file}: expected a string or an object with content`);
+}
+
+/**
+ * Parse corpus file content. The file name selects the format.
+ */
+export function parseCorpus(text: string, file: string): CorpusItem[] {
+  const ext = path.extname(file).toLowerCase();
+  let values: unknown[];
+
+  if (ext === '.jsonl') {
+    // Number lines before skipping blank ones so errors point at the file line
+    values = text.split('\n').flatMap((raw, i) => {
+      const line = raw.trim();
+      if (!line) return [];
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        throw new Error(`Invalid JSON on line ${i + 1} of ${file}`);
+      }
+    });
+  } else if (ext === '.json') {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`${file} must contain a JSON array`);
+    }
+    values = parsed;
+  } else {
+    values = text.split(/\n\s*\n/).map((p) => p.trim());
+  }
+
+  return values
+    .map((value, i) => toItem(value, i, file))
+    .filter((item) => item.content.trim().length > 0);
+}
+
+/**
+ * Read a corpus file, relative paths resolved against baseDir
+ */
+export function loadCorpus(file: string, baseDir: string, maxItems?: number): CorpusItem[] {
+  const fullPath = path.resolve(baseDir, file);
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(`Corpus file not found: ${fullPath}`);
+  }
+
+  const items = parseCorpus(fs.readFileSync(fullPath, 'utf-8'), fullPath);
+  if (items.length === 0) {
+    throw new Error(`Corpus file contains no items: ${fullPath}`);
+  }
+  return maxItems ? items.slice(0, maxItems) : items;
+}
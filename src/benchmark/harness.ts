@@ -0,0 +1,208 @@
+/**
+ * Benchmark runs: encode/decode delegation rounds and scoring.
+ *
+ * Each corpus item is encoded by the host with the transform's encode
+ * instructions, then decoded back to English without the original. Token
+ * compression is measured on the encoding, quality on the round trip.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { PRESETS } from '../transform/presets.js';
+import { countTokens, getTokenCounter } from '../tokenizer/counter.js';
+import { hasFormatParser, validateEncoded } from '../transform/formats/index.js';
+import { compressionRatio, lexicalSimilarity, similarityToQuality } from './metrics.js';
+import type {
+  BenchmarkReport,
+  BenchmarkRound,
+  BenchmarkRun,
+  BenchmarkSample,
+  BenchmarkTransform,
+  CorpusItem,
+  TransformScore,
+} from './types.js';
+
+/**
+ * Build a benchmark transform from a preset
+ */
+export function presetBenchmarkTransform(presetKey: string): BenchmarkTransform {
+  const preset = PRESETS[presetKey];
+  if (!preset) {
+    throw new Error(`Unknown preset: ${presetKey}`);
+  }
+  return {
+    key: presetKey,
+    name: preset.name,
+    preset: presetKey,
+    transform_to: preset.transform_to,
+    encode_instructions: preset.encode_instructions,
+    decode_instructions: preset.decode_instructions,
+  };
+}
+
+/**
+ * Start a run over every item × transform
+ */
+export function createRun(corpusPath: string, items: CorpusItem[], transforms: BenchmarkTransform[]): BenchmarkRun {
+  if (transforms.length === 0) {
+    throw new Error('At least one transform is required');
+  }
+  const samples: BenchmarkSample[] = [];
+  transforms.forEach((_t, transform) => items.forEach((_i, item) => samples.push({ transform, item })));
+
+  return {
+    id: uuidv4(),
+    corpus_path: corpusPath,
+    created_at: new Date().toISOString(),
+    items,
+    transforms,
+    samples,
+  };
+}
+
+/**
+ * Plain-text transforms decode to themselves
+ */
+function needsDecode(transform: BenchmarkTransform): boolean {
+  return transform.transform_to !== 'text/plain';
+}
+
+function roundId(direction: 'encode' | 'decode', sample: BenchmarkSample): string {
+  return `${direction}:${sample.transform}:${sample.item}`;
+}
+
+function toRound(run: BenchmarkRun, direction: 'encode' | 'decode', sample: BenchmarkSample): BenchmarkRound {
+  const transform = run.transforms[sample.transform];
+  const item = run.items[sample.item];
+  const instructions = direction === 'encode'
+    ? `${transform.encode_instructions}\n\nContent to transform:\n${item.content}\n\nReturn only the encoded content.`
+    : `${transform.decode_instructions}\n\nDecode this content without referring to any original text:\n${sample.encoded}\n\nReturn only the decoded English text.`;
+
+  return {
+    round_id: roundId(direction, sample),
+    direction,
+    transform: transform.key,
+    item: item.id,
+    instructions,
+  };
+}
+
+/**
+ * Rounds still waiting for host output: encodes first, then decodes
+ */
+export function pendingRounds(run: BenchmarkRun, limit = Infinity): BenchmarkRound[] {
+  const rounds: BenchmarkRound[] = [];
+  for (const sample of run.samples) {
+    if (rounds.length >= limit) return rounds;
+    if (sample.encoded === undefined) rounds.push(toRound(run, 'encode', sample));
+  }
+  for (const sample of run.samples) {
+    if (rounds.length >= limit) return rounds;
+    if (sample.encoded !== undefined && sample.decoded === undefined) rounds.push(toRound(run, 'decode', sample));
+  }
+  return rounds;
+}
+
+/**
+ * Number of rounds still waiting for host output
+ */
+export function remainingRounds(run: BenchmarkRun): number {
+  return run.samples.reduce(
+    (n, s) => n + (s.encoded === undefined ? (needsDecode(run.transforms[s.transform]) ? 2 : 1) : s.decoded === undefined ? 1 : 0),
+    0
+  );
+}
+
+/**
+ * Record host output for a round and measure it
+ */
+export function recordRound(run: BenchmarkRun, id: string, output: string): void {
+  const match = /^(encode|decode):(\d+):(\d+)$/.exec(id);
+  const sample = match && run.samples.find((s) => s.transform === Number(match[2]) && s.item === Number(match[3]));
+  if (!match || !sample) {
+    throw new Error(`Unknown round_id: ${id}`);
+  }
+  if (typeof output !== 'string' || !output.trim()) {
+    throw new Error(`Empty output for round ${id}`);
+  }
+
+  const transform = run.transforms[sample.transform];
+  const original = run.items[sample.item].content;
+
+  if (match[1] === 'encode') {
+    sample.encoded = output;
+    sample.original_tokens = countTokens(original, 'baseline');
+    sample.encoded_tokens = countTokens(output, transform.preset);
+    sample.compression = compressionRatio(sample.original_tokens, sample.encoded_tokens);
+    sample.structure_valid = null;
+    sample.structure_error = undefined;
+    if (hasFormatParser(transform.transform_to)) {
+      const error = validateEncoded(output, transform.transform_to);
+      sample.structure_valid = error === null;
+      sample.structure_error = error ?? undefined;
+    }
+    if (!needsDecode(transform)) {
+      sample.decoded = output;
+      sample.similarity = lexicalSimilarity(original, output);
+    }
+  } else {
+    if (sample.encoded === undefined) {
+      throw new Error(`Round ${id} has not been encoded yet`);
+    }
+    sample.decoded = output;
+    sample.similarity = lexicalSimilarity(original, output);
+  }
+
+  if (remainingRounds(run) === 0 && !run.completed_at) {
+    run.completed_at = new Date().toISOString();
+  }
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Score each transform over its completed samples
+ */
+export function buildReport(run: BenchmarkRun): BenchmarkReport {
+  const transforms: TransformScore[] = run.transforms.map((transform, index) => {
+    const samples = run.samples.filter((s) => s.transform === index);
+    const done = samples.filter((s) => s.similarity !== undefined);
+    const checked = samples.filter((s) => typeof s.structure_valid === 'boolean');
+    const compression = mean(done.map((s) => s.compression!));
+    const similarity = mean(done.map((s) => s.similarity!));
+    const quality = done.length > 0 ? similarityToQuality(similarity) : 0;
+    const preset = transform.preset ? PRESETS[transform.preset] : undefined;
+
+    return {
+      transform: transform.key,
+      name: transform.name,
+      samples: samples.length,
+      completed: done.length,
+      compression: round(compression),
+      similarity: round(similarity),
+      quality: round(quality),
+      efficiency: round(quality * compression),
+      structure_valid_rate: checked.length > 0
+        ? round(checked.filter((s) => s.structure_valid).length / checked.length)
+        : null,
+      expected_compression: preset?.expected_compression,
+      expected_quality: preset?.expected_quality,
+    };
+  });
+
+  return {
+    run_id: run.id,
+    corpus_path: run.corpus_path,
+    items: run.items.length,
+    tokenizer: getTokenCounter().name,
+    created_at: run.created_at,
+    completed_at: run.completed_at,
+    complete: remainingRounds(run) === 0,
+    transforms,
+  };
+}
@@ -0,0 +1,5 @@
+export * from './types.js';
+export * from './corpus.js';
+export * from './metrics.js';
+export * from './harness.js';
+export * from './store.js';
@@ -0,0 +1,58 @@
+/**
+ * Local round-trip metrics: no LLM judge, no network
+ */
+
+import { tokenize } from '../search/bm25.js';
+
+/**
+ * F1 overlap of two term multisets
+ */
+function overlapF1(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const term of a) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+  let shared = 0;
+  for (const term of b) {
+    const count = counts.get(term) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(term, count - 1);
+    }
+  }
+
+  const precision = shared / b.length;
+  const recall = shared / a.length;
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+}
+
+function bigrams(terms: string[]): string[] {
+  return terms.slice(1).map((term, i) => `${terms[i]} ${term}`);
+}
+
+/**
+ * Lexical similarity of an original text and its round-trip decoding, 0..1.
+ * Content-word overlap, with a smaller weight on word order (bigrams).
+ */
+export function lexicalSimilarity(original: string, decoded: string): number {
+  const a = tokenize(original);
+  const b = tokenize(decoded);
+  return 0.7 * overlapF1(a, b) + 0.3 * overlapF1(bigrams(a), bigrams(b));
+}
+
+/**
+ * Token savings of an encoding, 0..1 (negative when the encoding is larger)
+ */
+export function compressionRatio(originalTokens: number, encodedTokens: number): number {
+  return originalTokens > 0 ? 1 - encodedTokens / originalTokens : 0;
+}
+
+/**
+ * Map a 0..1 similarity onto the presets' 1..5 quality scale
+ */
+export function similarityToQuality(similarity: number): number {
+  return 1 + 4 * Math.max(0, Math.min(1, similarity));
+}
@@ -0,0 +1,68 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { BenchmarkReport, BenchmarkRun } from './types.js';
+
+const BENCHMARK_DIR = '.wisdom/benchmarks';
+
+/**
+ * Benchmark runs and reports in .wisdom/benchmarks/. Outside a project runs
+ * only live in memory and reports are not written.
+ */
+export class BenchmarkStore {
+  private dir: string | null;
+  private runs = new Map<string, BenchmarkRun>();
+
+  constructor(projectRoot: string | null) {
+    this.dir = projectRoot ? path.join(projectRoot, BENCHMARK_DIR) : null;
+  }
+
+  private write(file: string, data: unknown): string | null {
+    if (!this.dir) return null;
+
+    const filePath = path.join(this.dir, file);
+    const tmpPath = filePath + '.tmp.' + process.pid + '.' + Date.now();
+    try {
+      if (!fs.existsSync(this.dir)) {
+        fs.mkdirSync(this.dir, { recursive: true });
+      }
+      fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+      fs.renameSync(tmpPath, filePath);
+      return filePath;
+    } catch {
+      try { fs.unlinkSync(tmpPath); } catch { /* ignore */ }
+      return null;
+    }
+  }
+
+  /**
+   * Save a run
+   */
+  saveRun(run: BenchmarkRun): void {
+    this.runs.set(run.id, run);
+    this.write(`${run.id}.run.json`, run);
+  }
+
+  /**
+   * Get a run from memory or disk
+   */
+  getRun(id: string): BenchmarkRun | null {
+    const cached = this.runs.get(id);
+    if (cached) return cached;
+    if (!this.dir || !/^[\w-]+$/.test(id)) return null;
+
+    try {
+      const run = JSON.parse(fs.readFileSync(path.join(this.dir, `${id}.run.json`), 'utf-8')) as BenchmarkRun;
+      this.runs.set(id, run);
+      return run;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Write a report. Returns its path, or null when not in a project.
+   */
+  saveReport(report: BenchmarkReport): string | null {
+    return this.write(`${report.run_id}.report.json`, report);
+  }
+}
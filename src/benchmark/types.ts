@@ -0,0 +1,95 @@
+/**
+ * Types for transform quality benchmarking
+ */
+
+/**
+ * One text of the benchmark corpus
+ */
+export interface CorpusItem {
+  id: string;
+  content: string;
+  fragment_type?: string;
+}
+
+/**
+ * A preset or gateway Transform under test
+ */
+export interface BenchmarkTransform {
+  key: string; // Preset key or Transform UUID
+  name: string;
+  preset?: string; // Preset used for token calibration
+  transform_to: string;
+  encode_instructions: string;
+  decode_instructions: string;
+}
+
+/**
+ * Results for one corpus item under one transform
+ */
+export interface BenchmarkSample {
+  transform: number; // Index into BenchmarkRun.transforms
+  item: number; // Index into BenchmarkRun.items
+  encoded?: string;
+  decoded?: string;
+  original_tokens?: number;
+  encoded_tokens?: number;
+  compression?: number;
+  similarity?: number;
+  structure_valid?: boolean | null; // null: no local parser for the format
+  structure_error?: string;
+}
+
+/**
+ * A benchmark run, persisted between delegation rounds
+ */
+export interface BenchmarkRun {
+  id: string;
+  corpus_path: string;
+  created_at: string;
+  completed_at?: string;
+  items: CorpusItem[];
+  transforms: BenchmarkTransform[];
+  samples: BenchmarkSample[];
+}
+
+/**
+ * An encode or decode step delegated to the host
+ */
+export interface BenchmarkRound {
+  round_id: string;
+  direction: 'encode' | 'decode';
+  transform: string;
+  item: string;
+  instructions: string;
+}
+
+/**
+ * Measured numbers for one transform
+ */
+export interface TransformScore {
+  transform: string;
+  name: string;
+  samples: number;
+  completed: number;
+  compression: number; // Mean token savings, 0..1 (negative when encoding grows)
+  similarity: number; // Mean round-trip similarity, 0..1
+  quality: number; // Similarity on the presets' 1..5 scale
+  efficiency: number; // quality × compression
+  structure_valid_rate: number | null;
+  expected_compression?: number;
+  expected_quality?: number;
+}
+
+/**
+ * Benchmark report written to .wisdom/benchmarks/
+ */
+export interface BenchmarkReport {
+  run_id: string;
+  corpus_path: string;
+  items: number;
+  tokenizer: string;
+  created_at: string;
+  completed_at?: string;
+  complete: boolean;
+  transforms: TransformScore[];
+}
@@ -70,6 +70,14 @@ function loadEnvConfig(): PartialWisdomConfig {
     config.private_key = process.env.WISDOM_PRIVATE_KEY;
   }
 
+  if (process.env.WISDOM_KEY_VAULT) {
+    config.key_vault = process.env.WISDOM_KEY_VAULT;
+  }
+
+  if (process.env.WISDOM_KEY_FILE) {
+    config.key_file = process.env.WISDOM_KEY_FILE;
+  }
+
   if (process.env.WISDOM_GATEWAY_URL) {
     config.gateway_url = process.env.WISDOM_GATEWAY_URL;
   }
@@ -86,6 +94,20 @@ function loadEnvConfig(): PartialWisdomConfig {
     config.hub_host = process.env.WISDOM_HUB_HOST;
   }
 
+  const timeout = Number(process.env.WISDOM_GATEWAY_TIMEOUT_MS);
+  if (Number.isInteger(timeout) && timeout > 0) {
+    config.gateway_timeout_ms = timeout;
+  }
+
+  const validation = process.env.WISDOM_GATEWAY_VALIDATION;
+  if (validation === 'strict' || validation === 'lenient') {
+    config.gateway_validation = validation;
+  }
+
+  if (process.env.WISDOM_DROP_UNVERIFIED) {
+    config.drop_unverified = process.env.WISDOM_DROP_UNVERIFIED === 'true';
+  }
+
   return config;
 }
 
@@ -115,6 +137,7 @@ export interface ConfigPaths {
   projectRoot: string | null;
   projectConfig: string | null;
   globalConfig: string;
+  keyVault: string; // Encrypted private key
 }
 
 /**
@@ -141,6 +164,7 @@ export function loadConfig(startDir?: string): LoadedConfig {
       ? path.join(projectRoot, CONFIG_FILES.project)
       : null,
     globalConfig: path.join(globalConfigDir, CONFIG_FILES.global),
+    keyVault: path.join(globalConfigDir, CONFIG_FILES.keyVault),
   };
 
   // Load configs in priority order (lowest to highest)
@@ -153,6 +177,24 @@ export function loadConfig(startDir?: string): LoadedConfig {
   // Merge with highest priority last
   const config = mergeConfigs(globalConfig, envConfig, projectConfig);
 
+  // A relative key_vault or key_file is relative to the config file that set
+  // it, or to the working directory when set through the environment
+  const sources = [
+    { config: projectConfig, dir: paths.projectConfig ? path.dirname(paths.projectConfig) : process.cwd() },
+    { config: envConfig, dir: process.cwd() },
+    { config: globalConfig, dir: globalConfigDir },
+  ];
+  const resolveFrom = (key: 'key_vault' | 'key_file'): string | undefined => {
+    const source = sources.find((s) => s.config?.[key]);
+    const value = source?.config?.[key];
+    return source && value ? path.resolve(source.dir, value) : undefined;
+  };
+  paths.keyVault = resolveFrom('key_vault') ?? paths.keyVault;
+  const keyFile = resolveFrom('key_file');
+  if (keyFile) {
+    config.key_file = keyFile;
+  }
+
   return { config, paths };
 }
 
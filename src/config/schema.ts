@@ -7,9 +7,14 @@ export const WisdomConfigSchema = z.object({
   // Agent identity
   agent_uuid: z.string().uuid().optional(),
   private_key: z.string().optional(), // Base64 Ed25519 private key
+  key_vault: z.string().optional(), // Encrypted key file (default: wisdom-key.json next to the global config)
+  key_file: z.string().optional(), // File holding the key vault passphrase
 
   // Gateway connection
   gateway_url: z.string().url().default('http://localhost:8080'),
+  gateway_timeout_ms: z.number().int().positive().optional(), // Per request attempt (default: 10000)
+  gateway_max_retries: z.number().int().min(0).optional(), // Retries for GETs and keyed POSTs (default: 2)
+  gateway_validation: z.enum(['strict', 'lenient']).optional(), // Response validation (default: strict)
 
   // Hub connection (for address construction)
   hub_host: z.string().optional(), // e.g., "hub1.wisdom.spawning.de:443"
@@ -18,6 +23,9 @@ export const WisdomConfigSchema = z.object({
   current_project: z.string().uuid().optional(),
   default_tags: z.array(z.string().uuid()).optional(),
   default_transform: z.string().uuid().optional(),
+
+  // Signature verification
+  drop_unverified: z.boolean().optional(), // Drop entities whose signature cannot be verified
 });
 
 export type WisdomConfig = z.infer<typeof WisdomConfigSchema>;
@@ -36,6 +44,7 @@ export type ServerMode = 'stdio' | 'http';
 export interface ServerConfig {
   mode: ServerMode;
   httpPort?: number;
+  httpHost?: string; // Bind address for HTTP mode (default: 127.0.0.1)
 }
 
 /**
@@ -51,4 +60,5 @@ export const DEFAULT_CONFIG: WisdomConfig = {
 export const CONFIG_FILES = {
   project: '.wisdom/config.json',
   global: 'wisdom.json',
+  keyVault: 'wisdom-key.json',
 } as const;
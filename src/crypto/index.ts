@@ -1,2 +1,5 @@
 export * from './keys.js';
 export * from './signing.js';
+export * from './verification.js';
+export * from './request-signing.js';
+export * from './vault.js';
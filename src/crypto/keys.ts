@@ -1,5 +1,7 @@
+import { createHash } from 'node:crypto';
 import * as ed from '@noble/ed25519';
 import { WisdomConfig } from '../config/schema.js';
+import { type KeyVaultFile, openKeyVault, readKeyVault, resolvePassphrase } from './vault.js';
 
 /**
  * Key pair for Ed25519 signing
@@ -48,32 +50,96 @@ export async function getPublicKey(privateKey: Uint8Array): Promise<Uint8Array>
   return await ed.getPublicKeyAsync(privateKey);
 }
 
+// Unlocked vault keys by vault contents and passphrase. Unlocking runs
+// scrypt, which should not repeat for every HTTP session or config reload.
+const unlockedVaults = new Map<string, Uint8Array>();
+
+function unlockVault(vault: KeyVaultFile, passphrase: string): Uint8Array {
+  const id = createHash('sha256')
+    .update(JSON.stringify([vault.salt, vault.iv, vault.tag, vault.ciphertext, passphrase]))
+    .digest('base64');
+  let key = unlockedVaults.get(id);
+  if (!key) {
+    key = openKeyVault(vault, passphrase);
+    unlockedVaults.set(id, key);
+  }
+  return new Uint8Array(key);
+}
+
+/**
+ * Where the private key was loaded from
+ */
+export type KeySource = 'config' | 'vault' | 'none';
+
 /**
- * Key manager for the current agent
+ * Key manager for the current agent. A plaintext private_key in config (or
+ * WISDOM_PRIVATE_KEY) takes precedence; otherwise the key is unlocked from
+ * the encrypted key vault.
  */
 export class KeyManager {
   private privateKey: Uint8Array | null = null;
   private publicKey: Uint8Array | null = null;
+  private source: KeySource = 'none';
+  private vaultError: string | null = null;
+  private vaultPath: string | undefined;
 
-  constructor(config: WisdomConfig) {
-    this.setConfig(config);
+  constructor(config: WisdomConfig, vaultPath?: string) {
+    this.setConfig(config, vaultPath);
   }
 
   /**
    * Update keys from config
    */
-  setConfig(config: WisdomConfig): void {
+  setConfig(config: WisdomConfig, vaultPath: string | undefined = this.vaultPath): void {
+    this.vaultPath = vaultPath;
+    this.privateKey = null;
+    this.source = 'none';
+    this.vaultError = null;
+    // Public key will be derived on demand
+    this.publicKey = null;
+
     if (config.private_key) {
       try {
         this.privateKey = fromBase64(config.private_key);
+        this.source = 'config';
       } catch {
         this.privateKey = null;
       }
-    } else {
-      this.privateKey = null;
+      return;
     }
-    // Public key will be derived on demand
-    this.publicKey = null;
+
+    if (!vaultPath) return;
+    try {
+      const vault = readKeyVault(vaultPath);
+      if (!vault) return;
+      const passphrase = resolvePassphrase(config);
+      if (!passphrase) {
+        this.vaultError = `Key vault ${vaultPath} is locked. Set WISDOM_KEY_PASSPHRASE or key_file.`;
+        return;
+      }
+      this.privateKey = unlockVault(vault, passphrase);
+      this.source = 'vault';
+    } catch (error) {
+      this.vaultError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Where the private key came from
+   */
+  getKeySource(): KeySource {
+    return this.source;
+  }
+
+  getVaultPath(): string | undefined {
+    return this.vaultPath;
+  }
+
+  /**
+   * Why the key vault could not be unlocked, if it exists
+   */
+  getVaultError(): string | null {
+    return this.vaultError;
   }
 
   /**
@@ -89,7 +155,7 @@ export class KeyManager {
   getPrivateKey(): Uint8Array {
     if (!this.privateKey) {
       throw new Error(
-        'No private key configured. Run wisdom_generate_keypair first.'
+        this.vaultError || 'No private key configured. Run wisdom_generate_keypair first.'
       );
     }
     return this.privateKey;
@@ -0,0 +1,215 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { sign, verify } from './signing.js';
+import type { KeyManager } from './keys.js';
+
+/**
+ * Headers that authenticate a gateway request as coming from an agent
+ */
+export const REQUEST_SIGNATURE_HEADERS = {
+  agent: 'X-Wisdom-Agent',
+  timestamp: 'X-Wisdom-Timestamp', // Unix milliseconds
+  nonce: 'X-Wisdom-Nonce',
+  bodyHash: 'X-Wisdom-Content-SHA256', // Hex SHA-256 of the exact body bytes
+  signature: 'X-Wisdom-Signature', // Base64 Ed25519 signature of the payload
+} as const;
+
+const PROJECT_HEADER = 'X-Wisdom-Project';
+const SIGNATURE_VERSION = 'WISDOM-REQUEST-V1';
+
+/** Accepted difference between the signer's and the verifier's clocks */
+export const DEFAULT_MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * The parts of an HTTP request covered by the signature
+ */
+export interface SignableRequest {
+  method: string;
+  path: string; // Including the query string
+  body?: string;
+  project?: string;
+}
+
+/**
+ * Signs outgoing gateway requests; returns no headers when the agent has no
+ * identity yet (e.g. during registration)
+ */
+export type RequestSigner = (request: SignableRequest) => Promise<Record<string, string>>;
+
+export function hashBody(body: string | undefined): string {
+  return createHash('sha256')
+    .update(body ?? '')
+    .digest('hex');
+}
+
+/**
+ * Canonical text that is signed: one field per line
+ */
+export function getRequestSignablePayload(
+  request: SignableRequest,
+  agentUuid: string,
+  timestamp: string,
+  nonce: string,
+  bodyHash: string = hashBody(request.body)
+): string {
+  return [
+    SIGNATURE_VERSION,
+    request.method.toUpperCase(),
+    request.path,
+    agentUuid,
+    timestamp,
+    nonce,
+    bodyHash,
+    request.project ?? '',
+  ].join('\n');
+}
+
+/**
+ * Signature headers for a request
+ */
+export async function signRequest(
+  request: SignableRequest,
+  agentUuid: string,
+  privateKey: Uint8Array,
+  now: number = Date.now()
+): Promise<Record<string, string>> {
+  const timestamp = String(now);
+  const nonce = randomBytes(16).toString('hex');
+  const bodyHash = hashBody(request.body);
+  const signature = await sign(
+    getRequestSignablePayload(request, agentUuid, timestamp, nonce, bodyHash),
+    privateKey
+  );
+
+  return {
+    [REQUEST_SIGNATURE_HEADERS.agent]: agentUuid,
+    [REQUEST_SIGNATURE_HEADERS.timestamp]: timestamp,
+    [REQUEST_SIGNATURE_HEADERS.nonce]: nonce,
+    [REQUEST_SIGNATURE_HEADERS.bodyHash]: bodyHash,
+    [REQUEST_SIGNATURE_HEADERS.signature]: signature,
+  };
+}
+
+/**
+ * Signer for the configured agent. Requests stay unsigned while there is no
+ * private key or agent UUID.
+ */
+export function createRequestSigner(
+  keyManager: KeyManager,
+  getAgentUuid: () => string | undefined
+): RequestSigner {
+  return async (request) => {
+    const agentUuid = getAgentUuid();
+    if (!agentUuid || !keyManager.hasPrivateKey()) {
+      return {};
+    }
+    return signRequest(request, agentUuid, keyManager.getPrivateKey());
+  };
+}
+
+// ============================================================================
+// Verification (mirrored by the gateway)
+// ============================================================================
+
+/**
+ * Remembers nonces seen within the clock-skew window so a captured request
+ * cannot be replayed
+ */
+export class NonceCache {
+  private seen = new Map<string, number>(); // nonce -> expiry
+
+  constructor(private ttlMs: number = 2 * DEFAULT_MAX_CLOCK_SKEW_MS) {}
+
+  /**
+   * Record a nonce; false when it was already used
+   */
+  use(nonce: string, now: number = Date.now()): boolean {
+    for (const [seenNonce, expiry] of this.seen) {
+      if (expiry > now) break; // Insertion order is expiry order
+      this.seen.delete(seenNonce);
+    }
+    if (this.seen.has(nonce)) {
+      return false;
+    }
+    this.seen.set(nonce, now + this.ttlMs);
+    return true;
+  }
+}
+
+export type RequestVerificationFailure =
+  | 'unsigned'
+  | 'malformed'
+  | 'unknown_agent'
+  | 'clock_skew'
+  | 'body_mismatch'
+  | 'bad_signature'
+  | 'replayed';
+
+export type RequestVerificationResult =
+  | { ok: true; agent: string }
+  | { ok: false; reason: RequestVerificationFailure; agent?: string };
+
+export interface VerifyRequestOptions {
+  /** Public key of an agent, or null when unknown */
+  getPublicKey: (agentUuid: string) => Promise<Uint8Array | null> | Uint8Array | null;
+  nonces?: NonceCache;
+  maxClockSkewMs?: number;
+  now?: number;
+}
+
+/**
+ * Verify a signed request as received: method, path with query, raw body and
+ * headers (names are matched case-insensitively)
+ */
+export async function verifyRequest(
+  request: { method: string; path: string; body?: string; headers: Record<string, string | string[] | undefined> },
+  options: VerifyRequestOptions
+): Promise<RequestVerificationResult> {
+  const header = (name: string): string | undefined => {
+    const key = Object.keys(request.headers).find((k) => k.toLowerCase() === name.toLowerCase());
+    const value = key ? request.headers[key] : undefined;
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const agent = header(REQUEST_SIGNATURE_HEADERS.agent);
+  const timestamp = header(REQUEST_SIGNATURE_HEADERS.timestamp);
+  const nonce = header(REQUEST_SIGNATURE_HEADERS.nonce);
+  const bodyHash = header(REQUEST_SIGNATURE_HEADERS.bodyHash);
+  const signature = header(REQUEST_SIGNATURE_HEADERS.signature);
+
+  if (!agent && !signature) {
+    return { ok: false, reason: 'unsigned' };
+  }
+  if (!agent || !timestamp || !nonce || !bodyHash || !signature || !/^\d+$/.test(timestamp)) {
+    return { ok: false, reason: 'malformed', agent };
+  }
+
+  const now = options.now ?? Date.now();
+  if (Math.abs(now - Number(timestamp)) > (options.maxClockSkewMs ?? DEFAULT_MAX_CLOCK_SKEW_MS)) {
+    return { ok: false, reason: 'clock_skew', agent };
+  }
+  if (hashBody(request.body) !== bodyHash) {
+    return { ok: false, reason: 'body_mismatch', agent };
+  }
+
+  const publicKey = await options.getPublicKey(agent);
+  if (!publicKey) {
+    return { ok: false, reason: 'unknown_agent', agent };
+  }
+
+  const payload = getRequestSignablePayload(
+    { method: request.method, path: request.path, project: header(PROJECT_HEADER) },
+    agent,
+    timestamp,
+    nonce,
+    bodyHash
+  );
+  if (!(await verify(payload, signature, publicKey))) {
+    return { ok: false, reason: 'bad_signature', agent };
+  }
+
+  // Only a verified request consumes its nonce
+  if (options.nonces && !options.nonces.use(nonce, now)) {
+    return { ok: false, reason: 'replayed', agent };
+  }
+  return { ok: true, agent };
+}
@@ -114,7 +114,7 @@ export async function verifyAgent(
  * Get signable payload for a Fragment
  */
 export function getFragmentSignablePayload(
-  fragment: Omit<CreateFragmentRequest, 'signature'>
+  fragment: Omit<CreateFragmentRequest, 'signature' | 'transform'> & Pick<Fragment, 'transform'>
 ): string {
   return canonicalize({
     uuid: fragment.uuid,
@@ -0,0 +1,298 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import * as ed from '@noble/ed25519';
+import type { WisdomConfig } from '../config/schema.js';
+
+/**
+ * Private key encrypted at rest: scrypt derives an AES-256-GCM key from the
+ * passphrase. The header fields are authenticated, so the public key cannot
+ * be swapped without breaking decryption.
+ */
+export interface KeyVaultFile {
+  version: 1;
+  kdf: 'scrypt';
+  kdf_params: ScryptParams;
+  cipher: 'aes-256-gcm';
+  salt: string; // Base64
+  iv: string; // Base64
+  tag: string; // Base64 GCM auth tag
+  ciphertext: string; // Base64
+  public_key: string; // Base64, readable without the passphrase
+  created_at: string;
+}
+
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 2 ** 15, r: 8, p: 1 };
+
+const b64 = (bytes: Uint8Array): string => Buffer.from(bytes).toString('base64');
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Buffer {
+  return scryptSync(passphrase, salt, 32, { ...params, maxmem: 256 * params.N * params.r });
+}
+
+function headerOf(vault: Pick<KeyVaultFile, 'version' | 'kdf_params' | 'public_key'>): Buffer {
+  const { N, r, p } = vault.kdf_params;
+  return Buffer.from(`wisdom-key-vault:${vault.version}:${N}:${r}:${p}:${vault.public_key}`);
+}
+
+/**
+ * Encrypt a private key with a passphrase
+ */
+export function sealPrivateKey(
+  privateKey: Uint8Array,
+  publicKeyBase64: string,
+  passphrase: string,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): KeyVaultFile {
+  if (!passphrase) {
+    throw new Error('Key vault passphrase must not be empty');
+  }
+
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const header = { version: 1 as const, kdf_params: params, public_key: publicKeyBase64 };
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, params), iv);
+  cipher.setAAD(headerOf(header));
+  const ciphertext = Buffer.concat([cipher.update(privateKey), cipher.final()]);
+
+  return {
+    ...header,
+    kdf: 'scrypt',
+    cipher: 'aes-256-gcm',
+    salt: b64(salt),
+    iv: b64(iv),
+    tag: b64(cipher.getAuthTag()),
+    ciphertext: b64(ciphertext),
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Decrypt the private key of a vault
+ */
+export function openKeyVault(vault: KeyVaultFile, passphrase: string): Uint8Array {
+  try {
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      deriveKey(passphrase, Buffer.from(vault.salt, 'base64'), vault.kdf_params),
+      Buffer.from(vault.iv, 'base64')
+    );
+    decipher.setAAD(headerOf(vault));
+    decipher.setAuthTag(Buffer.from(vault.tag, 'base64'));
+    const key = Buffer.concat([decipher.update(Buffer.from(vault.ciphertext, 'base64')), decipher.final()]);
+    return new Uint8Array(key);
+  } catch {
+    throw new Error('Cannot unlock key vault: wrong passphrase or corrupted vault file');
+  }
+}
+
+/**
+ * Read a vault file; null when it does not exist
+ */
+export function readKeyVault(filePath: string): KeyVaultFile | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  const vault = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as KeyVaultFile;
+  if (vault.version !== 1 || vault.kdf !== 'scrypt' || vault.cipher !== 'aes-256-gcm' || !vault.ciphertext) {
+    throw new Error(`Unsupported key vault format: ${filePath}`);
+  }
+  return vault;
+}
+
+/**
+ * Write a vault file readable only by the current user. An existing vault is
+ * kept as <path>.<timestamp>.bak; the backup path is returned.
+ */
+export function writeKeyVault(filePath: string, vault: KeyVaultFile): string | undefined {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+
+  let backup: string | undefined;
+  if (fs.existsSync(filePath)) {
+    backup = `${filePath}.${Date.now()}.bak`;
+    fs.copyFileSync(filePath, backup);
+  }
+
+  const tmpPath = filePath + '.tmp.' + process.pid + '.' + Date.now();
+  try {
+    fs.writeFileSync(tmpPath, JSON.stringify(vault, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpPath, filePath);
+  } catch (err) {
+    try { fs.unlinkSync(tmpPath); } catch { /* ignore */ }
+    throw err;
+  }
+  return backup;
+}
+
+/**
+ * Vault passphrase from WISDOM_KEY_PASSPHRASE or the configured key file;
+ * null when neither is set
+ */
+export function resolvePassphrase(config: Pick<WisdomConfig, 'key_file'>): string | null {
+  if (process.env.WISDOM_KEY_PASSPHRASE) {
+    return process.env.WISDOM_KEY_PASSPHRASE;
+  }
+  if (config.key_file) {
+    try {
+      return fs.readFileSync(config.key_file, 'utf-8').replace(/\r?\n$/, '');
+    } catch (error) {
+      throw new Error(`Cannot read key file ${config.key_file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Refuse to replace a vault that holds a key other than `publicKey`
+ */
+export function assertVaultReplaceable(vaultPath: string, publicKey: string): void {
+  const existing = readKeyVault(vaultPath);
+  if (existing && existing.public_key !== publicKey) {
+    throw new Error(
+      `Key vault ${vaultPath} already holds a different key (public key ${existing.public_key}). Move it away first.`
+    );
+  }
+}
+
+/**
+ * Config files among the given ones that hold a plaintext private key
+ */
+export function plaintextKeyFiles(configFiles: Array<string | null>): string[] {
+  return configFiles.filter((file): file is string => {
+    if (!file || !fs.existsSync(file)) return false;
+    try {
+      const config = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, unknown>;
+      return !!config.private_key;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Result of moving a plaintext key into the vault
+ */
+export interface KeyMigration {
+  key_vault: string;
+  public_key: string;
+  removed_from: string[];
+  kept_different_key?: string[]; // Config files holding another key, left untouched
+  previous_vault_backup?: string;
+}
+
+/**
+ * Encrypt a plaintext private key into the vault and remove it from the given
+ * config files that hold the same key. Refuses to replace a vault that holds
+ * a different key.
+ */
+export async function migratePlaintextKey(
+  privateKeyBase64: string,
+  vaultPath: string,
+  passphrase: string,
+  configFiles: string[],
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): Promise<KeyMigration> {
+  const privateKey = new Uint8Array(Buffer.from(privateKeyBase64, 'base64'));
+  const publicKey = b64(await ed.getPublicKeyAsync(privateKey));
+
+  assertVaultReplaceable(vaultPath, publicKey);
+  const backup = writeKeyVault(vaultPath, sealPrivateKey(privateKey, publicKey, passphrase, params));
+
+  const removed: string[] = [];
+  const kept: string[] = [];
+  for (const file of configFiles) {
+    if (!fs.existsSync(file)) continue;
+    const config = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, unknown>;
+    if (config.private_key === undefined) continue;
+    if (config.private_key !== privateKeyBase64) {
+      kept.push(file);
+      continue;
+    }
+    delete config.private_key;
+    // Rewrite as is (other keys untouched), atomically
+    const tmpPath = file + '.tmp.' + process.pid + '.' + Date.now();
+    fs.writeFileSync(tmpPath, JSON.stringify(config, null, 2));
+    fs.renameSync(tmpPath, file);
+    removed.push(file);
+  }
+
+  return {
+    key_vault: vaultPath,
+    public_key: publicKey,
+    removed_from: removed,
+    ...(kept.length > 0 && { kept_different_key: kept }),
+    ...(backup && { previous_vault_backup: backup }),
+  };
+}
+
+/**
+ * Git status of a file: tracked, inside a work tree but not ignored, ignored,
+ * or not in a repository
+ */
+function gitStatusOf(filePath: string): 'tracked' | 'unignored' | 'ignored' | 'none' {
+  const run = (args: string[]): boolean => {
+    try {
+      execFileSync('git', args, { cwd: path.dirname(filePath), stdio: 'ignore', timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!run(['rev-parse', '--is-inside-work-tree'])) return 'none';
+  if (run(['ls-files', '--error-unmatch', '--', path.basename(filePath)])) return 'tracked';
+  return run(['check-ignore', '-q', '--', path.basename(filePath)]) ? 'ignored' : 'unignored';
+}
+
+/**
+ * Warnings for config files that hold a plaintext private key where git
+ * tracks it or would pick it up
+ */
+export function plaintextKeyWarnings(configFiles: Array<string | null>): string[] {
+  const warnings: string[] = [];
+  for (const file of plaintextKeyFiles(configFiles)) {
+    const status = gitStatusOf(file);
+    if (status === 'tracked') {
+      warnings.push(
+        `Plaintext private key in ${file}, which is tracked by git. Run wisdom_migrate_key and treat the key as leaked if it was pushed.`
+      );
+    } else if (status === 'unignored') {
+      warnings.push(`Plaintext private key in ${file}, which is not git-ignored. Run wisdom_migrate_key before committing.`);
+    }
+  }
+  return warnings;
+}
+
+// Warnings per config file, keyed by path and modification time. Checking
+// runs git, so an unchanged file is checked once per process.
+const keyWarnings = new Map<string, string[]>();
+
+/**
+ * plaintextKeyWarnings, cached until a config file changes
+ */
+export function cachedPlaintextKeyWarnings(configFiles: Array<string | null>): string[] {
+  return configFiles
+    .filter((file): file is string => !!file)
+    .flatMap((file) => {
+      let modified: number;
+      try {
+        modified = fs.statSync(file).mtimeMs;
+      } catch {
+        return [];
+      }
+      const key = `${file}#${modified}`;
+      let warnings = keyWarnings.get(key);
+      if (!warnings) {
+        warnings = plaintextKeyWarnings([file]);
+        keyWarnings.set(key, warnings);
+      }
+      return warnings;
+    });
+}
@@ -0,0 +1,160 @@
+import { fromBase64 } from './keys.js';
+import {
+  verifyAgent,
+  verifyFragment,
+  verifyRelation,
+  verifyTag,
+  verifyTransform,
+  verifyTrustVote,
+} from './signing.js';
+import type { GatewayClient } from '../gateway/client.js';
+import type {
+  Agent,
+  Fragment,
+  Relation,
+  Tag,
+  Transform,
+  TrustVote,
+} from '../gateway/types.js';
+
+/**
+ * Result of verifying an entity signature.
+ * 'unknown_key' means the signer's public key could not be resolved.
+ */
+export type VerificationStatus = true | false | 'unknown_key';
+
+/**
+ * An entity annotated with its verification status
+ */
+export type Verified<T> = T & { verified: VerificationStatus };
+
+/**
+ * Whether an entity with this status may be used. Invalid signatures never
+ * are; unknown signers only while unverified entities are not dropped.
+ */
+export function acceptsVerification(status: VerificationStatus, dropUnverified: boolean): boolean {
+  return status === true || (status === 'unknown_key' && !dropUnverified);
+}
+
+/**
+ * Verifies signatures of entities read from the gateway.
+ * Public keys are resolved from the signer's Agent record and cached.
+ */
+export class SignatureVerifier {
+  private gateway: GatewayClient;
+  private keys = new Map<string, Promise<Uint8Array | null>>();
+
+  constructor(gateway: GatewayClient) {
+    this.gateway = gateway;
+  }
+
+  /**
+   * Register a known public key (e.g. our own) without a gateway lookup
+   */
+  setKnownKey(agentUuid: string, publicKeyBase64: string): void {
+    this.keys.set(agentUuid, Promise.resolve(fromBase64(publicKeyBase64)));
+  }
+
+  /**
+   * Resolve an agent's public key, caching successful lookups
+   */
+  async getPublicKey(agentUuid: string): Promise<Uint8Array | null> {
+    if (!agentUuid) {
+      return null;
+    }
+
+    let pending = this.keys.get(agentUuid);
+    if (!pending) {
+      pending = this.gateway
+        .getAgent(agentUuid)
+        .then((agent) => (agent.public_key ? fromBase64(agent.public_key) : null))
+        .catch(() => null);
+      this.keys.set(agentUuid, pending);
+    }
+
+    const key = await pending;
+    if (!key) {
+      // Do not cache failed lookups; the agent may become resolvable later
+      this.keys.delete(agentUuid);
+    }
+    return key;
+  }
+
+  /**
+   * Clear all cached public keys
+   */
+  clearCache(): void {
+    this.keys.clear();
+  }
+
+  private async check<T>(
+    signer: string | undefined,
+    entity: T,
+    verifyFn: (entity: T, publicKey: Uint8Array) => Promise<boolean>
+  ): Promise<VerificationStatus> {
+    const publicKey = await this.getPublicKey(signer || '');
+    if (!publicKey) {
+      return 'unknown_key';
+    }
+    return verifyFn(entity, publicKey);
+  }
+
+  async verifyAgent(agent: Agent): Promise<VerificationStatus> {
+    if (!agent.public_key) {
+      return 'unknown_key';
+    }
+    return verifyAgent(agent, fromBase64(agent.public_key));
+  }
+
+  async verifyFragment(fragment: Fragment): Promise<VerificationStatus> {
+    return this.check(fragment.creator?.entity, fragment, verifyFragment);
+  }
+
+  async verifyRelation(relation: Relation): Promise<VerificationStatus> {
+    return this.check(relation.creator?.entity, relation, verifyRelation);
+  }
+
+  async verifyTag(tag: Tag): Promise<VerificationStatus> {
+    return this.check(tag.creator?.entity, tag, verifyTag);
+  }
+
+  async verifyTransform(transform: Transform): Promise<VerificationStatus> {
+    return this.check(transform.agent?.entity, transform, verifyTransform);
+  }
+
+  async verifyTrustVote(vote: TrustVote): Promise<VerificationStatus> {
+    return this.check(vote.voter, vote, verifyTrustVote);
+  }
+
+  /**
+   * Annotate a list of entities with their verification status
+   */
+  async annotate<T>(
+    entities: T[],
+    verifyFn: (entity: T) => Promise<VerificationStatus>
+  ): Promise<Array<Verified<T>>> {
+    return Promise.all(
+      entities.map(async (entity) => ({ ...entity, verified: await verifyFn(entity) }))
+    );
+  }
+
+  async annotateFragments(fragments: Fragment[]): Promise<Array<Verified<Fragment>>> {
+    return this.annotate(fragments, (f) => this.verifyFragment(f));
+  }
+
+  async annotateRelations(relations: Relation[]): Promise<Array<Verified<Relation>>> {
+    return this.annotate(relations, (r) => this.verifyRelation(r));
+  }
+
+  async annotateTags(tags: Tag[]): Promise<Array<Verified<Tag>>> {
+    return this.annotate(tags, (t) => this.verifyTag(t));
+  }
+
+  async annotateTransforms(transforms: Transform[]): Promise<Array<Verified<Transform>>> {
+    return this.annotate(transforms, (t) => this.verifyTransform(t));
+  }
+
+  async annotateTrustVotes(votes: TrustVote[]): Promise<Array<Verified<TrustVote>>> {
+    return this.annotate(votes, (v) => this.verifyTrustVote(v));
+  }
+}
@@ -1,6 +1,7 @@
 import type {
   Agent,
   CreateAgentRequest,
+  UpdateAgentRequest,
   Fragment,
   CreateFragmentRequest,
   SearchFragmentsRequest,
@@ -18,17 +19,134 @@ import type {
   HubStatus,
   ResourceLevel,
 } from './types.js';
+import {
+  ConflictError,
+  GatewayError,
+  HubCriticalError,
+  InvalidResponseError,
+  NetworkError,
+  RateLimitedError,
+  errorFromResponse,
+} from './errors.js';
+import {
+  LENIENT_SCHEMAS,
+  STRICT_SCHEMAS,
+  describeIssues,
+  type SchemaName,
+  type SchemaOutput,
+  type ValidationMode,
+} from './schemas.js';
+import type { RequestSigner } from '../crypto/request-signing.js';
+
+/**
+ * Timeouts, retries and circuit breaker settings
+ */
+export interface GatewayClientOptions {
+  timeoutMs: number; // Per attempt, including reading the body
+  maxRetries: number; // For GETs and POSTs keyed by entity UUID
+  retryBaseMs: number; // First backoff delay, doubled per attempt
+  breakerThreshold: number; // Consecutive failures that open the circuit
+  breakerCooldownMs: number; // How long the circuit stays open
+  criticalWriteIntervalMs: number; // Minimum spacing of writes while the hub is critical
+  validation: ValidationMode; // Response validation; lenient tolerates schema drift
+}
+
+export const DEFAULT_GATEWAY_OPTIONS: GatewayClientOptions = {
+  timeoutMs: 10_000,
+  maxRetries: 2,
+  retryBaseMs: 250,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30_000,
+  criticalWriteIntervalMs: 2_000,
+  validation: 'strict',
+};
+
+const MAX_DRIFT_ENTRIES = 20;
+
+/**
+ * Circuit breaker state reported by wisdom_whoami
+ */
+export interface CircuitState {
+  state: 'closed' | 'open' | 'half_open';
+  consecutive_failures: number;
+  opened_at?: string;
+  retry_at?: string;
+  last_error?: string;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 /**
  * HTTP client for the shared-wisdom Gateway API
  */
 export class GatewayClient {
   private baseUrl: string;
+  private options: GatewayClientOptions;
   private lastHubStatus: HubStatus | null = null;
   private lastHubStatusTime: number = 0;
 
-  constructor(baseUrl: string) {
+  // Circuit breaker
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastError: string | undefined;
+
+  // Write throttling while the hub is critical
+  private nextWriteAt = 0;
+
+  // Responses accepted in lenient mode that failed strict validation
+  private drift: string[] = [];
+
+  private signer: RequestSigner | null = null;
+
+  constructor(baseUrl: string, options: Partial<GatewayClientOptions> = {}) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
+    this.options = { ...DEFAULT_GATEWAY_OPTIONS, ...options };
+  }
+
+  /**
+   * Update timeout, retry and breaker settings
+   */
+  setOptions(options: Partial<GatewayClientOptions>): void {
+    this.options = { ...DEFAULT_GATEWAY_OPTIONS, ...options };
+  }
+
+  /**
+   * Sign every request as the configured agent
+   */
+  setRequestSigner(signer: RequestSigner | null): void {
+    this.signer = signer;
+  }
+
+  /**
+   * Current circuit breaker state
+   */
+  getCircuitState(): CircuitState {
+    const state: CircuitState = {
+      state: this.openedAt === null ? 'closed' : this.circuitRetryAt() <= Date.now() ? 'half_open' : 'open',
+      consecutive_failures: this.consecutiveFailures,
+    };
+    if (this.openedAt !== null) {
+      state.opened_at = new Date(this.openedAt).toISOString();
+      state.retry_at = new Date(this.circuitRetryAt()).toISOString();
+    }
+    if (this.lastError) {
+      state.last_error = this.lastError;
+    }
+    return state;
+  }
+
+  /**
+   * Milliseconds writes are currently delayed by because the hub is critical
+   */
+  getWriteThrottleMs(): number {
+    return this.isHubCritical() ? Math.max(0, this.nextWriteAt - Date.now()) : 0;
+  }
+
+  private circuitRetryAt(): number {
+    return (this.openedAt ?? 0) + this.options.breakerCooldownMs;
   }
 
   /**
@@ -67,14 +185,74 @@ export class GatewayClient {
   }
 
   /**
-   * Make an HTTP request to the gateway
+   * Make an HTTP request to the gateway. GETs and POSTs whose body carries an
+   * entity UUID are retried with exponential backoff; the circuit breaker
+   * fails fast while the gateway keeps failing. Each request counts as at
+   * most one breaker failure, and any answer from the gateway (including
+   * rate limiting) counts as a success.
+   */
+  private async request<K extends SchemaName>(
+    method: string,
+    path: string,
+    schema: K,
+    body?: unknown,
+    projectUUID?: string
+  ): Promise<SchemaOutput<K>> {
+    const entityUuid = (body as { uuid?: unknown } | undefined)?.uuid;
+    const retryable = method === 'GET' || (method === 'POST' && typeof entityUuid === 'string');
+    const maxAttempts = retryable ? this.options.maxRetries + 1 : 1;
+
+    if (method !== 'GET') {
+      await this.throttleWrite();
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      this.checkCircuit(method, path);
+      try {
+        const result = this.validate(method, path, schema, await this.attempt(method, path, body, projectUUID));
+        this.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!(error instanceof GatewayError) || !error.retryable) {
+          // The gateway answered; it is up even if it rejected the request
+          this.recordSuccess();
+          // A retried POST may have been stored by an attempt that timed out
+          if (attempt > 0 && method === 'POST' && error instanceof ConflictError) {
+            const existing = `${path}/${entityUuid}`;
+            return this.validate('GET', existing, schema, await this.attempt('GET', existing));
+          }
+          throw error;
+        }
+
+        // Rate limiting and critical capacity are answers: the gateway is up
+        const answered = error instanceof RateLimitedError || error instanceof HubCriticalError;
+        if (answered) {
+          this.recordSuccess();
+        }
+
+        const delay = this.options.retryBaseMs * 2 ** attempt;
+        const retryAfter = error instanceof RateLimitedError ? error.retryAfterMs ?? 0 : 0;
+        // Not worth holding the tool call open past the timeout. A failed
+        // trial reopens the circuit at once; otherwise the whole request
+        // counts as one failure.
+        if (attempt + 1 >= maxAttempts || retryAfter > this.options.timeoutMs || this.openedAt !== null) {
+          if (!answered) this.recordFailure(error.message);
+          throw error;
+        }
+        await sleep(Math.max(retryAfter, delay + Math.random() * delay * 0.25));
+      }
+    }
+  }
+
+  /**
+   * One HTTP attempt with a timeout covering the whole exchange
    */
-  private async request<T>(
+  private async attempt(
     method: string,
     path: string,
     body?: unknown,
     projectUUID?: string
-  ): Promise<T> {
+  ): Promise<unknown> {
     const url = `${this.baseUrl}${path}`;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -82,41 +260,155 @@ export class GatewayClient {
     if (projectUUID) {
       headers['X-Wisdom-Project'] = projectUUID;
     }
+    // Sign the exact bytes sent; each attempt gets a fresh timestamp and nonce
+    const payload = body ? JSON.stringify(body) : undefined;
+    if (this.signer) {
+      Object.assign(headers, await this.signer({ method, path, body: payload, project: projectUUID }));
+    }
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers,
+          body: payload,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw this.timeoutError(method, path);
+        }
+        throw new NetworkError(error instanceof Error ? error.message : String(error), { method, path });
+      }
 
-    // Extract hub status from response headers
-    this.updateHubStatusFromResponse(response);
+      // Extract hub status from response headers
+      this.updateHubStatusFromResponse(response);
 
-    if (!response.ok) {
-      const text = await response.text();
-      let message = `Gateway error: ${response.status} ${response.statusText}`;
+      let text: string;
       try {
-        const json = JSON.parse(text);
-        if (json.error) message = json.error;
-        if (json.message) message = json.message;
+        text = await response.text();
       } catch {
-        if (text) message = text;
+        throw this.timeoutError(method, path);
+      }
+
+      if (!response.ok) {
+        throw errorFromResponse(method, path, response, text);
+      }
+
+      // Empty bodies and JSON null (e.g. empty lists) are left to the schema
+      if (!text) {
+        return null;
       }
-      throw new Error(message);
+
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new InvalidResponseError(`Gateway returned invalid JSON for ${method} ${path}`, {
+          method,
+          path,
+          status: response.status,
+          body: text.slice(0, 500),
+        });
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Check a response against its endpoint schema. In lenient mode a response
+   * that only fails strict validation is accepted and recorded as drift.
+   */
+  private validate<K extends SchemaName>(method: string, path: string, schema: K, data: unknown): SchemaOutput<K> {
+    const strict = STRICT_SCHEMAS[schema].safeParse(data);
+    if (strict.success) return strict.data;
+
+    const issues = describeIssues(strict.error);
+    if (this.options.validation === 'lenient') {
+      const lenient = LENIENT_SCHEMAS[schema].safeParse(data);
+      if (lenient.success) {
+        this.recordDrift(`${method} ${path}: ${issues}`);
+        return lenient.data;
+      }
+    }
+
+    throw new InvalidResponseError(`Gateway response for ${method} ${path} does not match the expected schema: ${issues}`, {
+      method,
+      path,
+      body: data,
+    });
+  }
+
+  private recordDrift(entry: string): void {
+    this.drift = [entry, ...this.drift.filter((e) => e !== entry)].slice(0, MAX_DRIFT_ENTRIES);
+  }
+
+  /**
+   * Recent responses that only passed lenient validation, newest first
+   */
+  getSchemaDrift(): string[] {
+    return [...this.drift];
+  }
+
+  private timeoutError(method: string, path: string): NetworkError {
+    return new NetworkError(
+      `Gateway request timed out after ${this.options.timeoutMs}ms: ${method} ${path}`,
+      { method, path },
+      'timeout'
+    );
+  }
+
+  /**
+   * Fail fast while the circuit is open; after the cooldown a single trial
+   * request is let through (half-open)
+   */
+  private checkCircuit(method: string, path: string): void {
+    if (this.openedAt === null) return;
+
+    const retryAt = this.circuitRetryAt();
+    if (Date.now() < retryAt || this.trialInFlight) {
+      const seconds = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+      throw new NetworkError(
+        `Gateway circuit open after ${this.consecutiveFailures} consecutive failures (last: ${this.lastError}); ` +
+          `${method} ${path} not sent, retry in ${seconds}s`,
+        { method, path },
+        'circuit_open'
+      );
     }
+    this.trialInFlight = true;
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+    this.lastError = undefined;
+  }
 
-    // Handle empty responses
-    const text = await response.text();
-    if (!text || text === 'null') {
-      return {} as T;
+  private recordFailure(message: string): void {
+    this.consecutiveFailures++;
+    this.lastError = message;
+    if (this.trialInFlight || this.consecutiveFailures >= this.options.breakerThreshold) {
+      this.openedAt = Date.now();
     }
+    this.trialInFlight = false;
+  }
 
-    const parsed = JSON.parse(text);
-    // Handle null JSON response (gateway returns null for empty lists)
-    if (parsed === null) {
-      return {} as T;
+  /**
+   * Space out writes while the hub reports critical capacity
+   */
+  private async throttleWrite(): Promise<void> {
+    if (!this.isHubCritical()) return;
+
+    const now = Date.now();
+    const wait = Math.max(0, this.nextWriteAt - now);
+    this.nextWriteAt = Math.max(now, this.nextWriteAt) + this.options.criticalWriteIntervalMs;
+    if (wait > 0) {
+      await sleep(wait);
     }
-    return parsed as T;
   }
 
   /**
@@ -157,7 +449,7 @@ export class GatewayClient {
     }
 
     if (this.lastHubStatus.level === 'critical') {
-      warnings.push('⚠️ WARNING: Hub at critical capacity. Some operations may be restricted.');
+      warnings.push('⚠️ WARNING: Hub at critical capacity. Some operations may be restricted and writes are throttled.');
     } else if (this.lastHubStatus.level === 'warning') {
       warnings.push('⚠️ NOTICE: Hub resources are running low.');
     }
@@ -170,11 +462,15 @@ export class GatewayClient {
   // ============================================================================
 
   async createAgent(agent: CreateAgentRequest): Promise<Agent> {
-    return this.request<Agent>('POST', '/api/v1/agents', agent);
+    return this.request('POST', '/api/v1/agents', 'agent', agent);
   }
 
   async getAgent(uuid: string): Promise<Agent> {
-    return this.request<Agent>('GET', `/api/v1/agents/${uuid}`);
+    return this.request('GET', `/api/v1/agents/${uuid}`, 'agent');
+  }
+
+  async updateAgent(uuid: string, agent: UpdateAgentRequest): Promise<Agent> {
+    return this.request('PUT', `/api/v1/agents/${uuid}`, 'agent', agent);
   }
 
   async listAgents(limit = 20, cursor?: string): Promise<CursorPaginatedResponse<Agent>> {
@@ -182,15 +478,11 @@ export class GatewayClient {
     params.set('limit', String(limit));
     if (cursor) params.set('cursor', cursor);
 
-    const result = await this.request<CursorPaginatedResponse<Agent>>(
+    return this.request(
       'GET',
-      `/api/v1/agents?${params.toString()}`
+      `/api/v1/agents?${params.toString()}`,
+      'agents'
     );
-
-    return {
-      items: result.items || [],
-      next_cursor: result.next_cursor,
-    };
   }
 
   // ============================================================================
@@ -198,11 +490,11 @@ export class GatewayClient {
   // ============================================================================
 
   async createFragment(fragment: CreateFragmentRequest, projectUUID?: string): Promise<Fragment> {
-    return this.request<Fragment>('POST', '/api/v1/fragments', fragment, projectUUID);
+    return this.request('POST', '/api/v1/fragments', 'fragment', fragment, projectUUID);
   }
 
   async getFragment(uuid: string): Promise<Fragment> {
-    return this.request<Fragment>('GET', `/api/v1/fragments/${uuid}`);
+    return this.request('GET', `/api/v1/fragments/${uuid}`, 'fragment');
   }
 
   async searchFragments(
@@ -220,15 +512,11 @@ export class GatewayClient {
       }
     }
 
-    const result = await this.request<CursorPaginatedResponse<Fragment>>(
+    return this.request(
       'GET',
-      `/api/v1/fragments?${queryParams.toString()}`
+      `/api/v1/fragments?${queryParams.toString()}`,
+      'fragments'
     );
-
-    return {
-      items: result.items || [],
-      next_cursor: result.next_cursor,
-    };
   }
 
   async listFragments(
@@ -239,15 +527,11 @@ export class GatewayClient {
     params.set('limit', String(limit));
     if (cursor) params.set('cursor', cursor);
 
-    const result = await this.request<CursorPaginatedResponse<Fragment>>(
+    return this.request(
       'GET',
-      `/api/v1/fragments?${params.toString()}`
+      `/api/v1/fragments?${params.toString()}`,
+      'fragments'
     );
-
-    return {
-      items: result.items || [],
-      next_cursor: result.next_cursor,
-    };
   }
 
   // ============================================================================
@@ -255,21 +539,30 @@ export class GatewayClient {
   // ============================================================================
 
   async createRelation(relation: CreateRelationRequest, projectUUID?: string): Promise<Relation> {
-    return this.request<Relation>('POST', '/api/v1/relations', relation, projectUUID);
+    return this.request('POST', '/api/v1/relations', 'relation', relation, projectUUID);
   }
 
   async getRelation(uuid: string): Promise<Relation> {
-    return this.request<Relation>('GET', `/api/v1/relations/${uuid}`);
+    return this.request('GET', `/api/v1/relations/${uuid}`, 'relation');
   }
 
   async getRelationsForEntity(
     entityUuid: string,
-    direction?: 'source' | 'target' | 'both'
-  ): Promise<Relation[]> {
+    direction?: 'source' | 'target' | 'both',
+    limit = 100,
+    cursor?: string
+  ): Promise<CursorPaginatedResponse<Relation>> {
     const params = new URLSearchParams();
     params.set('entity', entityUuid);
     if (direction) params.set('direction', direction);
-    return this.request<Relation[]>('GET', `/api/v1/relations?${params.toString()}`);
+    params.set('limit', String(limit));
+    if (cursor) params.set('cursor', cursor);
+
+    return this.request(
+      'GET',
+      `/api/v1/relations?${params.toString()}`,
+      'relations'
+    );
   }
 
   async listRelations(
@@ -280,15 +573,11 @@ export class GatewayClient {
     params.set('limit', String(limit));
     if (cursor) params.set('cursor', cursor);
 
-    const result = await this.request<CursorPaginatedResponse<Relation>>(
+    return this.request(
       'GET',
-      `/api/v1/relations?${params.toString()}`
+      `/api/v1/relations?${params.toString()}`,
+      'relations'
     );
-
-    return {
-      items: result.items || [],
-      next_cursor: result.next_cursor,
-    };
   }
 
   // ============================================================================
@@ -296,20 +585,16 @@ export class GatewayClient {
   // ============================================================================
 
   async createTag(tag: CreateTagRequest): Promise<Tag> {
-    return this.request<Tag>('POST', '/api/v1/tags', tag);
+    return this.request('POST', '/api/v1/tags', 'tag', tag);
   }
 
   async getTag(uuid: string): Promise<Tag> {
-    return this.request<Tag>('GET', `/api/v1/tags/${uuid}`);
+    return this.request('GET', `/api/v1/tags/${uuid}`, 'tag');
   }
 
   async getTagByName(name: string): Promise<Tag | null> {
-    try {
-      const tags = await this.listTags();
-      return tags.items.find((t) => t.name === name) || null;
-    } catch {
-      return null;
-    }
+    const tags = await this.listTags();
+    return tags.items.find((t) => t.name === name) || null;
   }
 
   async listTags(
@@ -322,15 +607,11 @@ export class GatewayClient {
     if (cursor) params.set('cursor', cursor);
     if (category) params.set('category', category);
 
-    const result = await this.request<CursorPaginatedResponse<Tag>>(
+    return this.request(
       'GET',
-      `/api/v1/tags?${params.toString()}`
+      `/api/v1/tags?${params.toString()}`,
+      'tags'
     );
-
-    return {
-      items: result.items || [],
-      next_cursor: result.next_cursor,
-    };
   }
 
   // ============================================================================
@@ -338,11 +619,11 @@ export class GatewayClient {
   // ============================================================================
 
   async createTransform(transform: CreateTransformRequest, projectUUID?: string): Promise<Transform> {
-    return this.request<Transform>('POST', '/api/v1/transforms', transform, projectUUID);
+    return this.request('POST', '/api/v1/transforms', 'transform', transform, projectUUID);
   }
 
   async getTransform(uuid: string): Promise<Transform> {
-    return this.request<Transform>('GET', `/api/v1/transforms/${uuid}`);
+    return this.request('GET', `/api/v1/transforms/${uuid}`, 'transform');
   }
 
   async listTransforms(
@@ -355,15 +636,11 @@ export class GatewayClient {
     if (cursor) params.set('cursor', cursor);
     if (domain) params.set('domain', domain);
 
-    const result = await this.request<CursorPaginatedResponse<Transform>>(
+    return this.request(
       'GET',
-      `/api/v1/transforms?${params.toString()}`
+      `/api/v1/transforms?${params.toString()}`,
+      'transforms'
     );
-
-    return {
-      items: result.items || [],
-      next_cursor: result.next_cursor,
-    };
   }
 
   // ============================================================================
@@ -371,11 +648,11 @@ export class GatewayClient {
   // ============================================================================
 
   async createProject(project: CreateProjectRequest): Promise<Project> {
-    return this.request<Project>('POST', '/api/v1/projects', project);
+    return this.request('POST', '/api/v1/projects', 'project', project);
   }
 
   async getProject(uuid: string): Promise<Project> {
-    return this.request<Project>('GET', `/api/v1/projects/${uuid}`);
+    return this.request('GET', `/api/v1/projects/${uuid}`, 'project');
   }
 
   async listProjects(
@@ -388,22 +665,18 @@ export class GatewayClient {
     if (cursor) params.set('cursor', cursor);
     if (agentUuid) params.set('agent_uuid', agentUuid);
 
-    const result = await this.request<CursorPaginatedResponse<Project>>(
+    return this.request(
       'GET',
-      `/api/v1/projects?${params.toString()}`
+      `/api/v1/projects?${params.toString()}`,
+      'projects'
     );
-
-    return {
-      items: result.items || [],
-      next_cursor: result.next_cursor,
-    };
   }
 
   async updateProject(
     uuid: string,
     updates: Partial<CreateProjectRequest>
   ): Promise<Project> {
-    return this.request<Project>('PUT', `/api/v1/projects/${uuid}`, updates);
+    return this.request('PUT', `/api/v1/projects/${uuid}`, 'project', updates);
   }
 
   // ============================================================================
@@ -411,11 +684,11 @@ export class GatewayClient {
   // ============================================================================
 
   async createTrustVote(vote: CreateTrustVoteRequest): Promise<TrustVote> {
-    return this.request<TrustVote>('POST', '/api/v1/votes', vote);
+    return this.request('POST', '/api/v1/votes', 'trustVote', vote);
   }
 
   async getVotesForTarget(targetUuid: string): Promise<TrustVote[]> {
-    return this.request<TrustVote[]>('GET', `/api/v1/votes?target=${targetUuid}`);
+    return this.request('GET', `/api/v1/votes?target=${targetUuid}`, 'trustVotes');
   }
 
   // ============================================================================
@@ -423,7 +696,7 @@ export class GatewayClient {
   // ============================================================================
 
   async healthCheck(): Promise<{ status: string }> {
-    return this.request<{ status: string }>('GET', '/health');
+    return this.request('GET', '/health', 'health');
   }
 
   /**
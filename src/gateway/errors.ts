@@ -0,0 +1,209 @@
+/**
+ * Machine-readable error codes surfaced to agents
+ */
+export type GatewayErrorCode =
+  | 'not_found'
+  | 'conflict'
+  | 'unauthorized'
+  | 'rate_limited'
+  | 'hub_critical'
+  | 'network'
+  | 'invalid_response'
+  | 'bad_request'
+  | 'server_error';
+
+export interface GatewayErrorDetails {
+  method: string;
+  path: string;
+  status?: number;
+  body?: unknown; // Parsed JSON error body, or the raw text
+}
+
+/**
+ * A failed gateway request. Subclasses identify the failures callers act on;
+ * other 4xx and 5xx responses use this class with code bad_request or
+ * server_error.
+ */
+export class GatewayError extends Error {
+  readonly code: GatewayErrorCode;
+  readonly method: string;
+  readonly path: string;
+  readonly status?: number;
+  readonly body?: unknown;
+
+  constructor(message: string, code: GatewayErrorCode, details: GatewayErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.method = details.method;
+    this.path = details.path;
+    this.status = details.status;
+    this.body = details.body;
+  }
+
+  /**
+   * Whether the same request may succeed if sent again
+   */
+  get retryable(): boolean {
+    return this.code === 'server_error';
+  }
+
+  /**
+   * JSON form for tool error responses
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      message: this.message,
+      method: this.method,
+      path: this.path,
+      retryable: this.retryable,
+      ...(this.status !== undefined && { status: this.status }),
+      ...(this.body !== undefined && { gateway_body: this.body }),
+    };
+  }
+}
+
+export class NotFoundError extends GatewayError {
+  constructor(message: string, details: GatewayErrorDetails) {
+    super(message, 'not_found', details);
+  }
+}
+
+export class ConflictError extends GatewayError {
+  constructor(message: string, details: GatewayErrorDetails) {
+    super(message, 'conflict', details);
+  }
+}
+
+/**
+ * 401/403: missing agent, bad signature or insufficient trust
+ */
+export class UnauthorizedError extends GatewayError {
+  constructor(message: string, details: GatewayErrorDetails) {
+    super(message, 'unauthorized', details);
+  }
+}
+
+export class RateLimitedError extends GatewayError {
+  constructor(
+    message: string,
+    details: GatewayErrorDetails,
+    readonly retryAfterMs?: number
+  ) {
+    super(message, 'rate_limited', details);
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      ...super.toJSON(),
+      ...(this.retryAfterMs !== undefined && { retry_after_ms: this.retryAfterMs }),
+    };
+  }
+}
+
+/**
+ * The hub refused the request because it is at critical capacity
+ */
+export class HubCriticalError extends GatewayError {
+  constructor(message: string, details: GatewayErrorDetails) {
+    super(message, 'hub_critical', details);
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * No response: connection failure, timeout, or the circuit breaker is open
+ */
+export class NetworkError extends GatewayError {
+  constructor(
+    message: string,
+    details: GatewayErrorDetails,
+    readonly reason: 'connection' | 'timeout' | 'circuit_open' = 'connection'
+  ) {
+    super(message, 'network', details);
+  }
+
+  /**
+   * An open circuit is not retried; the breaker decides when to try again
+   */
+  get retryable(): boolean {
+    return this.reason !== 'circuit_open';
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { ...super.toJSON(), reason: this.reason };
+  }
+}
+
+/**
+ * A successful status with a body that is not valid JSON or does not match
+ * the endpoint's response schema
+ */
+export class InvalidResponseError extends GatewayError {
+  constructor(message: string, details: GatewayErrorDetails) {
+    super(message, 'invalid_response', details);
+  }
+}
+
+/**
+ * Build the error for a non-2xx gateway response
+ */
+export function errorFromResponse(
+  method: string,
+  path: string,
+  response: Pick<Response, 'status' | 'statusText' | 'headers'>,
+  text: string
+): GatewayError {
+  let body: unknown = text || undefined;
+  let message = `Gateway error: ${response.status} ${response.statusText}`;
+  try {
+    const json = JSON.parse(text);
+    body = json;
+    if (json.error) message = json.error;
+    if (json.message) message = json.message;
+  } catch {
+    if (text) message = text;
+  }
+
+  const details: GatewayErrorDetails = { method, path, status: response.status, body };
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new UnauthorizedError(message, details);
+    case 404:
+      return new NotFoundError(message, details);
+    case 409:
+      return new ConflictError(message, details);
+    case 429:
+      return new RateLimitedError(message, details, parseRetryAfter(response.headers.get('Retry-After')));
+    case 507:
+      return new HubCriticalError(message, details);
+  }
+  if (response.status === 503 && response.headers.get('X-Hub-Status') === 'critical') {
+    return new HubCriticalError(message, details);
+  }
+  return new GatewayError(message, response.status >= 500 ? 'server_error' : 'bad_request', details);
+}
+
+/**
+ * Retry-After in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function isNotFound(error: unknown): error is NotFoundError {
+  return error instanceof NotFoundError;
+}
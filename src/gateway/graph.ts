@@ -0,0 +1,220 @@
+/**
+ * Relation graph helpers on top of the gateway API
+ */
+
+import type { GatewayClient } from './client.js';
+import type { SignatureVerifier } from '../crypto/verification.js';
+import type { Relation, RelationType } from './types.js';
+
+/**
+ * Page size used when collecting relations
+ */
+const RELATION_PAGE_SIZE = 100;
+
+/**
+ * Upper bound on pages fetched for a single entity
+ */
+const MAX_RELATION_PAGES = 50;
+
+/**
+ * Relations collected across pages
+ */
+export interface RelationCollection {
+  relations: Relation[];
+  truncated: boolean; // True when the page limit was hit with pages left
+}
+
+/**
+ * Get every relation touching an entity by following next_cursor.
+ * Stops early if the gateway repeats a cursor.
+ */
+export async function getAllRelationsForEntity(
+  gateway: GatewayClient,
+  entityUuid: string,
+  direction: 'source' | 'target' | 'both' = 'both',
+  maxPages = MAX_RELATION_PAGES
+): Promise<RelationCollection> {
+  const relations: Relation[] = [];
+  const seenCursors = new Set<string>();
+  let cursor: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const result = await gateway.getRelationsForEntity(entityUuid, direction, RELATION_PAGE_SIZE, cursor);
+    relations.push(...(Array.isArray(result.items) ? result.items : []));
+
+    cursor = result.next_cursor;
+    if (!cursor || seenCursors.has(cursor)) return { relations, truncated: false };
+    seenCursors.add(cursor);
+  }
+
+  return { relations, truncated: true };
+}
+
+/**
+ * Get relations of one type touching an entity
+ */
+export async function getRelationsOfType(
+  gateway: GatewayClient,
+  entityUuid: string,
+  type: RelationType
+): Promise<Relation[]> {
+  const { relations } = await getAllRelationsForEntity(gateway, entityUuid, 'both');
+  return relations.filter((r) => r.type === type);
+}
+
+/**
+ * Direct version links of a fragment along SUPERSEDES relations
+ */
+export interface VersionLinks {
+  successors: string[]; // Newer fragments superseding this one
+  predecessors: string[]; // Older fragments this one supersedes
+}
+
+/**
+ * Decides whether a relation is honoured
+ */
+export type RelationFilter = (relation: Relation) => Promise<boolean>;
+
+/**
+ * Decides whether a SUPERSEDES relation is honoured
+ */
+export type SupersedesFilter = RelationFilter;
+
+/**
+ * Honour only relations created by the creator of the fragment at one end
+ * with a valid signature
+ */
+function creatorSignedRelations(
+  gateway: GatewayClient,
+  verifier: SignatureVerifier,
+  end: 'from' | 'to'
+): RelationFilter {
+  const creators = new Map<string, Promise<string | null>>();
+  const creatorOf = (fragmentUuid: string): Promise<string | null> => {
+    let creator = creators.get(fragmentUuid);
+    if (!creator) {
+      creator = gateway
+        .getFragment(fragmentUuid)
+        .then((f) => f.creator?.entity || null)
+        .catch(() => null);
+      creators.set(fragmentUuid, creator);
+    }
+    return creator;
+  };
+
+  return async (relation) => {
+    const relationCreator = relation.creator?.entity;
+    if (!relationCreator || relationCreator !== (await creatorOf(relation[end].entity))) {
+      return false;
+    }
+    return (await verifier.verifyRelation(relation)) === true;
+  };
+}
+
+/**
+ * Honour only SUPERSEDES relations created by the superseded fragment's
+ * creator with a valid signature. Any agent can create relations, so others
+ * must not be able to hide or replace a fragment.
+ */
+export function creatorSignedSupersedes(gateway: GatewayClient, verifier: SignatureVerifier): SupersedesFilter {
+  return creatorSignedRelations(gateway, verifier, 'to');
+}
+
+/**
+ * Honour only DERIVED_FROM relations created by the derived fragment's
+ * creator with a valid signature, so others cannot graft premises onto it.
+ */
+export function creatorSignedDerivations(gateway: GatewayClient, verifier: SignatureVerifier): RelationFilter {
+  return creatorSignedRelations(gateway, verifier, 'from');
+}
+
+/**
+ * Get the direct SUPERSEDES neighbours of a fragment. Without a filter every
+ * SUPERSEDES relation counts.
+ */
+export async function getVersionLinks(
+  gateway: GatewayClient,
+  fragmentUuid: string,
+  filter?: SupersedesFilter
+): Promise<VersionLinks> {
+  let relations = await getRelationsOfType(gateway, fragmentUuid, 'SUPERSEDES');
+  if (filter) {
+    const honoured = await Promise.all(relations.map(filter));
+    relations = relations.filter((_, i) => honoured[i]);
+  }
+  return {
+    successors: relations.filter((r) => r.to.entity === fragmentUuid).map((r) => r.from.entity),
+    predecessors: relations.filter((r) => r.from.entity === fragmentUuid).map((r) => r.to.entity),
+  };
+}
+
+/**
+ * Version history of a fragment along SUPERSEDES relations
+ */
+export interface FragmentHistory {
+  /** Fragment UUIDs ordered oldest to newest along the main line */
+  chain: string[];
+  /** Newest version reachable from the fragment */
+  latest: string;
+  /** Fragments with more than one successor or predecessor */
+  branches: Array<{ fragment: string } & VersionLinks>;
+  /** Whether max depth was hit before the chain ended */
+  truncated: boolean;
+}
+
+/**
+ * Walk the SUPERSEDES chain in both directions from a fragment.
+ * Where the chain forks, the first relation returned by the gateway is followed
+ * and the fork is reported in `branches`.
+ */
+export async function getFragmentHistory(
+  gateway: GatewayClient,
+  fragmentUuid: string,
+  maxDepth = 20,
+  filter?: SupersedesFilter
+): Promise<FragmentHistory> {
+  const branches: FragmentHistory['branches'] = [];
+  const visited = new Set<string>([fragmentUuid]);
+  const links = new Map<string, VersionLinks>();
+  let truncated = false;
+
+  const linksOf = async (uuid: string): Promise<VersionLinks> => {
+    let result = links.get(uuid);
+    if (!result) {
+      result = await getVersionLinks(gateway, uuid, filter);
+      links.set(uuid, result);
+      if (result.successors.length > 1 || result.predecessors.length > 1) {
+        branches.push({ fragment: uuid, ...result });
+      }
+    }
+    return result;
+  };
+
+  const walk = async (direction: keyof VersionLinks): Promise<string[]> => {
+    const found: string[] = [];
+    let current = fragmentUuid;
+    for (;;) {
+      const next = (await linksOf(current))[direction].find((u) => !visited.has(u));
+      if (!next) break;
+      if (found.length >= maxDepth) {
+        truncated = true;
+        break;
+      }
+      visited.add(next);
+      found.push(next);
+      current = next;
+    }
+    return found;
+  };
+
+  const older = await walk('predecessors');
+  const newer = await walk('successors');
+  const chain = [...older.reverse(), fragmentUuid, ...newer];
+
+  return {
+    chain,
+    latest: chain[chain.length - 1],
+    branches,
+    truncated,
+  };
+}
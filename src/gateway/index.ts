@@ -1,2 +1,5 @@
 export * from './client.js';
 export * from './types.js';
+export * from './graph.js';
+export * from './errors.js';
+export * from './schemas.js';
@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import {
+  AddressDomains,
+  EvidenceTypes,
+  FragmentStates,
+  ProjectVisibilities,
+  RelationTypes,
+  TagCategories,
+  VoteTypes,
+} from './types.js';
+import type {
+  Address,
+  Agent,
+  AgentProfile,
+  Fragment,
+  Project,
+  Relation,
+  Tag,
+  Transform,
+  TrustStore,
+  TrustSummary,
+  TrustVote,
+  CursorPaginatedResponse,
+} from './types.js';
+
+/**
+ * How gateway responses are validated. Strict rejects any response that does
+ * not match the types in types.ts; lenient only requires entity UUIDs and
+ * falls back to defaults for drifted fields.
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * A response schema for one endpoint
+ */
+export type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+function buildSchemas(lenient: boolean) {
+  // In lenient mode a field that fails validation takes its fallback.
+  // Enums without a fallback reject unknown values in both modes.
+  const soft = <T extends z.ZodTypeAny>(schema: T, fallback: z.output<T>) =>
+    lenient ? schema.catch(fallback) : schema;
+  // Go encodes empty slices as null
+  const list = <T extends z.ZodTypeAny>(item: T) =>
+    soft(z.array(item).nullish(), []).transform((items) => items ?? []);
+  // Go encodes missing structs as null
+  const optional = <T extends z.ZodTypeAny>(schema: T) =>
+    soft(schema.nullish(), undefined).transform((value) => value ?? undefined);
+
+  const emptyAddress: Address = { server_port: '', domain: 'AGENT', entity: '' };
+  const address: ResponseSchema<Address> = z
+    .object({
+      server_port: soft(z.string(), ''),
+      domain: z.enum(AddressDomains),
+      entity: z.string(),
+    })
+    .passthrough();
+  const addressField = soft(address, emptyAddress);
+
+  const trustStore: ResponseSchema<TrustStore> = z
+    .object({
+      num_trusts: soft(z.number(), 0),
+      trusts: list(z.object({ agent: address, trust: z.number() }).passthrough()),
+    })
+    .passthrough();
+
+  const profile: ResponseSchema<AgentProfile> = z
+    .object({
+      specializations: soft(z.record(z.number()), {}),
+      known_biases: list(
+        z.object({ domain: z.string(), description: z.string(), severity: z.number() }).passthrough()
+      ),
+      avg_confidence: soft(z.number(), 0),
+      fragment_count: soft(z.number(), 0),
+      historical_accuracy: soft(z.number(), 0),
+    })
+    .passthrough();
+
+  const agent: ResponseSchema<Agent> = z
+    .object({
+      uuid: z.string(),
+      public_key: soft(z.string(), ''),
+      version: soft(z.number().optional(), undefined),
+      description: soft(z.string().default(''), ''),
+      trust: optional(trustStore),
+      primary_hub: optional(z.string()),
+      signature: soft(z.string(), ''),
+      profile: optional(profile),
+    })
+    .passthrough();
+
+  const trustSummary: ResponseSchema<TrustSummary> = z
+    .object({
+      score: z.number(),
+      votes_count: z.number(),
+      verifications: z.number(),
+      contestations: z.number(),
+    })
+    .passthrough();
+
+  const fragment: ResponseSchema<Fragment> = z
+    .object({
+      uuid: z.string(),
+      content: soft(z.string(), ''),
+      content_hash: soft(z.string().optional(), undefined),
+      tags: list(address),
+      transform: optional(address),
+      creator: addressField,
+      version: soft(z.number(), 0),
+      when: soft(z.string(), ''),
+      signature: soft(z.string(), ''),
+      confidence: soft(z.number().optional(), undefined),
+      evidence_type: soft(z.enum(EvidenceTypes).optional(), 'unknown'),
+      created_at: soft(z.string().optional(), undefined),
+      updated_at: soft(z.string().optional(), undefined),
+      trust_summary: optional(trustSummary),
+      state: soft(z.enum(FragmentStates).optional(), undefined),
+    })
+    .passthrough();
+
+  const relation: ResponseSchema<Relation> = z
+    .object({
+      uuid: z.string(),
+      from: addressField,
+      to: addressField,
+      by: addressField,
+      type: z.enum(RelationTypes),
+      content: optional(z.string()),
+      creator: addressField,
+      version: soft(z.number(), 0),
+      when: soft(z.string(), ''),
+      signature: soft(z.string(), ''),
+      confidence: soft(z.number().optional(), undefined),
+      created_at: soft(z.string().optional(), undefined),
+    })
+    .passthrough();
+
+  const tag: ResponseSchema<Tag> = z
+    .object({
+      uuid: z.string(),
+      name: z.string(),
+      content: soft(z.string(), ''),
+      category: z.enum(TagCategories),
+      creator: addressField,
+      version: soft(z.number(), 0),
+      signature: soft(z.string(), ''),
+      created_at: soft(z.string().optional(), undefined),
+    })
+    .passthrough();
+
+  const transform: ResponseSchema<Transform> = z
+    .object({
+      uuid: z.string(),
+      name: soft(z.string(), ''),
+      description: soft(z.string(), ''),
+      tags: list(address),
+      transform_to: soft(z.string(), 'text/plain'),
+      transform_from: soft(z.string(), 'text/plain'),
+      additional_data: optional(z.string()),
+      agent: addressField,
+      version: soft(z.number(), 0),
+      signature: soft(z.string(), ''),
+      created_at: soft(z.string().optional(), undefined),
+    })
+    .passthrough();
+
+  const project: ResponseSchema<Project> = z
+    .object({
+      id: z.string(),
+      name: soft(z.string(), ''),
+      description: soft(z.string(), ''),
+      agent_uuid: soft(z.string(), ''),
+      tags: list(z.string()),
+      visibility: soft(z.enum(ProjectVisibilities), 'public'),
+      created_at: soft(z.string(), ''),
+      updated_at: soft(z.string(), ''),
+    })
+    .passthrough();
+
+  const trustVote: ResponseSchema<TrustVote> = z
+    .object({
+      uuid: z.string(),
+      voter: z.string(),
+      target: z.string(),
+      vote_type: z.enum(VoteTypes),
+      comment: optional(z.string()),
+      created_at: soft(z.string(), ''),
+      signature: soft(z.string(), ''),
+    })
+    .passthrough();
+
+  // An empty page may arrive as null
+  const page = <T>(item: ResponseSchema<T>): ResponseSchema<CursorPaginatedResponse<T>> =>
+    z.preprocess(
+      (value) => value ?? {},
+      z
+        .object({
+          items: list(item),
+          next_cursor: optional(z.string()).transform((cursor) => cursor || undefined),
+        })
+        .passthrough()
+    );
+
+  // Older gateways return a bare array without pagination
+  const relations: ResponseSchema<CursorPaginatedResponse<Relation>> = z.union([
+    page(relation),
+    z.array(relation).transform((items) => ({ items })),
+  ]);
+  const trustVotes: ResponseSchema<TrustVote[]> = list(trustVote);
+  const health: ResponseSchema<{ status: string }> = z.object({ status: soft(z.string(), 'ok') }).passthrough();
+
+  return {
+    agent,
+    agents: page(agent),
+    fragment,
+    fragments: page(fragment),
+    relation,
+    relations,
+    tag,
+    tags: page(tag),
+    transform,
+    transforms: page(transform),
+    project,
+    projects: page(project),
+    trustVote,
+    trustVotes,
+    health,
+  };
+}
+
+export type GatewaySchemas = ReturnType<typeof buildSchemas>;
+export type SchemaName = keyof GatewaySchemas;
+export type SchemaOutput<K extends SchemaName> = z.output<GatewaySchemas[K]>;
+
+export const STRICT_SCHEMAS = buildSchemas(false);
+export const LENIENT_SCHEMAS = buildSchemas(true);
+
+/**
+ * Short description of validation issues, e.g. "creator: Required"
+ */
+export function describeIssues(error: z.ZodError, limit = 5): string {
+  const issues = error.issues.slice(0, limit).map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  if (error.issues.length > limit) {
+    issues.push(`${error.issues.length - limit} more`);
+  }
+  return issues.join('; ');
+}
@@ -9,7 +9,8 @@
 /**
  * Address domain types for entity references
  */
-export type AddressDomain = 'AGENT' | 'TAG' | 'FRAGMENT' | 'RELATION' | 'TRANSFORMATION' | 'HUB';
+export const AddressDomains = ['AGENT', 'TAG', 'FRAGMENT', 'RELATION', 'TRANSFORMATION', 'HUB'] as const;
+export type AddressDomain = (typeof AddressDomains)[number];
 
 /**
  * Address is a federated identifier for any entity in the network.
@@ -139,12 +140,12 @@ export interface AgentProfile {
 export interface Agent {
   uuid: string;
   public_key: string; // Base64-encoded Ed25519 public key
-  version: number;
+  version?: number;
   description: string;
-  trust: TrustStore;
-  primary_hub: string; // Plain string, not Address
+  trust?: TrustStore;
+  primary_hub?: string; // Plain string, not Address
   signature: string;
-  profile: AgentProfile; // Agent's expertise profile
+  profile?: AgentProfile; // Agent's expertise profile
 }
 
 export interface CreateAgentRequest {
@@ -157,34 +158,45 @@ export interface CreateAgentRequest {
   profile?: AgentProfile;
 }
 
+/**
+ * Request to replace an agent record (e.g. after a trust store change).
+ * The version must be greater than the stored version.
+ */
+export interface UpdateAgentRequest extends CreateAgentRequest {
+  version: number;
+}
+
 // ============================================================================
 // Fragment
 // ============================================================================
 
-export type FragmentState = 'proposed' | 'verified' | 'contested';
+export const FragmentStates = ['proposed', 'verified', 'contested'] as const;
+export type FragmentState = (typeof FragmentStates)[number];
 
 /**
- * Evidence type indicating how a fragment's content was derived
+ * Evidence types indicating how a fragment's content was derived
  */
-export type EvidenceType =
-  | 'empirical'   // Observed or tested
-  | 'logical'     // Logically derived
-  | 'consensus'   // Agreed upon by multiple sources
-  | 'speculation' // Hypothetical
-  | 'unknown';    // Not specified (default)
+export const EvidenceTypes = [
+  'empirical',   // Observed or tested
+  'logical',     // Logically derived
+  'consensus',   // Agreed upon by multiple sources
+  'speculation', // Hypothetical
+  'unknown',     // Not specified (default)
+] as const;
+export type EvidenceType = (typeof EvidenceTypes)[number];
 
 export interface Fragment {
   uuid: string;
   content: string;
   content_hash?: string; // SHA-256 hash of content
   tags: Address[]; // References to Tag entities
-  transform: Address; // Reference to Transform entity
+  transform?: Address; // Reference to Transform entity
   creator: Address; // Agent who created this fragment
   version: number; // Incremented on updates
   when: string; // Content timestamp (ISO format)
   signature: string;
-  confidence: number; // Creator's confidence (0.0 to 1.0)
-  evidence_type: EvidenceType; // How the content was derived
+  confidence?: number; // Creator's confidence (0.0 to 1.0)
+  evidence_type?: EvidenceType; // How the content was derived
   created_at?: string; // Database creation timestamp
   updated_at?: string; // Database update timestamp
   // Computed/optional fields from gateway
@@ -232,21 +244,23 @@ export interface SearchFragmentsRequest {
  * Relation types - matching wisdom-hub enum.
  * Note: Fragment typing (QUESTION, HYPOTHESE, etc.) now uses TYPE tags instead.
  */
-export type RelationType =
+export const RelationTypes = [
   // Trust
-  | 'TRUST'
+  'TRUST',
   // Content relationships
-  | 'SUPPORTS'
-  | 'CONTRADICTS'
-  | 'EXTENDS'
-  | 'SUPERSEDES'
-  | 'DERIVED_FROM'
-  | 'RELATED_TO'
-  | 'EXAMPLE_OF'
+  'SUPPORTS',
+  'CONTRADICTS',
+  'EXTENDS',
+  'SUPERSEDES',
+  'DERIVED_FROM',
+  'RELATED_TO',
+  'EXAMPLE_OF',
   // Refinement relations
-  | 'SPECIALIZES'
-  | 'CLARIFIES'
-  | 'GENERALIZES';
+  'SPECIALIZES',
+  'CLARIFIES',
+  'GENERALIZES',
+] as const;
+export type RelationType = (typeof RelationTypes)[number];
 
 export interface Relation {
   uuid: string;
@@ -259,7 +273,7 @@ export interface Relation {
   version: number; // Incremented on updates
   when: string; // Creation timestamp
   signature: string;
-  confidence: number; // Strength of relationship (0.0 to 1.0)
+  confidence?: number; // Strength of relationship (0.0 to 1.0)
   created_at?: string; // Database creation timestamp
 }
 
@@ -283,18 +297,20 @@ export interface CreateRelationRequest {
 /**
  * Tag categories - matching wisdom-hub enum
  */
-export type TagCategory =
-  | 'PLATFORM'
-  | 'LANGUAGE'
-  | 'FRAMEWORK'
-  | 'LIBRARY'
-  | 'VERSION'
-  | 'DOMAIN'
-  | 'TYPE'
-  | 'ENVIRONMENT'
-  | 'ARCHITECTURE'
-  | 'COUNTRY'
-  | 'FIELD';
+export const TagCategories = [
+  'PLATFORM',
+  'LANGUAGE',
+  'FRAMEWORK',
+  'LIBRARY',
+  'VERSION',
+  'DOMAIN',
+  'TYPE',
+  'ENVIRONMENT',
+  'ARCHITECTURE',
+  'COUNTRY',
+  'FIELD',
+] as const;
+export type TagCategory = (typeof TagCategories)[number];
 
 export interface Tag {
   uuid: string;
@@ -350,7 +366,8 @@ export interface CreateTransformRequest {
 // Project (Gateway-only, not federated)
 // ============================================================================
 
-export type ProjectVisibility = 'public' | 'private';
+export const ProjectVisibilities = ['public', 'private'] as const;
+export type ProjectVisibility = (typeof ProjectVisibilities)[number];
 
 export interface Project {
   id: string;
@@ -375,14 +392,15 @@ export interface CreateProjectRequest {
 // Trust Vote
 // ============================================================================
 
-export type VoteType = 'verify' | 'contest' | 'retract';
+export const VoteTypes = ['verify', 'contest', 'retract'] as const;
+export type VoteType = (typeof VoteTypes)[number];
 
 export interface TrustVote {
   uuid: string;
   voter: string; // Agent UUID
   target: string; // Fragment UUID (or other entity)
   vote_type: VoteType;
-  comment: string;
+  comment?: string;
   created_at: string;
   signature: string;
 }
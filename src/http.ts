@@ -0,0 +1,222 @@
+import { randomUUID } from 'node:crypto';
+import express, { type Request, type Response } from 'express';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ServerConfig } from './config/schema.js';
+import { createServer } from './server.js';
+
+/**
+ * HTTP endpoints exposed in --http mode
+ */
+export const HTTP_ENDPOINTS = {
+  mcp: '/mcp',
+  sse: '/sse',
+  messages: '/messages',
+  health: '/health',
+} as const;
+
+/**
+ * A connected MCP session. Every session owns its own Server instance and
+ * therefore its own ServerContext (config, gateway client, address cache);
+ * the project state and search index are shared per process.
+ */
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  kind: 'streamable' | 'sse';
+  createdAt: number;
+}
+
+/**
+ * Send a JSON-RPC error response without a request id
+ */
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
+
+/**
+ * Create the express app serving MCP over Streamable HTTP with an SSE fallback
+ */
+export function createHttpApp(): { app: express.Express; sessions: Map<string, HttpSession> } {
+  const app = express();
+  app.use(express.json({ limit: '4mb' }));
+
+  const sessions = new Map<string, HttpSession>();
+
+  function getSessionId(req: Request): string | undefined {
+    const header = req.headers['mcp-session-id'];
+    return Array.isArray(header) ? header[0] : header;
+  }
+
+  // ==========================================================================
+  // Streamable HTTP transport (MCP 2025-03-26)
+  // ==========================================================================
+
+  app.post(HTTP_ENDPOINTS.mcp, async (req, res) => {
+    const sessionId = getSessionId(req);
+
+    try {
+      if (sessionId) {
+        const session = sessions.get(sessionId);
+        if (!session || session.kind !== 'streamable') {
+          sendJsonRpcError(res, 404, -32001, `Session not found: ${sessionId}`);
+          return;
+        }
+        const transport = session.transport as StreamableHTTPServerTransport;
+        await transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      // New session: isolated server + context
+      const server = await createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { server, transport, kind: 'streamable', createdAt: Date.now() });
+        },
+      });
+
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  // GET opens the server-to-client notification stream, DELETE ends the session
+  const handleSessionRequest = async (req: Request, res: Response): Promise<void> => {
+    const sessionId = getSessionId(req);
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== 'streamable') {
+      res.status(400).send('Invalid or missing session ID');
+      return;
+    }
+    try {
+      const transport = session.transport as StreamableHTTPServerTransport;
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error('Error handling MCP session request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  };
+
+  app.get(HTTP_ENDPOINTS.mcp, handleSessionRequest);
+  app.delete(HTTP_ENDPOINTS.mcp, handleSessionRequest);
+
+  // ==========================================================================
+  // Deprecated HTTP+SSE transport (MCP 2024-11-05) for older clients
+  // ==========================================================================
+
+  app.get(HTTP_ENDPOINTS.sse, async (_req, res) => {
+    try {
+      const server = await createServer();
+      const transport = new SSEServerTransport(HTTP_ENDPOINTS.messages, res);
+      sessions.set(transport.sessionId, { server, transport, kind: 'sse', createdAt: Date.now() });
+
+      res.on('close', () => {
+        sessions.delete(transport.sessionId);
+      });
+
+      await server.connect(transport);
+    } catch (error) {
+      console.error('Error establishing SSE stream:', error);
+      if (!res.headersSent) {
+        res.status(500).send('Error establishing SSE stream');
+      }
+    }
+  });
+
+  app.post(HTTP_ENDPOINTS.messages, async (req, res) => {
+    const sessionId = req.query.sessionId as string | undefined;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || session.kind !== 'sse') {
+      res.status(404).send(`Session not found: ${sessionId ?? '(none)'}`);
+      return;
+    }
+    try {
+      const transport = session.transport as SSEServerTransport;
+      await transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      console.error('Error handling SSE message:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  // ==========================================================================
+  // Health
+  // ==========================================================================
+
+  app.get(HTTP_ENDPOINTS.health, (_req, res) => {
+    let streamable = 0;
+    let sse = 0;
+    for (const session of sessions.values()) {
+      if (session.kind === 'streamable') streamable++;
+      else sse++;
+    }
+    res.json({
+      status: 'ok',
+      name: 'wisdom-mcp',
+      version: '0.1.0',
+      sessions: {
+        total: sessions.size,
+        streamable,
+        sse,
+      },
+      uptime_seconds: Math.round(process.uptime()),
+    });
+  });
+
+  return { app, sessions };
+}
+
+/**
+ * Start the server in HTTP mode (Streamable HTTP with SSE fallback)
+ */
+export async function startHttpServer(options: ServerConfig): Promise<void> {
+  const port = options.httpPort ?? 3000;
+  const host = options.httpHost ?? '127.0.0.1';
+  const { app, sessions } = createHttpApp();
+
+  const httpServer = app.listen(port, host, () => {
+    console.error(`wisdom-mcp listening on http://${host}:${port}${HTTP_ENDPOINTS.mcp} (SSE fallback: ${HTTP_ENDPOINTS.sse})`);
+  });
+
+  const shutdown = async (): Promise<void> => {
+    for (const [id, session] of sessions) {
+      try {
+        await session.transport.close();
+      } catch {
+        // Ignore close errors during shutdown
+      }
+      sessions.delete(id);
+    }
+    httpServer.close(() => process.exit(0));
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
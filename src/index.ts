@@ -1,17 +1,26 @@
 #!/usr/bin/env node
 
 import { startStdioServer } from './server.js';
+import { startHttpServer } from './http.js';
+import type { ServerConfig } from './config/schema.js';
 
 /**
  * Parse command line arguments
  */
-function parseArgs(): { mode: 'stdio' | 'http'; port?: number } {
+function parseArgs(): ServerConfig {
   const args = process.argv.slice(2);
 
   if (args.includes('--http')) {
     const portIndex = args.indexOf('--port');
-    const port = portIndex !== -1 ? parseInt(args[portIndex + 1], 10) : 3000;
-    return { mode: 'http', port };
+    const hostIndex = args.indexOf('--host');
+    const httpPort = portIndex !== -1 ? parseInt(args[portIndex + 1], 10) : 3000;
+    const httpHost = hostIndex !== -1 ? args[hostIndex + 1] : undefined;
+
+    if (Number.isNaN(httpPort)) {
+      throw new Error(`Invalid --port value: ${args[portIndex + 1]}`);
+    }
+
+    return { mode: 'http', httpPort, httpHost };
   }
 
   // Default to stdio mode
@@ -22,12 +31,11 @@ function parseArgs(): { mode: 'stdio' | 'http'; port?: number } {
  * Main entry point
  */
 async function main(): Promise<void> {
-  const { mode } = parseArgs();
+  const serverConfig = parseArgs();
 
-  if (mode === 'http') {
-    // HTTP mode will be implemented in Phase 8
-    console.error('HTTP mode not yet implemented. Use --stdio (default) for now.');
-    process.exit(1);
+  if (serverConfig.mode === 'http') {
+    await startHttpServer(serverConfig);
+    return;
   }
 
   // Start stdio server
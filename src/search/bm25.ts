@@ -0,0 +1,146 @@
+/**
+ * Okapi BM25 ranking over an in-memory inverted index.
+ * Purely lexical: no embeddings, no network.
+ */
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'not', 'of', 'on', 'or', 'so', 'that', 'the',
+  'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which',
+  'while', 'who', 'will', 'with', 'you',
+]);
+
+/**
+ * Reduce common English inflections so "caching", "cached" and "caches" match
+ */
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('es')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Split text into normalized search terms
+ */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.filter((w) => w.length > 1 && !STOPWORDS.has(w)).map(stem);
+}
+
+/**
+ * BM25 tuning parameters
+ */
+export interface Bm25Options {
+  k1: number; // Term frequency saturation (default: 1.2)
+  b: number; // Length normalization (default: 0.75)
+}
+
+const DEFAULT_OPTIONS: Bm25Options = { k1: 1.2, b: 0.75 };
+
+interface IndexedDocument {
+  terms: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Incrementally updatable BM25 index keyed by document id
+ */
+export class Bm25Index {
+  private options: Bm25Options;
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequency = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(options: Partial<Bm25Options> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Add or replace a document
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const terms = new Map<string, number>();
+    const tokens = tokenize(text);
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) || 0) + 1);
+    }
+    for (const term of terms.keys()) {
+      this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+    }
+
+    this.documents.set(id, { terms, length: tokens.length });
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * Remove a document if present
+   */
+  remove(id: string): void {
+    const doc = this.documents.get(id);
+    if (!doc) return;
+
+    for (const term of doc.terms.keys()) {
+      const df = (this.documentFrequency.get(term) || 1) - 1;
+      if (df > 0) this.documentFrequency.set(term, df);
+      else this.documentFrequency.delete(term);
+    }
+    this.documents.delete(id);
+    this.totalLength -= doc.length;
+  }
+
+  /**
+   * BM25 score of one document for a query (0 if not indexed or no overlap)
+   */
+  score(query: string | string[], id: string): number {
+    const doc = this.documents.get(id);
+    if (!doc) return 0;
+
+    const { k1, b } = this.options;
+    const n = this.documents.size;
+    const avgLength = n > 0 ? this.totalLength / n : 0;
+    let score = 0;
+
+    for (const term of new Set(typeof query === 'string' ? tokenize(query) : query)) {
+      const tf = doc.terms.get(term);
+      if (!tf) continue;
+      const df = this.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      const norm = avgLength > 0 ? 1 - b + b * (doc.length / avgLength) : 1;
+      score += idf * (tf * (k1 + 1)) / (tf + k1 * norm);
+    }
+
+    return score;
+  }
+
+  /**
+   * Rank all documents sharing at least one term with the query
+   */
+  search(query: string, limit = 20): Array<{ id: string; score: number }> {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+
+    const results: Array<{ id: string; score: number }> = [];
+    for (const [id, doc] of this.documents) {
+      if (!terms.some((t) => doc.terms.has(t))) continue;
+      results.push({ id, score: this.score(terms, id) });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,192 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Fragment } from '../gateway/types.js';
+import { Bm25Index } from './bm25.js';
+
+const INDEX_FILE = '.wisdom/search-index.json';
+const MAX_INDEXED_FRAGMENTS = 5000;
+
+/**
+ * On-disk index file format. Only fragments are stored; the BM25 postings
+ * are rebuilt in memory on load.
+ */
+interface IndexFile {
+  version: 1;
+  fragments: IndexEntry[];
+}
+
+/**
+ * An indexed fragment with bookkeeping
+ */
+interface IndexEntry {
+  fragment: Fragment;
+  indexed_at: string;
+  projects?: string[]; // Projects the fragment was seen in
+}
+
+/**
+ * A local search hit
+ */
+export interface LocalSearchHit {
+  fragment: Fragment;
+  score: number;
+}
+
+/**
+ * Local full-text index of fragments seen or created by this server.
+ * Lets context loading find fragments the gateway search misses and keeps
+ * working while the gateway is unreachable.
+ */
+export class FragmentIndex {
+  private indexPath: string | null;
+  private fragments = new Map<string, IndexEntry>();
+  private bm25 = new Bm25Index();
+
+  constructor(projectRoot: string | null) {
+    this.indexPath = projectRoot ? path.join(projectRoot, INDEX_FILE) : null;
+    this.load();
+  }
+
+  /**
+   * Load the index from disk
+   */
+  private load(): void {
+    if (!this.indexPath) return;
+
+    try {
+      if (fs.existsSync(this.indexPath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8')) as IndexFile;
+        for (const entry of parsed.fragments || []) {
+          if (entry.fragment?.uuid && typeof entry.fragment.content === 'string') {
+            this.fragments.set(entry.fragment.uuid, entry);
+            this.bm25.add(entry.fragment.uuid, entry.fragment.content);
+          }
+        }
+      }
+    } catch {
+      // Ignore errors, start fresh
+    }
+  }
+
+  /**
+   * Save the index to disk using atomic write
+   */
+  private save(): void {
+    if (!this.indexPath) return;
+
+    const file: IndexFile = { version: 1, fragments: [...this.fragments.values()] };
+    const tmpPath = this.indexPath + '.tmp.' + process.pid + '.' + Date.now();
+    try {
+      const dir = path.dirname(this.indexPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(tmpPath, JSON.stringify(file));
+      fs.renameSync(tmpPath, this.indexPath);
+    } catch {
+      // The index is a cache; losing an update is harmless
+      try { fs.unlinkSync(tmpPath); } catch { /* ignore */ }
+    }
+  }
+
+  /**
+   * Path of the index file (null when not in a project)
+   */
+  getPath(): string | null {
+    return this.indexPath;
+  }
+
+  /**
+   * Number of indexed fragments
+   */
+  size(): number {
+    return this.fragments.size;
+  }
+
+  /**
+   * Get an indexed fragment by UUID
+   */
+  get(uuid: string): Fragment | null {
+    return this.fragments.get(uuid)?.fragment ?? null;
+  }
+
+  /**
+   * Add or refresh fragments, optionally recording the project they were seen
+   * in. Unchanged fragments are skipped and the file is written at most once
+   * per call.
+   */
+  addFragments(fragments: Fragment[], project?: string): void {
+    let changed = false;
+    const now = new Date().toISOString();
+
+    for (const fragment of fragments) {
+      if (!fragment?.uuid || typeof fragment.content !== 'string') continue;
+
+      const existing = this.fragments.get(fragment.uuid);
+      const projects = existing?.projects || [];
+      const newProject = !!project && !projects.includes(project);
+      if (
+        existing &&
+        !newProject &&
+        existing.fragment.content === fragment.content &&
+        existing.fragment.version === fragment.version
+      ) {
+        continue;
+      }
+
+      // Strip per-request annotations such as `verified`
+      const { verified: _verified, ...stored } = fragment as Fragment & { verified?: unknown };
+      this.fragments.delete(fragment.uuid);
+      this.fragments.set(fragment.uuid, {
+        fragment: stored,
+        indexed_at: now,
+        projects: newProject ? [...projects, project!] : projects,
+      });
+      this.bm25.add(fragment.uuid, fragment.content);
+      changed = true;
+    }
+
+    // Evict the least recently indexed fragments (Map keeps insertion order)
+    for (const uuid of this.fragments.keys()) {
+      if (this.fragments.size <= MAX_INDEXED_FRAGMENTS) break;
+      this.fragments.delete(uuid);
+      this.bm25.remove(uuid);
+      changed = true;
+    }
+
+    if (changed) {
+      this.save();
+    }
+  }
+
+  /**
+   * Search indexed fragments, best match first. With a project only
+   * fragments seen in that project are returned.
+   */
+  search(query: string, limit = 50, project?: string): LocalSearchHit[] {
+    const hits: LocalSearchHit[] = [];
+    for (const hit of this.bm25.search(query, this.fragments.size)) {
+      const entry = this.fragments.get(hit.id)!;
+      if (project && !(entry.projects || []).includes(project)) continue;
+      hits.push({ fragment: entry.fragment, score: hit.score });
+      if (hits.length >= limit) break;
+    }
+    return hits;
+  }
+
+  /**
+   * BM25 score of an indexed fragment for a query
+   */
+  score(query: string, uuid: string): number {
+    return this.bm25.score(query, uuid);
+  }
+
+  /**
+   * Remove all indexed fragments
+   */
+  clear(): void {
+    this.fragments.clear();
+    this.bm25 = new Bm25Index();
+    this.save();
+  }
+}
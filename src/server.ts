@@ -8,8 +8,17 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { loadConfig, LoadedConfig } from './config/index.js';
-import { GatewayClient } from './gateway/client.js';
+import { GatewayClient, type GatewayClientOptions } from './gateway/client.js';
+import { GatewayError, NetworkError } from './gateway/errors.js';
 import { KeyManager } from './crypto/keys.js';
+import { createRequestSigner } from './crypto/request-signing.js';
+import { cachedPlaintextKeyWarnings } from './crypto/vault.js';
+import { SignatureVerifier } from './crypto/verification.js';
+import { Outbox } from './state/outbox.js';
+import { StateManager } from './state/persistent.js';
+import { FragmentIndex } from './search/fragment-index.js';
+import { BenchmarkStore } from './benchmark/store.js';
+import { TransformEngine } from './transform/engine.js';
 import type { Address, AddressDomain } from './gateway/types.js';
 import { createLocalAddress, createHubAddress } from './gateway/types.js';
 
@@ -22,6 +31,9 @@ import { createProjectTools } from './tools/projects.js';
 import { createAgentTools } from './tools/agents.js';
 import { createUtilityTools } from './tools/utility.js';
 import { createValidityTools } from './tools/validity.js';
+import { createStateTools } from './tools/state.js';
+import { createBenchmarkTools } from './tools/benchmark.js';
+import { resolveQueuedPreset } from './tools/defaults.js';
 
 /**
  * LRU address cache for entities seen during this session.
@@ -80,6 +92,92 @@ export class AddressCache {
   }
 }
 
+/**
+ * State, search index and outbox per project root, shared by every session
+ * of this process. State and index keep an in-memory copy that they write
+ * back, so separate instances on the same files would overwrite each other's
+ * changes; one outbox keeps replays from overlapping.
+ */
+interface ProjectStores {
+  state: StateManager;
+  searchIndex: FragmentIndex;
+  outbox: Outbox;
+}
+
+const projectStores = new Map<string, ProjectStores>();
+
+function getProjectStores(projectRoot: string | null): ProjectStores {
+  const key = projectRoot ?? '';
+  let stores = projectStores.get(key);
+  if (!stores) {
+    stores = {
+      state: new StateManager(projectRoot),
+      searchIndex: new FragmentIndex(projectRoot),
+      outbox: new Outbox(projectRoot),
+    };
+    projectStores.set(key, stores);
+  }
+  return stores;
+}
+
+// Config files already checked for plaintext keys, so each HTTP session
+// does not repeat the warnings on stderr
+const checkedKeyConfigs = new Set<string>();
+
+function warnAboutPlaintextKeys(configFiles: Array<string | null>): void {
+  const unchecked = configFiles.filter((file): file is string => !!file && !checkedKeyConfigs.has(file));
+  unchecked.forEach((file) => checkedKeyConfigs.add(file));
+  for (const warning of cachedPlaintextKeyWarnings(unchecked)) {
+    console.error(`wisdom-mcp: ${warning}`);
+  }
+}
+
+/**
+ * Gateway client settings from config; unset values keep the client defaults
+ */
+function gatewayOptions(config: LoadedConfig['config']): Partial<GatewayClientOptions> {
+  const options: Partial<GatewayClientOptions> = {};
+  if (config.gateway_timeout_ms !== undefined) options.timeoutMs = config.gateway_timeout_ms;
+  if (config.gateway_max_retries !== undefined) options.maxRetries = config.gateway_max_retries;
+  if (config.gateway_validation !== undefined) options.validation = config.gateway_validation;
+  return options;
+}
+
+/**
+ * What an agent can do about a gateway error
+ */
+function gatewayErrorHint(error: GatewayError): string {
+  switch (error.code) {
+    case 'not_found':
+      return 'The entity does not exist on this gateway. Check the UUID or search for it.';
+    case 'conflict':
+      return 'The entity already exists. Fetch it instead of creating it again.';
+    case 'unauthorized':
+      return 'The gateway rejected this agent. Check the identity and key with wisdom_whoami.';
+    case 'rate_limited':
+      return 'Too many requests. Wait before retrying.';
+    case 'hub_critical':
+      return 'The hub is at critical capacity. Defer non-essential writes.';
+    case 'network':
+      return error instanceof NetworkError && error.reason === 'circuit_open'
+        ? 'The gateway keeps failing. Wait for the circuit retry time (wisdom_whoami gateway_circuit).'
+        : 'The gateway is unreachable. Writes are queued in the outbox; retry reads later.';
+    case 'invalid_response':
+      return 'The gateway sent an unexpected reply. Check gateway_url.';
+    case 'bad_request':
+      return 'The gateway rejected the request. Fix the arguments before retrying.';
+    case 'server_error':
+      return 'The gateway failed. Retry later.';
+  }
+}
+
+/**
+ * Structured error for tool responses
+ */
+export function gatewayErrorPayload(error: GatewayError): Record<string, unknown> {
+  return { ...error.toJSON(), hint: gatewayErrorHint(error) };
+}
+
 /**
  * Server context shared across tools
  */
@@ -88,6 +186,12 @@ export interface ServerContext {
   gateway: GatewayClient;
   keyManager: KeyManager;
   addressCache: AddressCache;
+  verifier: SignatureVerifier;
+  outbox: Outbox;
+  state: StateManager;
+  searchIndex: FragmentIndex;
+  benchmarks: BenchmarkStore;
+  transformEngine: TransformEngine;
 
   // Reload config from disk
   reloadConfig(): void;
@@ -120,27 +224,46 @@ export async function createServer(): Promise<Server> {
   let loadedConfig = loadConfig();
 
   // Initialize components
-  const gateway = new GatewayClient(loadedConfig.config.gateway_url);
-  const keyManager = new KeyManager(loadedConfig.config);
+  const gateway = new GatewayClient(loadedConfig.config.gateway_url, gatewayOptions(loadedConfig.config));
+  const keyManager = new KeyManager(loadedConfig.config, loadedConfig.paths.keyVault);
+  warnAboutPlaintextKeys([loadedConfig.paths.projectConfig, loadedConfig.paths.globalConfig]);
 
   // Create server context
   const addressCache = new AddressCache();
+  const verifier = new SignatureVerifier(gateway);
+  const { state, searchIndex, outbox } = getProjectStores(loadedConfig.paths.projectRoot);
+  const benchmarks = new BenchmarkStore(loadedConfig.paths.projectRoot);
+  const transformEngine = new TransformEngine(gateway);
   const context: ServerContext = {
     config: loadedConfig,
     gateway,
     keyManager,
     addressCache,
+    verifier,
+    outbox,
+    state,
+    searchIndex,
+    benchmarks,
+    transformEngine,
 
     reloadConfig() {
       loadedConfig = loadConfig();
       this.config = loadedConfig;
       gateway.setBaseUrl(loadedConfig.config.gateway_url);
-      keyManager.setConfig(loadedConfig.config);
+      gateway.setOptions(gatewayOptions(loadedConfig.config));
+      keyManager.setConfig(loadedConfig.config, loadedConfig.paths.keyVault);
+      verifier.clearCache();
+      transformEngine.clearCache();
     },
 
     updateConfig(updates, persist = false) {
       Object.assign(this.config.config, updates);
+      if (updates.gateway_url) {
+        verifier.clearCache();
+        transformEngine.clearCache();
+      }
       gateway.setBaseUrl(this.config.config.gateway_url);
+      gateway.setOptions(gatewayOptions(this.config.config));
       keyManager.setConfig(this.config.config);
 
       if (persist) {
@@ -156,6 +279,12 @@ export async function createServer(): Promise<Server> {
     },
   };
 
+  // Authenticate gateway requests as the configured agent
+  gateway.setRequestSigner(createRequestSigner(keyManager, () => context.config.config.agent_uuid));
+  // Fragments queued while the preset transform could not be registered
+  // Sessions of a project share the outbox and its config; the newest session resolves presets
+  outbox.setPresetResolver((preset, fragment) => resolveQueuedPreset(context, preset, fragment));
+
   // Create server
   const server = new Server(
     {
@@ -180,6 +309,8 @@ export async function createServer(): Promise<Server> {
     ...createProjectTools(),
     ...createAgentTools(),
     ...createValidityTools(),
+    ...createStateTools(),
+    ...createBenchmarkTools(),
   ];
 
   // Build tool lookup map
@@ -299,6 +430,15 @@ export async function createServer(): Promise<Server> {
         },
       ];
 
+      // Gateway errors carry a code, status and hint agents can act on
+      const structured = error instanceof GatewayError ? { error: gatewayErrorPayload(error) } : undefined;
+      if (structured) {
+        errorContent.push({
+          type: 'text',
+          text: JSON.stringify(structured, null, 2),
+        });
+      }
+
       if (hubWarnings.length > 0) {
         errorContent.push({
           type: 'text',
@@ -308,6 +448,7 @@ export async function createServer(): Promise<Server> {
 
       return {
         content: errorContent,
+        ...(structured && { structuredContent: structured }),
         isError: true,
       };
     }
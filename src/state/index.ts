@@ -1,2 +1,3 @@
 export * from './types.js';
 export * from './persistent.js';
+export * from './outbox.js';
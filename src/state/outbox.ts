@@ -0,0 +1,381 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { GatewayClient } from '../gateway/client.js';
+import { NetworkError } from '../gateway/errors.js';
+import type {
+  CreateFragmentRequest,
+  CreateRelationRequest,
+  CreateTagRequest,
+  CreateTrustVoteRequest,
+} from '../gateway/types.js';
+import type { OutboxEntry, OutboxEntryKind, OutboxFile } from './types.js';
+
+const OUTBOX_FILE = '.wisdom/outbox.json';
+
+/**
+ * Payload type for each outbox entry kind
+ */
+export interface OutboxPayloads {
+  fragment: CreateFragmentRequest;
+  relation: CreateRelationRequest;
+  tag: CreateTagRequest;
+  trust_vote: CreateTrustVoteRequest;
+}
+
+/**
+ * Result of replaying the outbox
+ */
+export interface OutboxReplayResult {
+  delivered: string[];
+  already_present: string[];
+  failed: Array<{ uuid: string; kind: OutboxEntryKind; error: string }>;
+  remaining: number;
+  gateway_reachable: boolean;
+}
+
+/**
+ * Registers the preset transform of a queued fragment and returns the
+ * fragment re-signed with it
+ */
+export type PresetResolver = (preset: string, fragment: CreateFragmentRequest) => Promise<CreateFragmentRequest>;
+
+/**
+ * Result of delivering a write directly or queueing it
+ */
+export type DeliveryResult<T> =
+  | { queued: false; entity: T }
+  | { queued: true; entry: OutboxEntry };
+
+/**
+ * Offline write queue for signed requests.
+ *
+ * The file is re-read before every change so several server processes
+ * sharing a project see a consistent queue. Within a process one Outbox is
+ * shared per project.
+ */
+export class Outbox {
+  private outboxPath: string | null;
+  private memory: OutboxFile = { pending: [], failed: [] };
+  private replaying = false;
+  private presetResolver?: PresetResolver;
+
+  constructor(projectRoot: string | null) {
+    this.outboxPath = projectRoot ? path.join(projectRoot, OUTBOX_FILE) : null;
+  }
+
+  /**
+   * Set how fragments queued with a preset transform are resolved on replay
+   */
+  setPresetResolver(resolver: PresetResolver): void {
+    this.presetResolver = resolver;
+  }
+
+  /**
+   * Load outbox from disk
+   */
+  private load(): OutboxFile {
+    if (!this.outboxPath) {
+      return this.memory;
+    }
+
+    try {
+      if (fs.existsSync(this.outboxPath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.outboxPath, 'utf-8'));
+        return {
+          pending: parsed.pending || [],
+          failed: parsed.failed || [],
+        };
+      }
+    } catch {
+      // Ignore errors, start fresh
+    }
+
+    return { pending: [], failed: [] };
+  }
+
+  /**
+   * Save outbox to disk using atomic write
+   */
+  private save(file: OutboxFile): void {
+    if (!this.outboxPath) {
+      this.memory = file;
+      return;
+    }
+
+    const dir = path.dirname(this.outboxPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const tmpPath = this.outboxPath + '.tmp.' + process.pid + '.' + Date.now();
+    try {
+      fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2));
+      fs.renameSync(tmpPath, this.outboxPath);
+    } catch (err) {
+      try { fs.unlinkSync(tmpPath); } catch { /* ignore */ }
+      throw err;
+    }
+  }
+
+  /**
+   * Apply a change to the current file contents and save them. Long
+   * operations must not save an older copy, or entries queued meanwhile
+   * (by this or another session) would be lost.
+   */
+  private update(change: (file: OutboxFile) => void): void {
+    const file = this.load();
+    change(file);
+    this.save(file);
+  }
+
+  /**
+   * Path of the outbox file (null when not in a project)
+   */
+  getPath(): string | null {
+    return this.outboxPath;
+  }
+
+  /**
+   * Queue a signed write. Entries are deduplicated by entity UUID. A fragment
+   * queued with a preset gets that preset's Transform on replay.
+   */
+  enqueue<K extends OutboxEntryKind>(
+    kind: K,
+    payload: OutboxPayloads[K],
+    project?: string,
+    presetTransform?: string
+  ): OutboxEntry {
+    const file = this.load();
+    const existing = file.pending.find((e) => e.uuid === payload.uuid);
+    if (existing) {
+      return existing;
+    }
+
+    const entry: OutboxEntry = {
+      uuid: payload.uuid,
+      kind,
+      payload,
+      project,
+      ...(presetTransform && { preset_transform: presetTransform }),
+      queued_at: new Date().toISOString(),
+      attempts: 0,
+    };
+    file.pending.push(entry);
+    this.save(file);
+    return entry;
+  }
+
+  /**
+   * Number of pending entries
+   */
+  size(): number {
+    return this.load().pending.length;
+  }
+
+  /**
+   * Number of entries the gateway rejected
+   */
+  failedCount(): number {
+    return this.load().failed.length;
+  }
+
+  /**
+   * Pending entries in replay order
+   */
+  list(): OutboxEntry[] {
+    return this.load().pending;
+  }
+
+  /**
+   * Extra tool response fields describing a queued write
+   */
+  queuedInfo(queued: boolean): Record<string, unknown> {
+    if (!queued) {
+      return {};
+    }
+    return {
+      queued: true,
+      outbox_depth: this.size(),
+      note: 'Gateway unreachable. Write queued in the outbox and will be replayed when the gateway is back.',
+    };
+  }
+
+  /**
+   * Try to deliver a write, queueing it if the gateway is unreachable.
+   * Errors from a reachable gateway (e.g. validation failures) are rethrown.
+   */
+  async deliverOrQueue<K extends OutboxEntryKind, T>(
+    gateway: GatewayClient,
+    kind: K,
+    payload: OutboxPayloads[K],
+    project: string | undefined,
+    deliver: () => Promise<T>
+  ): Promise<DeliveryResult<T>> {
+    // Keep ordering: new writes go behind anything already queued
+    if (this.size() > 0) {
+      await this.replay(gateway);
+      if (this.size() > 0) {
+        return { queued: true, entry: this.enqueue(kind, payload, project) };
+      }
+    }
+
+    try {
+      return { queued: false, entity: await deliver() };
+    } catch (error) {
+      if (!(error instanceof NetworkError) && (await gateway.isReachable())) {
+        throw error;
+      }
+      return { queued: true, entry: this.enqueue(kind, payload, project) };
+    }
+  }
+
+  /**
+   * Replay pending writes in order. Stops at the first network failure so
+   * ordering is preserved; entries the gateway rejects are moved to `failed`.
+   */
+  async replay(gateway: GatewayClient): Promise<OutboxReplayResult> {
+    const result: OutboxReplayResult = {
+      delivered: [],
+      already_present: [],
+      failed: [],
+      remaining: 0,
+      gateway_reachable: true,
+    };
+
+    if (this.replaying) {
+      result.remaining = this.size();
+      return result;
+    }
+
+    this.replaying = true;
+    try {
+      if (this.size() === 0) {
+        return result;
+      }
+
+      if (!(await gateway.isReachable())) {
+        result.gateway_reachable = false;
+        result.remaining = this.size();
+        return result;
+      }
+
+      // Entries are removed or updated by UUID, never by saving this snapshot
+      const without = (uuid: string) => (file: OutboxFile) => {
+        file.pending = file.pending.filter((e) => e.uuid !== uuid);
+      };
+
+      for (;;) {
+        const entry = this.load().pending[0];
+        if (!entry) break;
+
+        // A previous attempt may have reached the gateway before failing
+        if (entry.attempts > 0 && (await this.exists(gateway, entry))) {
+          this.update(without(entry.uuid));
+          result.already_present.push(entry.uuid);
+          continue;
+        }
+
+        try {
+          if (entry.preset_transform) {
+            await this.resolvePreset(entry, entry.preset_transform);
+          }
+          await this.send(gateway, entry);
+          this.update(without(entry.uuid));
+          result.delivered.push(entry.uuid);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          entry.attempts++;
+          entry.last_error = message;
+
+          if (error instanceof NetworkError || !(await gateway.isReachable())) {
+            this.update((file) => {
+              file.pending = file.pending.map((e) => (e.uuid === entry.uuid ? entry : e));
+            });
+            result.gateway_reachable = false;
+            break;
+          }
+
+          const present = await this.exists(gateway, entry);
+          this.update((file) => {
+            without(entry.uuid)(file);
+            if (!present) file.failed.push(entry);
+          });
+          if (present) {
+            result.already_present.push(entry.uuid);
+          } else {
+            result.failed.push({ uuid: entry.uuid, kind: entry.kind, error: message });
+          }
+        }
+      }
+
+      result.remaining = this.size();
+      return result;
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  /**
+   * Clear entries the gateway rejected
+   */
+  clearFailed(): number {
+    let count = 0;
+    this.update((file) => {
+      count = file.failed.length;
+      file.failed = [];
+    });
+    return count;
+  }
+
+  /**
+   * Replace the placeholder transform of a queued fragment
+   */
+  private async resolvePreset(entry: OutboxEntry, preset: string): Promise<void> {
+    if (!this.presetResolver) {
+      throw new Error(`Cannot register the transform for preset ${preset}`);
+    }
+    entry.payload = await this.presetResolver(preset, entry.payload as CreateFragmentRequest);
+    delete entry.preset_transform;
+  }
+
+  private async send(gateway: GatewayClient, entry: OutboxEntry): Promise<void> {
+    switch (entry.kind) {
+      case 'fragment':
+        await gateway.createFragment(entry.payload as CreateFragmentRequest, entry.project);
+        return;
+      case 'relation':
+        await gateway.createRelation(entry.payload as CreateRelationRequest, entry.project);
+        return;
+      case 'tag':
+        await gateway.createTag(entry.payload as CreateTagRequest);
+        return;
+      case 'trust_vote':
+        await gateway.createTrustVote(entry.payload as CreateTrustVoteRequest);
+        return;
+    }
+  }
+
+  /**
+   * Check whether the entity of an entry already exists on the gateway
+   */
+  private async exists(gateway: GatewayClient, entry: OutboxEntry): Promise<boolean> {
+    try {
+      switch (entry.kind) {
+        case 'fragment':
+          return !!(await gateway.getFragment(entry.uuid))?.uuid;
+        case 'relation':
+          return !!(await gateway.getRelation(entry.uuid))?.uuid;
+        case 'tag':
+          return !!(await gateway.getTag(entry.uuid))?.uuid;
+        case 'trust_vote': {
+          const target = (entry.payload as CreateTrustVoteRequest).target;
+          const votes = await gateway.getVotesForTarget(target);
+          return Array.isArray(votes) && votes.some((v) => v.uuid === entry.uuid);
+        }
+      }
+    } catch {
+      return false;
+    }
+    return false;
+  }
+}
@@ -1,10 +1,23 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import type { PersistentState, TagCacheEntry } from './types.js';
+import type { PersistentState, PresetMetric, PresetTransformEntry, TagCacheEntry } from './types.js';
 
 const STATE_FILE = '.wisdom/state.json';
 const MAX_RECENT_ITEMS = 10;
 const TAG_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const METRIC_WINDOW = 50; // Older samples fade out of preset metrics
+
+function metricKey(preset: string, fragmentType: string, domain?: string): string {
+  return `${preset}:${fragmentType.toUpperCase()}:${domain?.toLowerCase() || ''}`;
+}
+
+/**
+ * Add a sample to a running mean that favours the last METRIC_WINDOW samples
+ */
+function runningMean(mean: number | undefined, samples: number, value: number): number {
+  if (mean === undefined || samples === 0) return value;
+  return mean + (value - mean) / Math.min(samples + 1, METRIC_WINDOW);
+}
 
 /**
  * Manage persistent state across sessions
@@ -167,6 +180,93 @@ export class StateManager {
     this.saveState();
   }
 
+  /**
+   * Get the Transform UUID registered for a preset on a gateway
+   */
+  getPresetTransform(preset: string, gatewayUrl: string): string | undefined {
+    const entry = this.state.preset_transforms?.[preset];
+    return entry && entry.gateway_url === gatewayUrl ? entry.uuid : undefined;
+  }
+
+  /**
+   * Remember the Transform UUID registered for a preset
+   */
+  setPresetTransform(preset: string, uuid: string, gatewayUrl: string): void {
+    const entry: PresetTransformEntry = {
+      uuid,
+      gateway_url: gatewayUrl,
+      registered_at: new Date().toISOString(),
+    };
+    this.state.preset_transforms = { ...this.state.preset_transforms, [preset]: entry };
+    this.saveState();
+  }
+
+  /**
+   * Forget all registered preset transforms
+   */
+  clearPresetTransforms(): void {
+    this.state.preset_transforms = {};
+    this.saveState();
+  }
+
+  /**
+   * Get observed metrics of a preset for a fragment type. A domain entry is
+   * used when it has samples, otherwise the type-wide entry.
+   */
+  getPresetMetric(preset: string, fragmentType: string, domain?: string): PresetMetric | undefined {
+    const metrics = this.state.preset_metrics || {};
+    const scoped = domain ? metrics[metricKey(preset, fragmentType, domain)] : undefined;
+    return scoped ?? metrics[metricKey(preset, fragmentType)];
+  }
+
+  /**
+   * Record an observed compression ratio and/or decode quality for a preset.
+   * Samples count towards the type-wide entry and the domain entry.
+   */
+  recordPresetMetric(
+    preset: string,
+    fragmentType: string,
+    domain: string | undefined,
+    sample: { compression?: number; quality?: number }
+  ): void {
+    const metrics = this.state.preset_metrics || {};
+    const scopes = domain ? [undefined, domain.toLowerCase()] : [undefined];
+
+    for (const scope of scopes) {
+      const key = metricKey(preset, fragmentType, scope);
+      const metric: PresetMetric = metrics[key] ?? {
+        preset,
+        fragment_type: fragmentType.toUpperCase(),
+        ...(scope && { domain: scope }),
+        compression_samples: 0,
+        compression: 0,
+        quality_samples: 0,
+        updated_at: '',
+      };
+      if (sample.compression !== undefined) {
+        metric.compression = runningMean(metric.compression, metric.compression_samples, sample.compression);
+        metric.compression_samples++;
+      }
+      if (sample.quality !== undefined) {
+        metric.quality = runningMean(metric.quality, metric.quality_samples, sample.quality);
+        metric.quality_samples++;
+      }
+      metric.updated_at = new Date().toISOString();
+      metrics[key] = metric;
+    }
+
+    this.state.preset_metrics = metrics;
+    this.saveState();
+  }
+
+  /**
+   * Forget all observed preset metrics
+   */
+  clearPresetMetrics(): void {
+    this.state.preset_metrics = {};
+    this.saveState();
+  }
+
   /**
    * Get last activity timestamp
    */
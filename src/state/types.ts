@@ -16,6 +16,10 @@ export interface PersistentState {
 
   // Cached lookups
   tag_cache?: Record<string, TagCacheEntry>;
+  preset_transforms?: Record<string, PresetTransformEntry>;
+
+  // Observed preset performance, keyed by preset, fragment type and domain
+  preset_metrics?: Record<string, PresetMetric>;
 
   // Session metadata
   last_activity?: string;
@@ -31,6 +35,57 @@ export interface TagCacheEntry {
   cached_at: string;
 }
 
+/**
+ * Gateway Transform registered for a preset
+ */
+export interface PresetTransformEntry {
+  uuid: string;
+  gateway_url: string;
+  registered_at: string;
+}
+
+/**
+ * Observed performance of a preset for a fragment type (and optionally a domain).
+ * Values are running means that favour recent samples.
+ */
+export interface PresetMetric {
+  preset: string;
+  fragment_type: string;
+  domain?: string;
+  compression_samples: number;
+  compression: number; // Token savings, 0..1
+  quality_samples: number;
+  quality?: number; // Decode feedback, 1..5
+  updated_at: string;
+}
+
+/**
+ * Kind of write queued in the offline outbox
+ */
+export type OutboxEntryKind = 'fragment' | 'relation' | 'tag' | 'trust_vote';
+
+/**
+ * A signed write waiting to be replayed against the gateway
+ */
+export interface OutboxEntry {
+  uuid: string; // Entity UUID (idempotency key)
+  kind: OutboxEntryKind;
+  payload: unknown; // Signed Create*Request
+  project?: string;
+  preset_transform?: string; // Fragment waiting for this preset's Transform; re-signed on replay
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+}
+
+/**
+ * On-disk outbox file format
+ */
+export interface OutboxFile {
+  pending: OutboxEntry[];
+  failed: OutboxEntry[];
+}
+
 /**
  * Transform delegation state
  */
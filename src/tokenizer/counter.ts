@@ -0,0 +1,102 @@
+/**
+ * Pluggable token counting used for context budgets, compression metrics and
+ * context pressure.
+ */
+
+import { BpeEstimator } from './bpe.js';
+import { parseTypeCode } from '../transform/formats/ast.js';
+
+/**
+ * Counts tokens in a piece of text
+ */
+export interface TokenCounter {
+  readonly name: string;
+  count(text: string): number;
+}
+
+/**
+ * Per-preset correction factors applied on top of the active counter.
+ * Symbol-dense encodings are undercounted by vocabulary-free estimation,
+ * since their punctuation rarely merges as well as in prose.
+ *
+ * These are rough estimates, not measurements: they were picked by hand from
+ * the relative symbol density of each preset's examples, not fitted against a
+ * real tokenizer. Override them with setPresetCalibration once measured for
+ * the model in use.
+ */
+const DEFAULT_CALIBRATION: Record<string, number> = {
+  'baseline': 1.0,
+  't4-hybrid': 1.05,
+  't1-symbolic': 1.1,
+  't3-compact': 1.15,
+};
+
+let activeCounter: TokenCounter = new BpeEstimator();
+const calibration: Record<string, number> = { ...DEFAULT_CALIBRATION };
+
+/**
+ * Replace the token counter (e.g. with an exact tokenizer for a model)
+ */
+export function setTokenCounter(counter: TokenCounter): void {
+  activeCounter = counter;
+}
+
+/**
+ * Get the active token counter
+ */
+export function getTokenCounter(): TokenCounter {
+  return activeCounter;
+}
+
+/**
+ * Set the correction factor for a preset. Pass undefined to restore the default.
+ */
+export function setPresetCalibration(preset: string, factor: number | undefined): void {
+  if (factor === undefined) {
+    if (preset in DEFAULT_CALIBRATION) calibration[preset] = DEFAULT_CALIBRATION[preset];
+    else delete calibration[preset];
+    return;
+  }
+  if (!(factor > 0)) {
+    throw new Error(`Invalid calibration for ${preset}: must be a positive number`);
+  }
+  calibration[preset] = factor;
+}
+
+/**
+ * Correction factor for a preset (1.0 when unknown)
+ */
+export function getPresetCalibration(preset: string): number {
+  return calibration[preset] ?? 1.0;
+}
+
+/**
+ * Guess which preset encoding a text uses from its shape. S-expressions
+ * count as t1-symbolic when their head is a type the parser accepts.
+ */
+export function detectPresetFormat(text: string): string {
+  const trimmed = text.trimStart();
+  if (/^F\{type:/.test(trimmed)) return 't3-compact';
+  if (/^f:\S+\s*\{T:/.test(trimmed)) return 't4-hybrid';
+  const head = /^\((:?[a-z]+)\s/i.exec(trimmed);
+  if (head && parseTypeCode(head[1])) return 't1-symbolic';
+  return 'baseline';
+}
+
+/**
+ * Count tokens with the active counter and per-preset calibration.
+ * The preset is detected from the text when not given.
+ */
+export function countTokens(text: string, preset?: string): number {
+  if (!text) return 0;
+  const factor = getPresetCalibration(preset ?? detectPresetFormat(text));
+  return Math.ceil(activeCounter.count(text) * factor);
+}
+
+/**
+ * Context pressure (0.0 to 1.0) of using `usedTokens` out of `budget`
+ */
+export function contextPressure(usedTokens: number, budget: number): number {
+  if (!(budget > 0)) return 1;
+  return Math.max(0, Math.min(1, usedTokens / budget));
+}
@@ -1,7 +1,235 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { ToolDefinition } from '../server.js';
-import { signTrustVote } from '../crypto/signing.js';
-import type { CreateTrustVoteRequest } from '../gateway/types.js';
+import type { ToolDefinition, ServerContext } from '../server.js';
+import { signAgent, signRelation, signTrustVote } from '../crypto/signing.js';
+import type {
+  Agent,
+  CreateRelationRequest,
+  CreateTrustVoteRequest,
+  Fragment,
+  Relation,
+  TrustStore,
+} from '../gateway/types.js';
+import { addressToString, VoteTypes } from '../gateway/types.js';
+import { getAllRelationsForEntity } from '../gateway/graph.js';
+import { GatewayError, NotFoundError } from '../gateway/errors.js';
+import { TrustEngine, type TrustPath } from '../trust/engine.js';
+import { setTrust, removeTrust, getTrust } from '../trust/store.js';
+
+/**
+ * Result of pushing a trust store change to the gateway
+ */
+interface TrustStoreUpdate {
+  agent: string;
+  method: 'agent_update' | 'trust_relation' | 'trust_relation_revoked';
+  version?: number;
+  relation_uuid?: string;
+  revoked_relations?: string[];
+  previous_trust?: number;
+}
+
+/**
+ * A TRUST relation of the current agent that it has not retracted
+ */
+interface TrustRelation {
+  relation: Relation;
+  target: string;
+  trust?: number;
+}
+
+/**
+ * Whether a failed agent update means the gateway does not support updates
+ * (as opposed to an outage, a rejected signature or a version conflict)
+ */
+function agentUpdateUnsupported(error: unknown): boolean {
+  return error instanceof NotFoundError || (error instanceof GatewayError && error.status === 405);
+}
+
+/**
+ * Trust level carried in a TRUST relation's content, if valid
+ */
+function relationTrustLevel(relation: Relation): number | undefined {
+  try {
+    const trust = (JSON.parse(relation.content || '{}') as { trust?: unknown }).trust;
+    return typeof trust === 'number' && trust >= -1 && trust <= 1 ? trust : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The current agent's signed TRUST relations (towards one target, if given)
+ * that it has not retracted, newest first. On gateways without agent
+ * updates this is where its trust is kept.
+ */
+async function activeTrustRelations(
+  context: ServerContext,
+  agentUuid: string,
+  target?: string
+): Promise<TrustRelation[]> {
+  const { relations } = await getAllRelationsForEntity(context.gateway, agentUuid, 'source');
+  const own = relations.filter(
+    (r) =>
+      r.type === 'TRUST' &&
+      r.from.entity === agentUuid &&
+      r.creator?.entity === agentUuid &&
+      (target === undefined || r.to.entity === target)
+  );
+
+  const active = await Promise.all(
+    own.map(async (relation): Promise<TrustRelation | null> => {
+      if ((await context.verifier.verifyRelation(relation)) !== true) {
+        return null;
+      }
+      const votes = await context.gateway.getVotesForTarget(relation.uuid).catch((error) => {
+        if (error instanceof NotFoundError) return [];
+        throw error;
+      });
+      const retracted = (await context.verifier.annotateTrustVotes(votes || [])).some(
+        (v) => v.voter === agentUuid && v.vote_type === 'retract' && v.verified === true
+      );
+      return retracted ? null : { relation, target: relation.to.entity, trust: relationTrustLevel(relation) };
+    })
+  );
+
+  return active
+    .filter((t): t is TrustRelation => t !== null)
+    .sort((a, b) => (b.relation.when || '').localeCompare(a.relation.when || ''));
+}
+
+/**
+ * Revoke TRUST relations with signed retract votes. Returns the UUIDs of
+ * the revoked relations.
+ */
+async function revokeTrustRelations(
+  context: ServerContext,
+  agentUuid: string,
+  relations: Relation[],
+  privateKey: Uint8Array
+): Promise<string[]> {
+  for (const relation of relations) {
+    const voteData: Omit<CreateTrustVoteRequest, 'signature'> = {
+      uuid: uuidv4(),
+      voter: agentUuid,
+      target: relation.uuid,
+      vote_type: 'retract',
+      comment: 'Trust removed',
+    };
+    const signature = await signTrustVote(voteData, privateKey);
+    await context.gateway.createTrustVote({ ...voteData, signature });
+  }
+  return relations.map((r) => r.uuid);
+}
+
+/**
+ * Apply a change to the current agent's trust store and publish it.
+ *
+ * The agent record is re-signed with a bumped version and pushed to the
+ * gateway. Gateways that do not support agent updates (404 or 405) get a
+ * signed TRUST relation instead, carrying the trust level in its content and
+ * revoking the earlier ones; removing trust there revokes them all. Any
+ * other update failure is raised as is.
+ */
+async function updateTrustStore(
+  context: ServerContext,
+  agent: Agent,
+  mutate: (store: TrustStore) => TrustStore,
+  change: { target: string; trust?: number; confidence: number }
+): Promise<TrustStoreUpdate> {
+  const privateKey = context.keyManager.getPrivateKey();
+  const hubHost = context.config.config.hub_host;
+
+  const publicKey = await context.keyManager.getPublicKeyBase64();
+  if (agent.public_key && agent.public_key !== publicKey) {
+    throw new Error('Configured private key does not match the public key of the current agent.');
+  }
+
+  const currentStore: TrustStore = agent.trust || { num_trusts: 0, trusts: [] };
+  const previousTrust = getTrust(currentStore, change.target);
+  const nextStore = mutate(currentStore);
+
+  const agentData = {
+    uuid: agent.uuid,
+    public_key: agent.public_key || publicKey,
+    description: agent.description,
+    trust: nextStore,
+    primary_hub: agent.primary_hub || '',
+  };
+
+  try {
+    const signature = await signAgent(agentData, privateKey);
+    const updated = await context.gateway.updateAgent(agent.uuid, {
+      ...agentData,
+      profile: agent.profile,
+      version: (agent.version || 0) + 1,
+      signature,
+    });
+    return {
+      agent: agent.uuid,
+      method: 'agent_update',
+      version: updated.version ?? (agent.version || 0) + 1,
+      previous_trust: previousTrust,
+    };
+  } catch (updateError) {
+    if (!agentUpdateUnsupported(updateError)) {
+      throw updateError;
+    }
+  }
+
+  const earlier = (await activeTrustRelations(context, agent.uuid, change.target)).map((t) => t.relation);
+  if (change.trust === undefined) {
+    const revoked = await revokeTrustRelations(context, agent.uuid, earlier, privateKey);
+    if (revoked.length === 0) {
+      throw new Error('The gateway does not support agent updates and there is no TRUST relation to revoke.');
+    }
+    return {
+      agent: agent.uuid,
+      method: 'trust_relation_revoked',
+      revoked_relations: revoked,
+      previous_trust: previousTrust,
+    };
+  }
+
+  // Fall back to a signed TRUST relation
+  const creatorAddr = context.addressCache.get(agent.uuid, 'AGENT', hubHost);
+  const targetAddr = context.addressCache.get(change.target, 'AGENT', hubHost);
+  const relationData: Omit<CreateRelationRequest, 'signature'> = {
+    uuid: uuidv4(),
+    from: creatorAddr,
+    to: targetAddr,
+    by: creatorAddr,
+    type: 'TRUST',
+    content: JSON.stringify({ trust: change.trust }),
+    creator: creatorAddr,
+    when: new Date().toISOString(),
+  };
+
+  const signature = await signRelation(relationData, privateKey);
+  const relation = await context.gateway.createRelation({
+    ...relationData,
+    confidence: change.confidence,
+    signature,
+  }, context.config.config.current_project);
+
+  // The new relation supersedes the earlier ones
+  const revoked = await revokeTrustRelations(context, agent.uuid, earlier, privateKey);
+  return {
+    agent: agent.uuid,
+    method: 'trust_relation',
+    relation_uuid: relation.uuid,
+    ...(revoked.length > 0 && { revoked_relations: revoked }),
+    previous_trust: previousTrust ?? (earlier.length > 0 ? relationTrustLevel(earlier[0]) : undefined),
+  };
+}
+
+/**
+ * Render a trust path as a readable chain for agents
+ */
+function formatTrustPath(path: TrustPath): { chain: string; trust: number } {
+  const chain = path.hops.length > 0
+    ? [path.hops[0].from, ...path.hops.map((h) => `(${h.trust}) ${h.to}`)].join(' -> ')
+    : '';
+  return { chain, trust: path.trust };
+}
 
 export function createAgentTools(): ToolDefinition[] {
   return [
@@ -36,6 +264,7 @@ export function createAgentTools(): ToolDefinition[] {
           trust: agent.trust,
           primary_hub: agent.primary_hub,
           is_current: uuid === context.config.config.agent_uuid,
+          verified: await context.verifier.verifyAgent(agent),
         };
       },
     },
@@ -84,7 +313,7 @@ export function createAgentTools(): ToolDefinition[] {
     {
       tool: {
         name: 'wisdom_trust_agent',
-        description: 'Express trust in another agent',
+        description: 'Express trust in another agent. Updates your signed agent trust store on the gateway.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -105,20 +334,12 @@ export function createAgentTools(): ToolDefinition[] {
         },
       },
       handler: async (args, context) => {
-        // Verify we have a private key (will throw if not)
-        context.keyManager.getPrivateKey();
-        const agentUuid = context.config.config.agent_uuid;
-
-        if (!agentUuid) {
-          throw new Error('No agent configured. Run wisdom_generate_keypair first.');
-        }
-
         const targetAgent = args.target_agent as string;
         const trustLevel = args.trust_level as number;
-        const confidence = (args.confidence as number) || 1.0;
+        const confidence = (args.confidence as number) ?? 1.0;
 
         // Validate trust level
-        if (trustLevel < -1 || trustLevel > 1) {
+        if (typeof trustLevel !== 'number' || trustLevel < -1 || trustLevel > 1) {
           throw new Error('Trust level must be between -1.0 and +1.0');
         }
 
@@ -127,20 +348,179 @@ export function createAgentTools(): ToolDefinition[] {
           throw new Error('Confidence must be between 0.0 and 1.0');
         }
 
-        // Get current agent to verify it exists
-        await context.gateway.getAgent(agentUuid);
+        const agentUuid = context.config.config.agent_uuid;
+        if (!agentUuid) {
+          throw new Error('No agent configured. Run wisdom_generate_keypair first.');
+        }
+        if (targetAgent === agentUuid) {
+          throw new Error('Cannot express trust in yourself.');
+        }
+
+        // Make sure the target exists before trusting it
+        await context.gateway.getAgent(targetAgent);
+
+        const hubHost = context.config.config.hub_host;
+        const targetAddr = context.addressCache.get(targetAgent, 'AGENT', hubHost);
+        const update = await updateTrustStore(
+          context,
+          await context.gateway.getAgent(agentUuid),
+          (store) => setTrust(store, targetAddr, trustLevel),
+          { target: targetAgent, trust: trustLevel, confidence }
+        );
 
-        // Return what would be the trust expression
-        // Note: Full implementation would update agent trust map via gateway API
         return {
-          source_agent: agentUuid,
+          source_agent: update.agent,
           target_agent: targetAgent,
           trust_expression: {
             trust: trustLevel,
             confidence,
           },
+          previous_trust: update.previous_trust ?? null,
+          method: update.method,
+          version: update.version,
+          relation_uuid: update.relation_uuid,
+          revoked_relations: update.revoked_relations,
           message: `Trust expressed: ${trustLevel > 0 ? '+' : ''}${trustLevel} (confidence: ${confidence})`,
-          note: 'Trust update submitted. The gateway will apply this to your agent trust map.',
+        };
+      },
+    },
+
+    {
+      tool: {
+        name: 'wisdom_untrust_agent',
+        description: 'Remove a trust (or distrust) entry for another agent from your signed agent trust store',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target_agent: {
+              type: 'string',
+              description: 'Agent UUID to remove from your trust store',
+            },
+          },
+          required: ['target_agent'],
+        },
+      },
+      handler: async (args, context) => {
+        const targetAgent = args.target_agent as string;
+        const agentUuid = context.config.config.agent_uuid;
+
+        if (!agentUuid) {
+          throw new Error('No agent configured. Run wisdom_generate_keypair first.');
+        }
+
+        // Avoid publishing a new agent version when nothing changes. Trust
+        // that only exists as TRUST relations is revoked directly.
+        const agent = await context.gateway.getAgent(agentUuid);
+        if (getTrust(agent.trust, targetAgent) === undefined) {
+          const relations = await activeTrustRelations(context, agentUuid, targetAgent);
+          if (relations.length === 0) {
+            return {
+              source_agent: agentUuid,
+              target_agent: targetAgent,
+              removed: false,
+              message: 'No trust entry existed for this agent. Nothing changed.',
+            };
+          }
+
+          const revoked = await revokeTrustRelations(
+            context,
+            agentUuid,
+            relations.map((t) => t.relation),
+            context.keyManager.getPrivateKey()
+          );
+          return {
+            source_agent: agentUuid,
+            target_agent: targetAgent,
+            removed: true,
+            previous_trust: relations[0].trust,
+            method: 'trust_relation_revoked',
+            revoked_relations: revoked,
+            message: 'Trust entry removed',
+          };
+        }
+
+        const update = await updateTrustStore(
+          context,
+          agent,
+          (store) => removeTrust(store, targetAgent),
+          { target: targetAgent, confidence: 1 }
+        );
+
+        return {
+          source_agent: update.agent,
+          target_agent: targetAgent,
+          removed: true,
+          previous_trust: update.previous_trust,
+          method: update.method,
+          version: update.version,
+          revoked_relations: update.revoked_relations,
+          message: 'Trust entry removed',
+        };
+      },
+    },
+
+    {
+      tool: {
+        name: 'wisdom_list_my_trusts',
+        description: 'List the agents the current agent trusts or distrusts',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            include_details: {
+              type: 'boolean',
+              description: 'Fetch each trusted agent to include its description (default: true)',
+            },
+          },
+          required: [],
+        },
+      },
+      handler: async (args, context) => {
+        const agentUuid = context.config.config.agent_uuid;
+
+        if (!agentUuid) {
+          throw new Error('No agent configured. Run wisdom_generate_keypair first.');
+        }
+
+        const includeDetails = args.include_details !== false;
+        const agent = await context.gateway.getAgent(agentUuid);
+        const trusts: Array<{ agent: string; address: string; trust: number; relation_uuid?: string }> = (
+          agent.trust?.trusts || []
+        ).map((t) => ({ agent: t.agent.entity, address: addressToString(t.agent), trust: t.trust }));
+
+        // Gateways without agent updates keep trust as TRUST relations; the
+        // signed trust store wins where both exist
+        for (const t of await activeTrustRelations(context, agentUuid)) {
+          if (t.trust === undefined || trusts.some((e) => e.agent === t.target)) continue;
+          trusts.push({
+            agent: t.target,
+            address: addressToString(t.relation.to),
+            trust: t.trust,
+            relation_uuid: t.relation.uuid,
+          });
+        }
+        trusts.sort((a, b) => b.trust - a.trust);
+
+        const entries = await Promise.all(
+          trusts.map(async (t) => {
+            let description: string | undefined;
+            if (includeDetails) {
+              try {
+                description = (await context.gateway.getAgent(t.agent)).description;
+              } catch {
+                description = undefined;
+              }
+            }
+            return { ...t, description };
+          })
+        );
+
+        return {
+          agent: agentUuid,
+          version: agent.version,
+          trusted: entries.filter((e) => e.trust > 0),
+          distrusted: entries.filter((e) => e.trust < 0),
+          neutral: entries.filter((e) => e.trust === 0),
+          count: entries.length,
         };
       },
     },
@@ -158,7 +538,7 @@ export function createAgentTools(): ToolDefinition[] {
             },
             vote_type: {
               type: 'string',
-              enum: ['verify', 'contest', 'retract'],
+              enum: [...VoteTypes],
               description: 'Type of vote',
             },
             comment: {
@@ -187,10 +567,12 @@ export function createAgentTools(): ToolDefinition[] {
         };
 
         const signature = await signTrustVote(voteData, privateKey);
-        const vote = await context.gateway.createTrustVote({
-          ...voteData,
-          signature,
-        });
+        const request: CreateTrustVoteRequest = { ...voteData, signature };
+        const delivery = await context.outbox.deliverOrQueue(
+          context.gateway, 'trust_vote', request, undefined,
+          () => context.gateway.createTrustVote(request)
+        );
+        const vote = delivery.queued ? request : delivery.entity;
 
         return {
           uuid: vote.uuid,
@@ -198,6 +580,7 @@ export function createAgentTools(): ToolDefinition[] {
           vote_type: vote.vote_type,
           comment: vote.comment,
           message: `Vote cast: ${vote.vote_type}`,
+          ...context.outbox.queuedInfo(delivery.queued),
         };
       },
     },
@@ -219,7 +602,7 @@ export function createAgentTools(): ToolDefinition[] {
       },
       handler: async (args, context) => {
         const votesResult = await context.gateway.getVotesForTarget(args.fragment as string);
-        const votes = votesResult || [];
+        const votes = await context.verifier.annotateTrustVotes(votesResult || []);
 
         return {
           fragment: args.fragment,
@@ -228,6 +611,7 @@ export function createAgentTools(): ToolDefinition[] {
             voter: v.voter,
             vote_type: v.vote_type,
             comment: v.comment,
+            verified: v.verified,
           })),
           summary: {
             total: votes.length,
@@ -243,18 +627,30 @@ export function createAgentTools(): ToolDefinition[] {
       tool: {
         name: 'wisdom_calculate_trust',
         description:
-          'Calculate effective trust for an entity (placeholder for trust-path calculation)',
+          'Calculate effective trust for an agent or fragment by walking the web of trust from a perspective agent. Returns the contributing trust paths and votes so the result can be explained.',
         inputSchema: {
           type: 'object',
           properties: {
             entity: {
               type: 'string',
-              description: 'Entity UUID (fragment, agent, etc.)',
+              description: 'Entity UUID (fragment or agent)',
             },
             perspective: {
               type: 'string',
               description: 'Agent UUID for trust perspective (uses current agent if not specified)',
             },
+            max_depth: {
+              type: 'number',
+              description: 'Maximum trust path length in hops (default: 3)',
+            },
+            decay: {
+              type: 'number',
+              description: 'Trust decay per additional hop, 0.0 to 1.0 (default: 0.7)',
+            },
+            propagate_distrust: {
+              type: 'boolean',
+              description: 'Whether distrust expressed by trusted agents propagates (default: true)',
+            },
           },
           required: ['entity'],
         },
@@ -262,39 +658,74 @@ export function createAgentTools(): ToolDefinition[] {
       handler: async (args, context) => {
         const perspective =
           (args.perspective as string) || context.config.config.agent_uuid;
+        const entity = args.entity as string;
 
         if (!perspective) {
           throw new Error('No perspective agent specified and no current agent configured.');
         }
 
-        // For now, return a simplified trust calculation
-        // Full trust-path algorithm would be implemented here
+        const decay = args.decay as number | undefined;
+        if (decay !== undefined && (decay < 0 || decay > 1)) {
+          throw new Error('Decay must be between 0.0 and 1.0');
+        }
+
+        const engine = new TrustEngine(context.gateway, context.verifier, {
+          maxDepth: (args.max_depth as number) || undefined,
+          decay,
+          propagateDistrust: args.propagate_distrust as boolean | undefined,
+          dropUnverified: !!context.config.config.drop_unverified,
+        });
+
+        // Try to get as fragment
+        let fragment: Fragment | null = null;
         try {
-          // Try to get as fragment
-          const fragment = await context.gateway.getFragment(args.entity as string);
+          fragment = await context.gateway.getFragment(entity);
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) throw error;
+        }
+
+        if (fragment && fragment.uuid) {
+          const votes = (await context.gateway.getVotesForTarget(fragment.uuid)) || [];
+          const result = await engine.calculateFragmentTrust(perspective, fragment, votes);
           return {
-            entity: args.entity,
+            entity,
             entity_type: 'fragment',
-            perspective: perspective,
-            trust_summary: fragment.trust_summary,
-            effective_trust: fragment.trust_summary?.score ?? 0,
-            note: 'Trust-path calculation not yet implemented. Using direct trust summary.',
+            perspective,
+            effective_trust: result.effective_trust,
+            retracted: result.retracted,
+            creator: {
+              agent: result.creator.agent,
+              effective_trust: result.creator.effective_trust,
+              direct_trust: result.creator.direct_trust,
+              paths: result.creator.paths.map(formatTrustPath),
+            },
+            vote_score: result.vote_score,
+            votes: result.votes,
+            unverified_votes: result.unverified_votes,
+            gateway_trust_summary: fragment.trust_summary,
           };
-        } catch {
-          // Try as agent
-          try {
-            const agent = await context.gateway.getAgent(args.entity as string);
-            return {
-              entity: args.entity,
-              entity_type: 'agent',
-              perspective: perspective,
-              trust: agent.trust,
-              note: 'Trust-path calculation not yet implemented.',
-            };
-          } catch {
-            throw new Error(`Entity not found: ${args.entity}`);
+        }
+
+        // Try as agent
+        try {
+          await context.gateway.getAgent(entity);
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            throw new NotFoundError(`Entity not found: ${entity}`, error);
           }
+          throw error;
         }
+
+        const result = await engine.calculateAgentTrust(perspective, entity);
+        return {
+          entity,
+          entity_type: 'agent',
+          perspective,
+          effective_trust: result.effective_trust,
+          direct_trust: result.direct_trust,
+          path_count: result.paths.length,
+          paths: result.paths.map(formatTrustPath),
+        };
       },
     },
   ];
@@ -0,0 +1,202 @@
+import type { ServerContext, ToolDefinition } from '../server.js';
+import type { BenchmarkRun, BenchmarkTransform } from '../benchmark/types.js';
+import { loadCorpus } from '../benchmark/corpus.js';
+import {
+  buildReport,
+  createRun,
+  pendingRounds,
+  presetBenchmarkTransform,
+  recordRound,
+  remainingRounds,
+} from '../benchmark/harness.js';
+import { PRESETS } from '../transform/presets.js';
+
+const DEFAULT_BATCH_SIZE = 10;
+
+/**
+ * Resolve a preset key or gateway Transform UUID to a benchmark transform
+ */
+async function resolveBenchmarkTransform(context: ServerContext, key: string): Promise<BenchmarkTransform> {
+  if (PRESETS[key]) {
+    return presetBenchmarkTransform(key);
+  }
+
+  const transform = await context.transformEngine.getTransform(key);
+  if (!transform) {
+    throw new Error(`Transform not found: ${key}`);
+  }
+  const resolved = context.transformEngine.resolve(transform);
+
+  return {
+    key,
+    name: transform.name,
+    preset: resolved.preset,
+    transform_to: resolved.transform_to,
+    encode_instructions: resolved.encode_spec || `Encode the content as ${transform.transform_to}. ${transform.description}`,
+    decode_instructions: resolved.decode_spec || `Decode the ${transform.transform_to} content back to plain English.`,
+  };
+}
+
+function getRun(context: ServerContext, runId: string): BenchmarkRun {
+  const run = context.benchmarks.getRun(runId);
+  if (!run) {
+    throw new Error(`Benchmark run not found: ${runId}`);
+  }
+  return run;
+}
+
+/**
+ * Next batch of rounds, or the written report once every round is done
+ */
+function progress(context: ServerContext, run: BenchmarkRun, batchSize: number) {
+  const remaining = remainingRounds(run);
+  if (remaining > 0) {
+    return {
+      run_id: run.id,
+      complete: false,
+      remaining_rounds: remaining,
+      rounds: pendingRounds(run, batchSize),
+      instructions:
+        'Follow the instructions of each round and submit the outputs with wisdom_benchmark_submit as [{ "round_id": ..., "output": ... }]. Decode rounds must not use the original text.',
+    };
+  }
+
+  const report = buildReport(run);
+  return {
+    run_id: run.id,
+    complete: true,
+    report,
+    report_path: context.benchmarks.saveReport(report),
+  };
+}
+
+export function createBenchmarkTools(): ToolDefinition[] {
+  return [
+    {
+      tool: {
+        name: 'wisdom_benchmark_start',
+        description:
+          'Benchmark presets or custom transforms on a local corpus file. Returns encode/decode rounds for the host; measured token compression and round-trip similarity are reported when all rounds are submitted.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            corpus_path: {
+              type: 'string',
+              description: 'Corpus file (.jsonl, .json array, or text with blank-line separated items), relative to the project root',
+            },
+            transforms: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Preset keys or Transform UUIDs to benchmark (default: all presets)',
+            },
+            max_items: {
+              type: 'number',
+              description: 'Maximum corpus items (default: 20)',
+            },
+            batch_size: {
+              type: 'number',
+              description: `Rounds returned per call (default: ${DEFAULT_BATCH_SIZE})`,
+            },
+          },
+          required: ['corpus_path'],
+        },
+      },
+      handler: async (args, context) => {
+        const baseDir = context.config.paths.projectRoot || process.cwd();
+        const items = loadCorpus(args.corpus_path as string, baseDir, (args.max_items as number) || 20);
+        const keys = (args.transforms as string[] | undefined)?.length
+          ? (args.transforms as string[])
+          : Object.keys(PRESETS);
+        const transforms = await Promise.all(keys.map((key) => resolveBenchmarkTransform(context, key)));
+
+        const run = createRun(args.corpus_path as string, items, transforms);
+        context.benchmarks.saveRun(run);
+
+        return {
+          ...progress(context, run, (args.batch_size as number) || DEFAULT_BATCH_SIZE),
+          items: items.length,
+          transforms: transforms.map((t) => ({ key: t.key, name: t.name, transform_to: t.transform_to })),
+        };
+      },
+    },
+
+    {
+      tool: {
+        name: 'wisdom_benchmark_submit',
+        description: 'Submit host outputs for benchmark rounds and get the next rounds, or the report when the run is complete',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            run_id: {
+              type: 'string',
+              description: 'Benchmark run ID',
+            },
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  round_id: { type: 'string' },
+                  output: { type: 'string' },
+                },
+                required: ['round_id', 'output'],
+              },
+              description: 'Outputs of completed rounds',
+            },
+            batch_size: {
+              type: 'number',
+              description: `Rounds returned per call (default: ${DEFAULT_BATCH_SIZE})`,
+            },
+          },
+          required: ['run_id', 'results'],
+        },
+      },
+      handler: async (args, context) => {
+        const run = getRun(context, args.run_id as string);
+        const results = (args.results as Array<{ round_id: string; output: string }>) || [];
+
+        const errors: Array<{ round_id: string; error: string }> = [];
+        let recorded = 0;
+        for (const result of results) {
+          try {
+            recordRound(run, result.round_id, result.output);
+            recorded++;
+          } catch (error) {
+            errors.push({ round_id: result.round_id, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+        context.benchmarks.saveRun(run);
+
+        return {
+          recorded,
+          ...(errors.length > 0 && { errors }),
+          ...progress(context, run, (args.batch_size as number) || DEFAULT_BATCH_SIZE),
+        };
+      },
+    },
+
+    {
+      tool: {
+        name: 'wisdom_benchmark_report',
+        description: 'Report measured compression and quality per transform for a benchmark run (partial while rounds are pending)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            run_id: {
+              type: 'string',
+              description: 'Benchmark run ID',
+            },
+          },
+          required: ['run_id'],
+        },
+      },
+      handler: async (args, context) => {
+        const report = buildReport(getRun(context, args.run_id as string));
+        return {
+          ...report,
+          report_path: context.benchmarks.saveReport(report),
+        };
+      },
+    },
+  ];
+}
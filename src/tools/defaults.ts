@@ -0,0 +1,315 @@
+/**
+ * Resolution of per-fragment defaults (tags and transform) from config,
+ * the current project and the preset transforms.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ServerContext } from '../server.js';
+import { signFragment, signTransform } from '../crypto/signing.js';
+import type { Address, CreateFragmentRequest, CreateTransformRequest, EvidenceType, Fragment } from '../gateway/types.js';
+import { NetworkError } from '../gateway/errors.js';
+import type { DeliveryResult } from '../state/outbox.js';
+import { EvidenceTypes } from '../gateway/types.js';
+import { PRESETS } from '../transform/presets.js';
+import { hasFormatParser, validateEncoded } from '../transform/formats/index.js';
+
+/**
+ * Preset registered when no transform is given or configured
+ */
+export const DEFAULT_PRESET = 'baseline';
+
+/**
+ * Confidence used when the caller does not provide one
+ */
+export const DEFAULT_CONFIDENCE = 0.8;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validated per-fragment metadata supplied by the caller
+ */
+export interface FragmentMetadata {
+  confidence: number;
+  evidence_type: EvidenceType;
+  tags: string[];
+}
+
+/**
+ * Validate confidence, evidence_type and tags tool inputs.
+ * Missing values fall back to the given defaults.
+ */
+export function parseFragmentMetadata(
+  input: { confidence?: unknown; evidence_type?: unknown; tags?: unknown },
+  defaults: Partial<FragmentMetadata> = {},
+  label = 'fragment'
+): FragmentMetadata {
+  const confidence = input.confidence ?? defaults.confidence ?? DEFAULT_CONFIDENCE;
+  if (typeof confidence !== 'number' || Number.isNaN(confidence) || confidence < 0 || confidence > 1) {
+    throw new Error(`Invalid confidence for ${label}: must be a number between 0.0 and 1.0`);
+  }
+
+  const evidenceType = input.evidence_type ?? defaults.evidence_type ?? 'unknown';
+  if (typeof evidenceType !== 'string' || !EvidenceTypes.includes(evidenceType as EvidenceType)) {
+    throw new Error(`Invalid evidence_type for ${label}: must be one of ${EvidenceTypes.join(', ')}`);
+  }
+
+  const tags = input.tags ?? defaults.tags ?? [];
+  if (!Array.isArray(tags) || tags.some((t) => typeof t !== 'string' || !UUID_PATTERN.test(t))) {
+    throw new Error(`Invalid tags for ${label}: must be an array of tag UUIDs`);
+  }
+
+  return {
+    confidence,
+    evidence_type: evidenceType as EvidenceType,
+    tags: tags as string[],
+  };
+}
+
+/**
+ * Validate fragment content: a non-empty string that parses in the encoding
+ * of its transform when that encoding has a local parser
+ */
+export function parseFragmentContent(content: unknown, mimeType: string | undefined, label = 'fragment'): string {
+  if (typeof content !== 'string' || content.trim() === '') {
+    throw new Error(`Invalid content for ${label}: must be a non-empty string`);
+  }
+  if (mimeType && hasFormatParser(mimeType)) {
+    const error = validateEncoded(content, mimeType);
+    if (error) {
+      throw new Error(`Invalid content for ${label}: malformed ${mimeType} encoding: ${error}`);
+    }
+  }
+  return content;
+}
+
+/**
+ * MIME type a fragment's content is encoded in, when known
+ */
+export async function fragmentTransformType(
+  context: ServerContext,
+  transform: FragmentTransform
+): Promise<string | undefined> {
+  if (transform.preset) {
+    return PRESETS[transform.preset].transform_to;
+  }
+  return (await context.transformEngine.getTransform(transform.uuid))?.transform_to;
+}
+
+/**
+ * Merge explicit tags with config default_tags and the project's own tags.
+ * Returns deduplicated tag addresses in that priority order.
+ */
+export async function resolveFragmentTags(
+  context: ServerContext,
+  explicitTags: string[] | undefined,
+  projectUUID: string | undefined
+): Promise<Address[]> {
+  const hubHost = context.config.config.hub_host;
+  const uuids: string[] = [...(explicitTags || []), ...(context.config.config.default_tags || [])];
+
+  if (projectUUID) {
+    try {
+      const project = await context.gateway.getProject(projectUUID);
+      uuids.push(...(project.tags || []));
+    } catch {
+      // Project tags are best-effort; the fragment is still valid without them
+    }
+  }
+
+  return [...new Set(uuids.filter(Boolean))].map((uuid) =>
+    context.addressCache.get(uuid, 'TAG', hubHost)
+  );
+}
+
+/**
+ * Add extra tag UUIDs to already resolved tag addresses, without duplicates
+ */
+export function mergeFragmentTags(context: ServerContext, base: Address[], extra: string[]): Address[] {
+  const hubHost = context.config.config.hub_host;
+  const seen = new Set(base.map((t) => t.entity));
+  const merged = [...base];
+  for (const uuid of extra) {
+    if (!seen.has(uuid)) {
+      seen.add(uuid);
+      merged.push(context.addressCache.get(uuid, 'TAG', hubHost));
+    }
+  }
+  return merged;
+}
+
+/**
+ * Transform of a new fragment. When the preset transform cannot be registered
+ * because the gateway is unreachable, `preset` names it and `uuid` is a
+ * placeholder; the fragment is queued and the outbox registers the transform
+ * and re-signs the fragment on replay.
+ */
+export interface FragmentTransform {
+  uuid: string;
+  auto_registered: boolean;
+  preset?: string;
+}
+
+/**
+ * Resolve the transform for a new fragment: explicit argument, then the
+ * configured default_transform, then the preset transform registered for
+ * this gateway (cached in the persistent state, never written to config).
+ */
+export async function resolveFragmentTransform(
+  context: ServerContext,
+  explicitTransform: string | undefined
+): Promise<FragmentTransform> {
+  if (explicitTransform) {
+    return { uuid: explicitTransform, auto_registered: false };
+  }
+
+  const configured = context.config.config.default_transform;
+  if (configured) {
+    return { uuid: configured, auto_registered: false };
+  }
+
+  try {
+    const { uuid, registered } = await ensurePresetTransform(context, DEFAULT_PRESET);
+    return { uuid, auto_registered: registered };
+  } catch (error) {
+    if (!(error instanceof NetworkError)) {
+      throw error;
+    }
+    return { uuid: `preset:${DEFAULT_PRESET}`, auto_registered: false, preset: DEFAULT_PRESET };
+  }
+}
+
+/**
+ * Fragment view of a write still waiting in the outbox
+ */
+export function pendingFragment(request: CreateFragmentRequest): Fragment {
+  return {
+    ...request,
+    tags: request.tags || [],
+    version: 0,
+    confidence: request.confidence ?? DEFAULT_CONFIDENCE,
+    evidence_type: request.evidence_type ?? 'unknown',
+  };
+}
+
+/**
+ * Deliver a signed fragment or queue it. A fragment waiting for its preset
+ * transform is queued without trying the gateway.
+ */
+export async function deliverFragment(
+  context: ServerContext,
+  request: CreateFragmentRequest,
+  transform: FragmentTransform,
+  projectUUID: string | undefined
+): Promise<DeliveryResult<Fragment>> {
+  if (transform.preset) {
+    return { queued: true, entry: context.outbox.enqueue('fragment', request, projectUUID, transform.preset) };
+  }
+  return context.outbox.deliverOrQueue(
+    context.gateway, 'fragment', request, projectUUID,
+    () => context.gateway.createFragment(request, projectUUID)
+  );
+}
+
+/**
+ * Register the preset transform of a queued fragment and re-sign the fragment
+ * with it. Used by the outbox on replay.
+ */
+export async function resolveQueuedPreset(
+  context: ServerContext,
+  presetKey: string,
+  request: CreateFragmentRequest
+): Promise<CreateFragmentRequest> {
+  const { uuid } = await ensurePresetTransform(context, presetKey);
+  const { signature: _signature, ...fragmentData } = request;
+  const resolved = {
+    ...fragmentData,
+    transform: context.addressCache.get(uuid, 'TRANSFORMATION', context.config.config.hub_host),
+  };
+  return { ...resolved, signature: await signFragment(resolved, context.keyManager.getPrivateKey()) };
+}
+
+// In-flight registrations by gateway, agent and preset, so concurrent calls
+// create a single Transform without one agent awaiting another's signature
+const pendingRegistrations = new Map<string, Promise<string>>();
+
+/**
+ * Get the gateway Transform for a preset, signing and creating it on first use.
+ * UUIDs are cached per gateway in the persistent state.
+ */
+export async function ensurePresetTransform(
+  context: ServerContext,
+  presetKey: string
+): Promise<{ uuid: string; registered: boolean }> {
+  if (!PRESETS[presetKey]) {
+    throw new Error(`Unknown preset: ${presetKey}`);
+  }
+
+  const gatewayUrl = context.config.config.gateway_url;
+  const cached = context.state.getPresetTransform(presetKey, gatewayUrl);
+  if (cached) {
+    return { uuid: cached, registered: false };
+  }
+
+  const key = `${gatewayUrl}#${context.config.config.agent_uuid ?? ''}#${presetKey}`;
+  let pending = pendingRegistrations.get(key);
+  if (!pending) {
+    pending = registerPresetTransform(context, presetKey)
+      .then((uuid) => {
+        context.state.setPresetTransform(presetKey, uuid, gatewayUrl);
+        return uuid;
+      })
+      .finally(() => pendingRegistrations.delete(key));
+    pendingRegistrations.set(key, pending);
+  }
+
+  return { uuid: await pending, registered: true };
+}
+
+/**
+ * Sign and create a gateway Transform for a preset
+ */
+export async function registerPresetTransform(context: ServerContext, presetKey: string): Promise<string> {
+  const preset = PRESETS[presetKey];
+  if (!preset) {
+    throw new Error(`Unknown preset: ${presetKey}`);
+  }
+
+  const privateKey = context.keyManager.getPrivateKey();
+  const agentUuid = context.config.config.agent_uuid;
+  const hubHost = context.config.config.hub_host;
+
+  if (!agentUuid) {
+    throw new Error('No agent configured. Run wisdom_generate_keypair first.');
+  }
+
+  const transformData: Omit<CreateTransformRequest, 'signature'> = {
+    uuid: uuidv4(),
+    name: preset.name,
+    description: preset.description,
+    transform_to: preset.transform_to,
+    transform_from: preset.transform_from,
+    additional_data: JSON.stringify({
+      preset: presetKey,
+      encode_instructions: preset.encode_instructions,
+      decode_instructions: preset.decode_instructions,
+    }),
+    tags: [],
+    agent: context.addressCache.get(agentUuid, 'AGENT', hubHost),
+  };
+
+  const signature = await signTransform(transformData, privateKey);
+  const transform = await context.gateway.createTransform({
+    ...transformData,
+    signature,
+  }, context.config.config.current_project);
+
+  if (transform.agent) {
+    context.addressCache.put(transform.uuid, {
+      server_port: transform.agent.server_port,
+      domain: 'TRANSFORMATION',
+      entity: transform.uuid,
+    });
+  }
+
+  return transform.uuid;
+}
@@ -1,8 +1,25 @@
 import { v4 as uuidv4 } from 'uuid';
 import type { ToolDefinition } from '../server.js';
-import { signFragment } from '../crypto/signing.js';
-import type { CreateFragmentRequest, SearchFragmentsRequest, Fragment } from '../gateway/types.js';
-import { addressToString } from '../gateway/types.js';
+import { signFragment, signRelation, signTrustVote } from '../crypto/signing.js';
+import type {
+  CreateFragmentRequest,
+  CreateRelationRequest,
+  CreateTrustVoteRequest,
+  SearchFragmentsRequest,
+  Fragment,
+} from '../gateway/types.js';
+import { addressToString, EvidenceTypes, FragmentStates } from '../gateway/types.js';
+import { creatorSignedSupersedes, getFragmentHistory, getVersionLinks } from '../gateway/graph.js';
+import {
+  deliverFragment,
+  fragmentTransformType,
+  mergeFragmentTags,
+  parseFragmentContent,
+  parseFragmentMetadata,
+  pendingFragment,
+  resolveFragmentTags,
+  resolveFragmentTransform,
+} from './defaults.js';
 
 /** Cache fragment address from gateway response */
 function cacheFragment(f: Fragment, context: { addressCache: { put: (uuid: string, addr: any) => void } }): void {
@@ -29,9 +46,23 @@ export function createFragmentTools(): ToolDefinition[] {
               type: 'string',
               description: 'Project UUID (uses current project if not specified)',
             },
+            confidence: {
+              type: 'number',
+              description: 'Your confidence in this knowledge, 0.0 to 1.0 (default: 0.8)',
+            },
+            evidence_type: {
+              type: 'string',
+              enum: [...EvidenceTypes],
+              description: 'How the content was derived: empirical (observed/tested), logical (derived), consensus, speculation, unknown (default)',
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Tag UUIDs, merged with default_tags and project tags',
+            },
             source_transform: {
               type: 'string',
-              description: 'Transform UUID if created via transformation',
+              description: 'Transform UUID if created via transformation (defaults to the configured default_transform, or an auto-registered baseline preset)',
             },
           },
           required: ['content'],
@@ -47,35 +78,54 @@ export function createFragmentTools(): ToolDefinition[] {
         }
 
         const uuid = uuidv4();
-        const sourceTransform = args.source_transform as string | undefined;
         const projectUUID = (args.project as string) || context.config.config.current_project;
+        const metadata = parseFragmentMetadata(args);
 
-        if (!sourceTransform) {
-          throw new Error('source_transform is required. Every fragment must reference a transform that produced it. Create a transform first with wisdom_create_transform.');
-        }
+        // Every fragment must reference a transform; fall back to defaults
+        const transform = await resolveFragmentTransform(context, args.source_transform as string | undefined);
+        const content = parseFragmentContent(args.content, await fragmentTransformType(context, transform));
+        const tags = await resolveFragmentTags(context, metadata.tags, projectUUID);
 
         const creatorAddr = context.addressCache.get(agentUuid, 'AGENT', hubHost);
-        const transformAddr = context.addressCache.get(sourceTransform, 'TRANSFORMATION', hubHost);
+        const transformAddr = context.addressCache.get(transform.uuid, 'TRANSFORMATION', hubHost);
 
         const fragmentData: Omit<CreateFragmentRequest, 'signature'> = {
           uuid,
-          content: args.content as string,
+          content,
           creator: creatorAddr,
           when: new Date().toISOString(),
-          tags: [],
+          tags,
           transform: transformAddr,
-          confidence: 0.8,
-          evidence_type: 'unknown',
+          confidence: metadata.confidence,
+          evidence_type: metadata.evidence_type,
         };
 
         const signature = await signFragment(fragmentData, privateKey);
-        const fragment = await context.gateway.createFragment({
-          ...fragmentData,
-          signature,
-        }, projectUUID);
+        const request: CreateFragmentRequest = { ...fragmentData, signature };
+        const delivery = await deliverFragment(context, request, transform, projectUUID);
+
+        if (delivery.queued) {
+          context.state.addRecentFragment(uuid);
+          // Index the pending fragment so it is found offline
+          context.searchIndex.addFragments([pendingFragment(request)], projectUUID);
+          return {
+            uuid,
+            content: fragmentData.content,
+            creator: addressToString(creatorAddr),
+            when: fragmentData.when,
+            confidence: metadata.confidence,
+            evidence_type: metadata.evidence_type,
+            tags: tags.map(addressToString),
+            transform: transform.uuid,
+            ...context.outbox.queuedInfo(true),
+          };
+        }
+        const fragment = delivery.entity;
 
         // Cache the returned address
         cacheFragment(fragment, context);
+        context.state.addRecentFragment(fragment.uuid);
+        context.searchIndex.addFragments([fragment], projectUUID);
 
         return {
           uuid: fragment.uuid,
@@ -83,6 +133,11 @@ export function createFragmentTools(): ToolDefinition[] {
           creator: addressToString(fragment.creator),
           when: fragment.when,
           state: fragment.state,
+          confidence: fragment.confidence ?? metadata.confidence,
+          evidence_type: fragment.evidence_type ?? metadata.evidence_type,
+          tags: tags.map(addressToString),
+          transform: transform.uuid,
+          transform_auto_registered: transform.auto_registered || undefined,
         };
       },
     },
@@ -105,7 +160,12 @@ export function createFragmentTools(): ToolDefinition[] {
       handler: async (args, context) => {
         const fragment = await context.gateway.getFragment(args.uuid as string);
         cacheFragment(fragment, context);
-        return fragment;
+        context.state.addRecentFragment(fragment.uuid);
+        context.searchIndex.addFragments([fragment]);
+        return {
+          ...fragment,
+          verified: await context.verifier.verifyFragment(fragment),
+        };
       },
     },
 
@@ -135,13 +195,17 @@ export function createFragmentTools(): ToolDefinition[] {
             },
             state: {
               type: 'string',
-              enum: ['proposed', 'verified', 'contested'],
+              enum: [...FragmentStates],
               description: 'Filter by fragment state',
             },
             limit: {
               type: 'number',
               description: 'Maximum results (default: 20)',
             },
+            hide_superseded: {
+              type: 'boolean',
+              description: 'Hide fragments that their creator has superseded with a newer version (default: false)',
+            },
           },
           required: [],
         },
@@ -157,7 +221,18 @@ export function createFragmentTools(): ToolDefinition[] {
         };
 
         const result = await context.gateway.searchFragments(params);
-        const items = result.items || [];
+        context.searchIndex.addFragments(result.items || [], params.project);
+        const annotated = await context.verifier.annotateFragments(result.items || []);
+        const verified = context.config.config.drop_unverified
+          ? annotated.filter((f) => f.verified === true)
+          : annotated;
+
+        let items = verified;
+        if (args.hide_superseded === true) {
+          const filter = creatorSignedSupersedes(context.gateway, context.verifier);
+          const links = await Promise.all(verified.map((f) => getVersionLinks(context.gateway, f.uuid, filter)));
+          items = verified.filter((_, i) => links[i].successors.length === 0);
+        }
         items.forEach((f) => cacheFragment(f, context));
         return {
           fragments: items.map((f) => ({
@@ -166,8 +241,11 @@ export function createFragmentTools(): ToolDefinition[] {
             creator: addressToString(f.creator),
             state: f.state,
             trust_score: f.trust_summary?.score ?? 0,
+            verified: f.verified,
           })),
           count: items.length,
+          dropped_unverified: annotated.length - verified.length,
+          hidden_superseded: verified.length - items.length,
           next_cursor: result.next_cursor,
         };
       },
@@ -208,7 +286,8 @@ export function createFragmentTools(): ToolDefinition[] {
           result = await context.gateway.listFragments(limit, cursor);
         }
 
-        const items = result.items || [];
+        context.searchIndex.addFragments(result.items || [], project);
+        const items = await context.verifier.annotateFragments(result.items || []);
         items.forEach((f) => cacheFragment(f, context));
         return {
           fragments: items.map((f) => ({
@@ -217,11 +296,243 @@ export function createFragmentTools(): ToolDefinition[] {
             creator: addressToString(f.creator),
             state: f.state,
             when: f.when,
+            verified: f.verified,
           })),
           count: items.length,
           next_cursor: result.next_cursor,
         };
       },
     },
+
+    {
+      tool: {
+        name: 'wisdom_update_fragment',
+        description:
+          'Revise one of your own fragments. Creates a new signed fragment, links it to the old one with a SUPERSEDES relation, and optionally retracts the old fragment.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fragment: {
+              type: 'string',
+              description: 'UUID of the fragment to revise',
+            },
+            content: {
+              type: 'string',
+              description: 'Revised content',
+            },
+            reason: {
+              type: 'string',
+              description: 'Why the fragment was revised (stored on the SUPERSEDES relation)',
+            },
+            confidence: {
+              type: 'number',
+              description: 'Confidence in the revision, 0.0 to 1.0 (default: the old fragment\'s confidence)',
+            },
+            evidence_type: {
+              type: 'string',
+              enum: [...EvidenceTypes],
+              description: 'How the revision was derived (default: the old fragment\'s evidence type)',
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Additional tag UUIDs (the old fragment\'s tags are kept)',
+            },
+            retract_old: {
+              type: 'boolean',
+              description: 'Cast a retract vote on the old fragment (default: false)',
+            },
+            project: {
+              type: 'string',
+              description: 'Project UUID (uses current project if not specified)',
+            },
+          },
+          required: ['fragment', 'content'],
+        },
+      },
+      handler: async (args, context) => {
+        const privateKey = context.keyManager.getPrivateKey();
+        const agentUuid = context.config.config.agent_uuid;
+        const hubHost = context.config.config.hub_host;
+
+        if (!agentUuid) {
+          throw new Error('No agent configured. Run wisdom_generate_keypair first.');
+        }
+
+        const oldUuid = args.fragment as string;
+        const old = await context.gateway.getFragment(oldUuid);
+        cacheFragment(old, context);
+
+        // Only the creator may supersede a fragment; others are not honoured
+        if (old.creator?.entity !== agentUuid) {
+          throw new Error(
+            `Fragment ${oldUuid} was created by another agent; only its creator can supersede it. ` +
+            'Create a new fragment and link it with EXTENDS or CONTRADICTS instead.'
+          );
+        }
+
+        const projectUUID = (args.project as string) || context.config.config.current_project;
+        const metadata = parseFragmentMetadata(args, {
+          confidence: old.confidence,
+          evidence_type: old.evidence_type,
+        });
+
+        // The revision keeps the transform and tags of the old fragment
+        const transform = old.transform?.entity
+          ? { uuid: old.transform.entity, auto_registered: false }
+          : await resolveFragmentTransform(context, undefined);
+        const content = parseFragmentContent(args.content, await fragmentTransformType(context, transform));
+        const creatorAddr = context.addressCache.get(agentUuid, 'AGENT', hubHost);
+        const newUuid = uuidv4();
+        const now = new Date().toISOString();
+
+        const fragmentData: Omit<CreateFragmentRequest, 'signature'> = {
+          uuid: newUuid,
+          content,
+          creator: creatorAddr,
+          when: now,
+          tags: mergeFragmentTags(context, old.tags || [], metadata.tags),
+          transform: old.transform?.entity
+            ? old.transform
+            : context.addressCache.get(transform.uuid, 'TRANSFORMATION', hubHost),
+          confidence: metadata.confidence,
+          evidence_type: metadata.evidence_type,
+        };
+        const fragmentRequest: CreateFragmentRequest = {
+          ...fragmentData,
+          signature: await signFragment(fragmentData, privateKey),
+        };
+        const fragmentDelivery = await deliverFragment(context, fragmentRequest, transform, projectUUID);
+        if (!fragmentDelivery.queued) {
+          cacheFragment(fragmentDelivery.entity, context);
+        }
+        context.state.addRecentFragment(newUuid);
+        context.searchIndex.addFragments([
+          fragmentDelivery.queued ? pendingFragment(fragmentRequest) : fragmentDelivery.entity,
+        ], projectUUID);
+
+        // Link new -> old
+        const relationData: Omit<CreateRelationRequest, 'signature'> = {
+          uuid: uuidv4(),
+          from: context.addressCache.get(newUuid, 'FRAGMENT', hubHost),
+          to: context.addressCache.get(oldUuid, 'FRAGMENT', hubHost),
+          by: creatorAddr,
+          type: 'SUPERSEDES',
+          content: (args.reason as string) || 'Revised version',
+          creator: creatorAddr,
+          when: now,
+        };
+        const relationRequest: CreateRelationRequest = {
+          ...relationData,
+          signature: await signRelation(relationData, privateKey),
+        };
+        const relationDelivery = await context.outbox.deliverOrQueue(
+          context.gateway, 'relation', relationRequest, projectUUID,
+          () => context.gateway.createRelation(relationRequest, projectUUID)
+        );
+
+        const result: Record<string, unknown> = {
+          uuid: newUuid,
+          supersedes: oldUuid,
+          relation_uuid: relationRequest.uuid,
+          confidence: metadata.confidence,
+          evidence_type: metadata.evidence_type,
+        };
+
+        if (args.retract_old === true) {
+          const voteData: Omit<CreateTrustVoteRequest, 'signature'> = {
+            uuid: uuidv4(),
+            voter: agentUuid,
+            target: oldUuid,
+            vote_type: 'retract',
+            comment: `Superseded by ${newUuid}`,
+          };
+          const voteRequest: CreateTrustVoteRequest = {
+            ...voteData,
+            signature: await signTrustVote(voteData, privateKey),
+          };
+          const voteDelivery = await context.outbox.deliverOrQueue(
+            context.gateway, 'trust_vote', voteRequest, undefined,
+            () => context.gateway.createTrustVote(voteRequest)
+          );
+          result.retract_vote_uuid = voteRequest.uuid;
+          result.retract_vote_queued = voteDelivery.queued;
+        }
+
+        const queued = fragmentDelivery.queued || relationDelivery.queued;
+        Object.assign(result, context.outbox.queuedInfo(queued));
+        result.message = `Fragment ${oldUuid} superseded by ${newUuid}`;
+        return result;
+      },
+    },
+
+    {
+      tool: {
+        name: 'wisdom_get_fragment_history',
+        description:
+          'Get the version history of a fragment by walking SUPERSEDES relations to older and newer versions',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fragment: {
+              type: 'string',
+              description: 'Fragment UUID (any version in the chain)',
+            },
+            max_depth: {
+              type: 'number',
+              description: 'Maximum versions to walk in each direction (default: 20)',
+            },
+            include_content: {
+              type: 'boolean',
+              description: 'Fetch each version to include its content (default: true)',
+            },
+          },
+          required: ['fragment'],
+        },
+      },
+      handler: async (args, context) => {
+        const fragmentUuid = args.fragment as string;
+        const includeContent = args.include_content !== false;
+        const history = await getFragmentHistory(
+          context.gateway,
+          fragmentUuid,
+          (args.max_depth as number) || 20,
+          creatorSignedSupersedes(context.gateway, context.verifier)
+        );
+
+        const versions = await Promise.all(
+          history.chain.map(async (uuid, index) => {
+            const entry: Record<string, unknown> = {
+              position: index + 1,
+              uuid,
+              is_requested: uuid === fragmentUuid,
+              is_latest: uuid === history.latest,
+            };
+            if (includeContent) {
+              try {
+                const f = await context.gateway.getFragment(uuid);
+                entry.content = f.content.substring(0, 200) + (f.content.length > 200 ? '...' : '');
+                entry.when = f.when;
+                entry.confidence = f.confidence;
+                entry.creator = addressToString(f.creator);
+              } catch {
+                entry.content = null;
+              }
+            }
+            return entry;
+          })
+        );
+
+        return {
+          fragment: fragmentUuid,
+          latest: history.latest,
+          is_latest: history.latest === fragmentUuid,
+          version_count: history.chain.length,
+          versions,
+          branches: history.branches,
+          truncated: history.truncated,
+        };
+      },
+    },
   ];
 }
@@ -6,3 +6,5 @@ export * from './transforms.js';
 export * from './projects.js';
 export * from './agents.js';
 export * from './validity.js';
+export * from './state.js';
+export * from './benchmark.js';
@@ -1,5 +1,6 @@
 import type { ToolDefinition } from '../server.js';
 import type { CreateProjectRequest, ProjectVisibility } from '../gateway/types.js';
+import { ProjectVisibilities } from '../gateway/types.js';
 
 export function createProjectTools(): ToolDefinition[] {
   return [
@@ -31,6 +32,7 @@ export function createProjectTools(): ToolDefinition[] {
 
         // Update config
         context.updateConfig({ current_project: projectUuid }, persist);
+        context.state.setCurrentProject(projectUuid);
 
         return {
           message: `Current project set to: ${project.name}`,
@@ -99,7 +101,7 @@ export function createProjectTools(): ToolDefinition[] {
             },
             visibility: {
               type: 'string',
-              enum: ['public', 'private'],
+              enum: [...ProjectVisibilities],
               description: 'Project visibility (default: public). Public projects sync to hub.',
             },
             set_as_current: {
@@ -131,6 +133,9 @@ export function createProjectTools(): ToolDefinition[] {
         const setAsCurrent = args.set_as_current !== false;
         if (setAsCurrent) {
           context.updateConfig({ current_project: project.id }, true);
+          context.state.setCurrentProject(project.id);
+        } else {
+          context.state.addRecentProject(project.id);
         }
 
         return {
@@ -220,7 +225,7 @@ export function createProjectTools(): ToolDefinition[] {
             },
             visibility: {
               type: 'string',
-              enum: ['public', 'private'],
+              enum: [...ProjectVisibilities],
               description: 'New visibility (public syncs to hub, private stays local)',
             },
           },
@@ -271,6 +276,7 @@ export function createProjectTools(): ToolDefinition[] {
         const persist = args.persist !== false;
 
         context.updateConfig({ current_project: undefined }, persist);
+        context.state.setCurrentProject(undefined);
 
         return {
           message: 'Current project cleared',
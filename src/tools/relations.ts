@@ -2,7 +2,8 @@ import { v4 as uuidv4 } from 'uuid';
 import type { ToolDefinition } from '../server.js';
 import { signRelation } from '../crypto/signing.js';
 import type { CreateRelationRequest, RelationType } from '../gateway/types.js';
-import { addressToString } from '../gateway/types.js';
+import { addressToString, RelationTypes } from '../gateway/types.js';
+import { getAllRelationsForEntity } from '../gateway/graph.js';
 
 export function createRelationTools(): ToolDefinition[] {
   return [
@@ -23,19 +24,7 @@ export function createRelationTools(): ToolDefinition[] {
             },
             relation_type: {
               type: 'string',
-              enum: [
-                'TRUST',
-                'SUPPORTS',
-                'CONTRADICTS',
-                'EXTENDS',
-                'SUPERSEDES',
-                'DERIVED_FROM',
-                'RELATED_TO',
-                'EXAMPLE_OF',
-                'SPECIALIZES',
-                'CLARIFIES',
-                'GENERALIZES',
-              ],
+              enum: [...RelationTypes],
               description: 'Type of relation',
             },
             content: {
@@ -74,10 +63,12 @@ export function createRelationTools(): ToolDefinition[] {
 
         const signature = await signRelation(relationData, privateKey);
         const projectUUID = context.config.config.current_project;
-        const relation = await context.gateway.createRelation({
-          ...relationData,
-          signature,
-        }, projectUUID);
+        const request: CreateRelationRequest = { ...relationData, signature };
+        const delivery = await context.outbox.deliverOrQueue(
+          context.gateway, 'relation', request, projectUUID,
+          () => context.gateway.createRelation(request, projectUUID)
+        );
+        const relation = delivery.queued ? request : delivery.entity;
 
         return {
           uuid: relation.uuid,
@@ -86,6 +77,7 @@ export function createRelationTools(): ToolDefinition[] {
           type: relation.type,
           content: relation.content,
           when: relation.when,
+          ...context.outbox.queuedInfo(delivery.queued),
         };
       },
     },
@@ -111,11 +103,15 @@ export function createRelationTools(): ToolDefinition[] {
         },
       },
       handler: async (args, context) => {
-        const relationsResult = await context.gateway.getRelationsForEntity(
+        const collected = await getAllRelationsForEntity(
+          context.gateway,
           args.entity as string,
           args.direction as 'source' | 'target' | 'both' | undefined
         );
-        const relations = relationsResult || [];
+        const annotated = await context.verifier.annotateRelations(collected.relations);
+        const relations = context.config.config.drop_unverified
+          ? annotated.filter((r) => r.verified === true)
+          : annotated;
 
         return {
           relations: relations.map((r) => ({
@@ -126,8 +122,10 @@ export function createRelationTools(): ToolDefinition[] {
             content: r.content,
             by: addressToString(r.by),
             confidence: r.confidence,
+            verified: r.verified,
           })),
           count: relations.length,
+          truncated: collected.truncated,
         };
       },
     },
@@ -177,12 +175,18 @@ export function createRelationTools(): ToolDefinition[] {
         // Convert type name to lowercase tag name (e.g., "FACT" -> "fact")
         const typeName = (args.fragment_type as string).toLowerCase();
 
-        // Look up the TYPE tag by name
-        const typeTag = await context.gateway.getTagByName(typeName);
+        // Look up the TYPE tag by name (cached across sessions)
+        const cached = context.state.getCachedTag(typeName);
+        let typeTag = cached ? { uuid: cached.uuid, category: cached.category } : null;
         if (!typeTag) {
-          throw new Error(
-            `Type tag '${typeName}' not found. Create it first with: wisdom_create_tag --name ${typeName} --category TYPE`
-          );
+          const tag = await context.gateway.getTagByName(typeName);
+          if (!tag) {
+            throw new Error(
+              `Type tag '${typeName}' not found. Create it first with: wisdom_create_tag --name ${typeName} --category TYPE`
+            );
+          }
+          context.state.cacheTag(tag.name, tag.uuid, tag.category);
+          typeTag = { uuid: tag.uuid, category: tag.category };
         }
         if (typeTag.category !== 'TYPE') {
           throw new Error(
@@ -210,10 +214,12 @@ export function createRelationTools(): ToolDefinition[] {
 
         const signature = await signRelation(relationData, privateKey);
         const projectUUID = context.config.config.current_project;
-        const relation = await context.gateway.createRelation({
-          ...relationData,
-          signature,
-        }, projectUUID);
+        const request: CreateRelationRequest = { ...relationData, signature };
+        const delivery = await context.outbox.deliverOrQueue(
+          context.gateway, 'relation', request, projectUUID,
+          () => context.gateway.createRelation(request, projectUUID)
+        );
+        const relation = delivery.queued ? request : delivery.entity;
 
         return {
           uuid: relation.uuid,
@@ -222,6 +228,7 @@ export function createRelationTools(): ToolDefinition[] {
           type_tag: typeName,
           type_tag_uuid: typeTag.uuid,
           message: `Fragment typed as ${args.fragment_type} via RELATED_TO relation to TYPE tag`,
+          ...context.outbox.queuedInfo(delivery.queued),
         };
       },
     },
@@ -273,16 +280,19 @@ export function createRelationTools(): ToolDefinition[] {
 
         const signature = await signRelation(relationData, privateKey);
         const projectUUID = context.config.config.current_project;
-        const relation = await context.gateway.createRelation({
-          ...relationData,
-          signature,
-        }, projectUUID);
+        const request: CreateRelationRequest = { ...relationData, signature };
+        const delivery = await context.outbox.deliverOrQueue(
+          context.gateway, 'relation', request, projectUUID,
+          () => context.gateway.createRelation(request, projectUUID)
+        );
+        const relation = delivery.queued ? request : delivery.entity;
 
         return {
           uuid: relation.uuid,
           question: args.question,
           answer: args.answer,
           message: 'Answer linked to question via SUPPORTS relation',
+          ...context.outbox.queuedInfo(delivery.queued),
         };
       },
     },
@@ -0,0 +1,123 @@
+import type { ToolDefinition } from '../server.js';
+
+type ClearScope = 'all' | 'tag_cache' | 'preset_transforms' | 'preset_metrics' | 'search_index';
+
+export function createStateTools(): ToolDefinition[] {
+  return [
+    {
+      tool: {
+        name: 'wisdom_recent',
+        description:
+          'Show recently created or viewed fragments and recently used projects from previous sessions, so work can continue where the last session left off.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            include_details: {
+              type: 'boolean',
+              description: 'Fetch fragment content and project names from the gateway (default: true)',
+            },
+          },
+          required: [],
+        },
+      },
+      handler: async (args, context) => {
+        const includeDetails = args.include_details !== false;
+        const fragmentUuids = context.state.getRecentFragments();
+        const projectUuids = context.state.getRecentProjects();
+
+        const fragments = await Promise.all(
+          fragmentUuids.map(async (uuid) => {
+            if (!includeDetails) return { uuid };
+            try {
+              const f = await context.gateway.getFragment(uuid);
+              return {
+                uuid,
+                content: f.content.substring(0, 200) + (f.content.length > 200 ? '...' : ''),
+                state: f.state,
+                when: f.when,
+              };
+            } catch {
+              return { uuid, content: null, note: 'Not available on the gateway (possibly still queued)' };
+            }
+          })
+        );
+
+        const projects = await Promise.all(
+          projectUuids.map(async (id) => {
+            if (!includeDetails) return { id };
+            try {
+              const p = await context.gateway.getProject(id);
+              return { id, name: p.name, description: p.description };
+            } catch {
+              return { id, name: null };
+            }
+          })
+        );
+
+        return {
+          current_project: context.config.config.current_project || context.state.getCurrentProject() || null,
+          recent_fragments: fragments,
+          recent_projects: projects,
+          cached_tags: Object.keys(context.state.getState().tag_cache || {}).length,
+          indexed_fragments: context.searchIndex.size(),
+          last_activity: context.state.getLastActivity() || null,
+        };
+      },
+    },
+
+    {
+      tool: {
+        name: 'wisdom_clear_state',
+        description: 'Clear persistent session state (recent items, tag cache, preset transforms and preset metrics in .wisdom/state.json) and the local search index, or one of them',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            scope: {
+              type: 'string',
+              enum: ['all', 'tag_cache', 'preset_transforms', 'preset_metrics', 'search_index'],
+              description: 'What to clear (default: all, which includes the search index)',
+            },
+          },
+          required: [],
+        },
+      },
+      handler: async (args, context) => {
+        const messages: Record<ClearScope, string> = {
+          all: 'Session state and local search index cleared',
+          tag_cache: 'Tag cache cleared',
+          preset_transforms: 'Preset transform registrations cleared',
+          preset_metrics: 'Observed preset metrics cleared',
+          search_index: 'Local search index cleared',
+        };
+        const scope = (args.scope ?? 'all') as ClearScope;
+        if (typeof scope !== 'string' || !Object.keys(messages).includes(scope)) {
+          throw new Error(`Invalid scope: must be one of ${Object.keys(messages).join(', ')}`);
+        }
+
+        switch (scope) {
+          case 'tag_cache':
+            context.state.clearTagCache();
+            break;
+          case 'preset_transforms':
+            context.state.clearPresetTransforms();
+            break;
+          case 'preset_metrics':
+            context.state.clearPresetMetrics();
+            break;
+          case 'search_index':
+            context.searchIndex.clear();
+            break;
+          case 'all':
+            context.state.clearState();
+            context.searchIndex.clear();
+            break;
+        }
+
+        return {
+          cleared: scope,
+          message: messages[scope],
+        };
+      },
+    },
+  ];
+}
@@ -2,6 +2,7 @@ import { v4 as uuidv4 } from 'uuid';
 import type { ToolDefinition } from '../server.js';
 import { signTag, signRelation } from '../crypto/signing.js';
 import type { CreateTagRequest, CreateRelationRequest, TagCategory } from '../gateway/types.js';
+import { TagCategories } from '../gateway/types.js';
 
 export function createTagTools(): ToolDefinition[] {
   return [
@@ -18,19 +19,7 @@ export function createTagTools(): ToolDefinition[] {
             },
             category: {
               type: 'string',
-              enum: [
-                'PLATFORM',
-                'LANGUAGE',
-                'FRAMEWORK',
-                'LIBRARY',
-                'VERSION',
-                'DOMAIN',
-                'TYPE',
-                'ENVIRONMENT',
-                'ARCHITECTURE',
-                'COUNTRY',
-                'FIELD',
-              ],
+              enum: [...TagCategories],
               description: 'Tag category',
             },
             description: {
@@ -61,16 +50,20 @@ export function createTagTools(): ToolDefinition[] {
         };
 
         const signature = await signTag(tagData, privateKey);
-        const tag = await context.gateway.createTag({
-          ...tagData,
-          signature,
-        });
+        const request: CreateTagRequest = { ...tagData, signature };
+        const delivery = await context.outbox.deliverOrQueue(
+          context.gateway, 'tag', request, undefined,
+          () => context.gateway.createTag(request)
+        );
+        const tag = delivery.queued ? request : delivery.entity;
+        context.state.cacheTag(tag.name, tag.uuid, tag.category);
 
         return {
           uuid: tag.uuid,
           name: tag.name,
           category: tag.category,
           content: tag.content,
+          ...context.outbox.queuedInfo(delivery.queued),
         };
       },
     },
@@ -97,7 +90,7 @@ export function createTagTools(): ToolDefinition[] {
       handler: async (args, context) => {
         if (args.uuid) {
           const tag = await context.gateway.getTag(args.uuid as string);
-          return tag;
+          return { ...tag, verified: await context.verifier.verifyTag(tag) };
         }
 
         if (args.name) {
@@ -105,7 +98,7 @@ export function createTagTools(): ToolDefinition[] {
           if (!tag) {
             throw new Error(`Tag not found: ${args.name}`);
           }
-          return tag;
+          return { ...tag, verified: await context.verifier.verifyTag(tag) };
         }
 
         throw new Error('Either uuid or name must be provided');
@@ -142,13 +135,14 @@ export function createTagTools(): ToolDefinition[] {
           args.cursor as string | undefined
         );
 
-        const items = result.items || [];
+        const items = await context.verifier.annotateTags(result.items || []);
         return {
           tags: items.map((t) => ({
             uuid: t.uuid,
             name: t.name,
             category: t.category,
             content: t.content,
+            verified: t.verified,
           })),
           count: items.length,
           next_cursor: result.next_cursor,
@@ -187,11 +181,17 @@ export function createTagTools(): ToolDefinition[] {
         // Resolve tag if name is provided
         let tagUuid = args.tag as string;
         if (!tagUuid.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
-          const tag = await context.gateway.getTagByName(tagUuid);
-          if (!tag) {
-            throw new Error(`Tag not found: ${tagUuid}`);
+          const cached = context.state.getCachedTag(tagUuid);
+          if (cached) {
+            tagUuid = cached.uuid;
+          } else {
+            const tag = await context.gateway.getTagByName(tagUuid);
+            if (!tag) {
+              throw new Error(`Tag not found: ${tagUuid}`);
+            }
+            context.state.cacheTag(tag.name, tag.uuid, tag.category);
+            tagUuid = tag.uuid;
           }
-          tagUuid = tag.uuid;
         }
 
         const uuid = uuidv4();
@@ -213,16 +213,19 @@ export function createTagTools(): ToolDefinition[] {
 
         const signature = await signRelation(relationData, privateKey);
         const projectUUID = context.config.config.current_project;
-        const relation = await context.gateway.createRelation({
-          ...relationData,
-          signature,
-        }, projectUUID);
+        const request: CreateRelationRequest = { ...relationData, signature };
+        const delivery = await context.outbox.deliverOrQueue(
+          context.gateway, 'relation', request, projectUUID,
+          () => context.gateway.createRelation(request, projectUUID)
+        );
+        const relation = delivery.queued ? request : delivery.entity;
 
         return {
           uuid: relation.uuid,
           fragment: args.fragment,
           tag: tagUuid,
           message: 'Tag applied to fragment',
+          ...context.outbox.queuedInfo(delivery.queued),
         };
       },
     },
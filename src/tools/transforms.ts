@@ -2,7 +2,25 @@ import { v4 as uuidv4 } from 'uuid';
 import type { ToolDefinition } from '../server.js';
 import { signTransform, signFragment } from '../crypto/signing.js';
 import type { CreateTransformRequest, CreateFragmentRequest } from '../gateway/types.js';
-import { PRESETS, selectPreset, getPresetTransform } from '../transform/presets.js';
+import { addressToString, EvidenceTypes } from '../gateway/types.js';
+import { PRESETS, selectPresetAdaptive, getPresetTransform, presetForTransform } from '../transform/presets.js';
+import { contextPressure, countTokens, detectPresetFormat, getTokenCounter } from '../tokenizer/counter.js';
+import {
+  FORMAT_PARSERS,
+  hasFormatParser,
+  parseEncoded,
+  renderEnglish,
+  validateEncoded,
+} from '../transform/formats/index.js';
+import {
+  deliverFragment,
+  mergeFragmentTags,
+  parseFragmentMetadata,
+  pendingFragment,
+  ensurePresetTransform,
+  resolveFragmentTags,
+  resolveFragmentTransform,
+} from './defaults.js';
 
 export function createTransformTools(): ToolDefinition[] {
   return [
@@ -30,66 +48,24 @@ export function createTransformTools(): ToolDefinition[] {
               type: 'string',
               description: 'Specific transform UUID to use (optional)',
             },
+            preset: {
+              type: 'string',
+              enum: Object.keys(PRESETS),
+              description: 'Preset whose instructions are used when no transform is found (optional)',
+            },
           },
           required: ['content'],
         },
       },
       handler: async (args, context) => {
-        const domain = (args.domain as string) || 'general';
-        let transformSpec = '';
-
-        // Try to load transform if specified or find by domain
-        if (args.transform_uuid) {
-          try {
-            const transform = await context.gateway.getTransform(args.transform_uuid as string);
-            transformSpec = transform.additional_data || '';
-          } catch {
-            // Transform not found, use default
-          }
-        } else if (domain !== 'general') {
-          try {
-            const transforms = await context.gateway.listTransforms(domain, 1);
-            const items = transforms.items || [];
-            if (items.length > 0) {
-              transformSpec = items[0].additional_data || '';
-            }
-          } catch {
-            // No transforms found for domain
-          }
-        }
-
         // Return delegation request for the host
-        return {
-          action: 'transform_request',
-          direction: 'encode',
-          input: args.content,
-          source_language: args.source_language || 'auto',
-          target_language: 'en',
-          domain,
-          transform_spec: transformSpec || null,
-          instructions: `Please transform the following content into one or more English knowledge fragments. Each fragment should be:
-1. Self-contained and atomic (one concept per fragment)
-2. Written in clear, precise English
-3. Factual and verifiable where possible
-
-${transformSpec ? `Follow this transform specification:\n${transformSpec}\n\n` : ''}
-
-Content to transform:
-${args.content}
-
-Return your result as JSON:
-{
-  "fragments": [
-    {
-      "content": "The transformed knowledge statement in English",
-      "type": "FACT" | "QUESTION" | "ANSWER" | "DEFINITION" | "INSIGHT" | etc.
-    }
-  ],
-  "source_language_detected": "detected language code"
-}
-
-After receiving this response, the fragments will be signed and stored.`,
-        };
+        return context.transformEngine.createEncodeRequest(args.content as string, {
+          sourceLanguage: args.source_language as string | undefined,
+          domain: (args.domain as string) || 'general',
+          transformUuid: args.transform_uuid as string | undefined,
+          preset: args.preset as string | undefined,
+          followUp: 'After receiving this response, the fragments will be signed and stored.',
+        });
       },
     },
 
@@ -120,49 +96,48 @@ After receiving this response, the fragments will be signed and stored.`,
       handler: async (args, context) => {
         // Fetch the fragment
         const fragment = await context.gateway.getFragment(args.fragment_uuid as string);
-        let transformSpec = '';
-
-        // Try to load transform if specified
-        if (args.transform_uuid) {
-          try {
-            const transform = await context.gateway.getTransform(args.transform_uuid as string);
-            transformSpec = transform.additional_data || '';
-          } catch {
-            // Transform not found
-          }
-        } else if (fragment.transform && fragment.transform.entity) {
-          try {
-            const transform = await context.gateway.getTransform(fragment.transform.entity);
-            transformSpec = transform.additional_data || '';
-          } catch {
-            // Original transform not found
-          }
-        }
 
         // Return delegation request for the host
-        return {
-          action: 'transform_request',
-          direction: 'decode',
-          input: fragment.content,
-          source_language: 'en', // Fragments are stored in English
-          target_language: args.target_language,
-          fragment_uuid: fragment.uuid,
-          transform_spec: transformSpec || null,
-          instructions: `Please translate/transform the following English knowledge fragment into ${args.target_language}:
-
-Fragment content:
-${fragment.content}
-
-${transformSpec ? `Follow this transform specification for decoding:\n${transformSpec}\n\n` : ''}
-
-Maintain the semantic meaning while adapting to natural ${args.target_language} expression.
-
-Return your result as JSON:
-{
-  "content": "The transformed content in ${args.target_language}",
-  "notes": "Any relevant notes about the transformation"
-}`,
-        };
+        const request = await context.transformEngine.createDecodeRequest(
+          fragment.content,
+          args.target_language as string,
+          {
+            transformUuid: args.transform_uuid as string | undefined,
+            sourceTransformUuid: fragment.transform?.entity,
+          }
+        );
+        return { ...request, fragment_uuid: fragment.uuid };
+      },
+    },
+
+    {
+      tool: {
+        name: 'wisdom_check_transform_response',
+        description: 'Check a host reply to an encode or decode transform request against the expected JSON format before using it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            direction: {
+              type: 'string',
+              enum: ['encode', 'decode'],
+              description: 'Direction of the transform request that was answered',
+            },
+            response: {
+              description: 'The host reply, as a JSON object or JSON text',
+            },
+          },
+          required: ['direction', 'response'],
+        },
+      },
+      handler: async (args, context) => {
+        try {
+          const response = args.direction === 'decode'
+            ? context.transformEngine.validateDecodeResponse(args.response)
+            : context.transformEngine.validateEncodeResponse(args.response);
+          return { valid: true, response };
+        } catch (error) {
+          return { valid: false, error: error instanceof Error ? error.message : String(error) };
+        }
       },
     },
 
@@ -180,18 +155,52 @@ Return your result as JSON:
                 properties: {
                   content: { type: 'string' },
                   type: { type: 'string' },
+                  confidence: { type: 'number', description: 'Confidence 0.0 to 1.0 (overrides the top-level value)' },
+                  evidence_type: {
+                    type: 'string',
+                    enum: [...EvidenceTypes],
+                    description: 'How this fragment was derived (overrides the top-level value)',
+                  },
+                  tags: { type: 'array', items: { type: 'string' }, description: 'Additional tag UUIDs for this fragment' },
                 },
+                required: ['content'],
               },
-              description: 'Array of fragment objects with content and optional type',
+              description: 'Array of fragment objects with content and optional type, confidence, evidence_type and tags',
+            },
+            confidence: {
+              type: 'number',
+              description: 'Default confidence for all fragments, 0.0 to 1.0 (default: 0.8)',
+            },
+            evidence_type: {
+              type: 'string',
+              enum: [...EvidenceTypes],
+              description: 'Default evidence type for all fragments (default: unknown)',
+            },
+            tags: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Tag UUIDs for all fragments, merged with default_tags and project tags',
             },
             source_transform: {
               type: 'string',
-              description: 'Transform UUID that was used',
+              description: 'Transform UUID that was used (defaults to the configured default_transform, or an auto-registered baseline preset)',
             },
             original_content: {
               type: 'string',
               description: 'The original content before transformation (for compression metrics)',
             },
+            fragment_type: {
+              type: 'string',
+              description: 'Fragment type passed to wisdom_auto_transform; observed compression is recorded per preset and type (defaults to the fragments\' common type)',
+            },
+            domain: {
+              type: 'string',
+              description: 'Domain for the recorded compression metrics (e.g., "chemistry")',
+            },
+            validate_encoding: {
+              type: 'boolean',
+              description: 'Reject fragments that are not valid S-expression, compact schema or hybrid encodings when the transform uses one of those formats (default: true)',
+            },
             project: {
               type: 'string',
               description: 'Project UUID (uses current if not specified)',
@@ -209,75 +218,256 @@ Return your result as JSON:
           throw new Error('No agent configured. Run wisdom_generate_keypair first.');
         }
 
-        const fragments = args.fragments as Array<{ content: string; type?: string }>;
-        const sourceTransform = args.source_transform as string | undefined;
+        const fragments = args.fragments as Array<{
+          content: string;
+          type?: string;
+          confidence?: number;
+          evidence_type?: string;
+          tags?: string[];
+        }>;
+
+        // Validate everything before signing or storing anything
+        context.transformEngine.validateEncodeResponse({ fragments });
+        const batchDefaults = parseFragmentMetadata(args);
+        const metadata = fragments.map((frag, i) =>
+          parseFragmentMetadata(
+            { confidence: frag.confidence, evidence_type: frag.evidence_type, tags: frag.tags },
+            { confidence: batchDefaults.confidence, evidence_type: batchDefaults.evidence_type, tags: [] },
+            `fragments[${i}]`
+          )
+        );
         const originalContent = args.original_content as string | undefined;
         const projectUUID = (args.project as string) || context.config.config.current_project;
 
-        if (!sourceTransform) {
-          throw new Error('source_transform is required. Every fragment must reference a transform.');
+        // Every fragment must reference a transform; fall back to defaults
+        const transform = await resolveFragmentTransform(context, args.source_transform as string | undefined);
+        const tags = await resolveFragmentTags(context, batchDefaults.tags, projectUUID);
+
+        // A preset still waiting for registration has no gateway Transform yet
+        const transformSpec = transform.preset ? null : await context.transformEngine.getTransform(transform.uuid);
+        const mimeType = transform.preset ? PRESETS[transform.preset].transform_to : transformSpec?.transform_to;
+
+        // Reject malformed encodings before anything is signed
+        if (args.validate_encoding !== false) {
+          fragments.forEach((frag, i) => {
+            // Offline: only content that looks like a preset format is checked
+            const format = mimeType ?? PRESETS[detectPresetFormat(frag.content)].transform_to;
+            if (!hasFormatParser(format)) return;
+            const error = validateEncoded(frag.content, format);
+            if (error) {
+              throw new Error(`Invalid fragments[${i}]: malformed ${format} encoding: ${error}`);
+            }
+          });
         }
 
         const creatorAddr = context.addressCache.get(agentUuid, 'AGENT', hubHost);
-        const transformAddr = context.addressCache.get(sourceTransform, 'TRANSFORMATION', hubHost);
+        const transformAddr = context.addressCache.get(transform.uuid, 'TRANSFORMATION', hubHost);
 
-        // Rough token estimation (4 chars ≈ 1 token)
-        const estimateTokens = (text: string) => Math.ceil(text.length / 4);
-
-        const originalTokens = originalContent ? estimateTokens(originalContent) : undefined;
+        // The original is plain text; encoded fragments are calibrated by their
+        // transform's preset, or by detected format for custom transforms
+        const preset = transformSpec ? presetForTransform(transformSpec) : transform.preset;
+        const originalTokens = originalContent ? countTokens(originalContent, 'baseline') : undefined;
         const results = [];
         let totalEncodedTokens = 0;
 
-        for (const frag of fragments) {
+        for (const [i, frag] of fragments.entries()) {
+          const fragMeta = metadata[i];
           const uuid = uuidv4();
           const fragmentData: Omit<CreateFragmentRequest, 'signature'> = {
             uuid,
             content: frag.content,
             creator: creatorAddr,
             when: new Date().toISOString(),
-            tags: [],
+            tags: mergeFragmentTags(context, tags, fragMeta.tags),
             transform: transformAddr,
-            confidence: 0.8,
-            evidence_type: 'unknown',
+            confidence: fragMeta.confidence,
+            evidence_type: fragMeta.evidence_type,
           };
 
           const signature = await signFragment(fragmentData, privateKey);
-          const created = await context.gateway.createFragment({
-            ...fragmentData,
-            signature,
-          }, projectUUID);
+          const request: CreateFragmentRequest = { ...fragmentData, signature };
+          const delivery = await deliverFragment(context, request, transform, projectUUID);
+          const created = delivery.queued ? pendingFragment(request) : delivery.entity;
+          context.state.addRecentFragment(created.uuid);
+          context.searchIndex.addFragments([created], projectUUID);
 
-          const encodedTokens = estimateTokens(frag.content);
+          const encodedTokens = countTokens(frag.content, preset);
           totalEncodedTokens += encodedTokens;
 
           results.push({
             uuid: created.uuid,
             content: created.content.substring(0, 100) + (created.content.length > 100 ? '...' : ''),
             type: frag.type,
+            confidence: fragMeta.confidence,
+            evidence_type: fragMeta.evidence_type,
             encoded_tokens: encodedTokens,
+            queued: delivery.queued,
           });
         }
 
+        const queuedCount = results.filter((r) => r.queued).length;
         const response: Record<string, unknown> = {
-          stored: results.length,
+          stored: results.length - queuedCount,
           fragments: results,
+          transform: transform.uuid,
+          tags: tags.map(addressToString),
         };
 
+        if (transform.auto_registered) {
+          response.transform_auto_registered = true;
+        }
+
+        if (queuedCount > 0) {
+          Object.assign(response, context.outbox.queuedInfo(true), { queued: queuedCount });
+        }
+
         // Add compression metrics if original content was provided
         if (originalTokens !== undefined && originalTokens > 0) {
-          const compressionRatio = Math.round((1 - totalEncodedTokens / originalTokens) * 100);
-          response.compression = {
+          const ratio = 1 - totalEncodedTokens / originalTokens;
+          const compression: Record<string, unknown> = {
             original_tokens: originalTokens,
             encoded_tokens: totalEncodedTokens,
-            compression_ratio: `${compressionRatio}%`,
+            compression_ratio: `${Math.round(ratio * 100)}%`,
             savings: `${originalTokens - totalEncodedTokens} tokens saved`,
+            tokenizer: getTokenCounter().name,
           };
+
+          // Feed adaptive preset selection
+          const types = [...new Set(fragments.map((f) => f.type?.toUpperCase()).filter(Boolean))];
+          const fragmentType = (args.fragment_type as string | undefined) ?? (types.length === 1 ? types[0] : undefined);
+          if (preset && fragmentType) {
+            context.state.recordPresetMetric(preset, fragmentType, args.domain as string | undefined, { compression: ratio });
+            compression.recorded_for = { preset, fragment_type: fragmentType.toUpperCase() };
+          }
+          response.compression = compression;
         }
 
         return response;
       },
     },
 
+    {
+      tool: {
+        name: 'wisdom_decode_fragment',
+        description: 'Parse a fragment encoded with a preset format (S-expression, compact schema or hybrid) locally and render it as English, without an LLM round-trip',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fragment_uuid: {
+              type: 'string',
+              description: 'Fragment to decode (its transform determines the format)',
+            },
+            content: {
+              type: 'string',
+              description: 'Encoded content to decode instead of a stored fragment',
+            },
+            transform_to: {
+              type: 'string',
+              enum: Object.keys(FORMAT_PARSERS),
+              description: 'Format of content (detected when omitted)',
+            },
+            preset: {
+              type: 'string',
+              enum: ['t1-symbolic', 't3-compact', 't4-hybrid'],
+              description: 'Preset of content, as an alternative to transform_to',
+            },
+          },
+          required: [],
+        },
+      },
+      handler: async (args, context) => {
+        let content = args.content as string | undefined;
+        let format = (args.transform_to as string | undefined)
+          ?? (args.preset ? PRESETS[args.preset as string]?.transform_to : undefined);
+
+        if (args.fragment_uuid) {
+          const fragment = await context.gateway.getFragment(args.fragment_uuid as string);
+          content = fragment.content;
+          if (!format && fragment.transform?.entity) {
+            const transform = await context.transformEngine.getTransform(fragment.transform.entity);
+            format = transform ? context.transformEngine.resolve(transform).transform_to : undefined;
+          }
+        }
+        if (content === undefined) {
+          throw new Error('Either fragment_uuid or content is required');
+        }
+
+        format = format ?? PRESETS[detectPresetFormat(content)].transform_to;
+        if (!hasFormatParser(format)) {
+          throw new Error(`No local parser for ${format}; supported: ${Object.keys(FORMAT_PARSERS).join(', ')}`);
+        }
+
+        const records = parseEncoded(content, format);
+        return {
+          fragment_uuid: args.fragment_uuid,
+          format,
+          records,
+          english: renderEnglish(records),
+        };
+      },
+    },
+
+    {
+      tool: {
+        name: 'wisdom_record_decode_feedback',
+        description: 'Report how well a preset-encoded fragment decoded (1-5). Feedback is stored per preset, fragment type and domain and deprioritises underperforming presets in wisdom_auto_transform.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            fragment_uuid: {
+              type: 'string',
+              description: 'Decoded fragment (its transform determines the preset)',
+            },
+            preset: {
+              type: 'string',
+              enum: ['t1-symbolic', 't3-compact', 't4-hybrid', 'baseline'],
+              description: 'Preset, when no fragment_uuid is given',
+            },
+            fragment_type: {
+              type: 'string',
+              description: 'Fragment type (e.g., DEFINITION, OBSERVATION)',
+            },
+            domain: {
+              type: 'string',
+              description: 'Domain of the content',
+            },
+            quality: {
+              type: 'number',
+              description: 'Decode quality from 1 (meaning lost) to 5 (fully preserved)',
+            },
+          },
+          required: ['fragment_type', 'quality'],
+        },
+      },
+      handler: async (args, context) => {
+        const quality = args.quality;
+        if (typeof quality !== 'number' || Number.isNaN(quality) || quality < 1 || quality > 5) {
+          throw new Error('Invalid quality: must be a number between 1 and 5');
+        }
+
+        let preset = args.preset as string | undefined;
+        if (!preset && args.fragment_uuid) {
+          const fragment = await context.gateway.getFragment(args.fragment_uuid as string);
+          preset = await context.transformEngine.presetOf(fragment.transform?.entity, fragment.content);
+        }
+        if (!preset || !PRESETS[preset]) {
+          throw new Error('Could not determine the preset; pass preset or a fragment_uuid stored with a preset transform');
+        }
+
+        const fragmentType = (args.fragment_type as string).toUpperCase();
+        const domain = args.domain as string | undefined;
+        context.state.recordPresetMetric(preset, fragmentType, domain, { quality });
+
+        return {
+          recorded: true,
+          preset,
+          fragment_type: fragmentType,
+          domain: domain ?? null,
+          metric: context.state.getPresetMetric(preset, fragmentType, domain),
+        };
+      },
+    },
+
     {
       tool: {
         name: 'wisdom_get_transform',
@@ -294,8 +484,11 @@ Return your result as JSON:
         },
       },
       handler: async (args, context) => {
-        const transform = await context.gateway.getTransform(args.uuid as string);
-        return transform;
+        const transform = await context.transformEngine.requireTransform(args.uuid as string);
+        return {
+          ...transform,
+          verified: await context.verifier.verifyTransform(transform),
+        };
       },
     },
 
@@ -319,12 +512,12 @@ Return your result as JSON:
         },
       },
       handler: async (args, context) => {
-        const result = await context.gateway.listTransforms(
+        const result = await context.transformEngine.listTransforms(
           args.domain as string | undefined,
           (args.limit as number) || 20
         );
 
-        const items = result.items || [];
+        const items = await context.verifier.annotateTransforms(result.items || []);
         return {
           transforms: items.map((t) => ({
             uuid: t.uuid,
@@ -333,6 +526,7 @@ Return your result as JSON:
             transform_to: t.transform_to,
             transform_from: t.transform_from,
             version: t.version,
+            verified: t.verified,
           })),
           count: items.length,
           next_cursor: result.next_cursor,
@@ -422,7 +616,7 @@ Return your result as JSON:
       tool: {
         name: 'wisdom_auto_transform',
         description:
-          'Automatically select the optimal transformer based on fragment type and context pressure, then return encoding instructions. Uses tested presets: T1-Symbolic (39% compression, 4.58/5 quality), T3-Compact (56%, 3.83/5), T4-Hybrid (24%, 5.0/5).',
+          'Automatically select the optimal transformer based on fragment type and context pressure, then return encoding instructions. Uses tested presets: T1-Symbolic (39% compression, 4.58/5 quality), T3-Compact (56%, 3.83/5), T4-Hybrid (24%, 5.0/5). Presets that underperform in stored compression metrics or decode feedback for the type and domain are deprioritised.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -435,9 +629,21 @@ Return your result as JSON:
               enum: ['DEFINITION', 'PROCEDURE', 'FACT', 'OBSERVATION', 'HYPOTHESIS', 'SYNTHESIS', 'INSIGHT', 'OPINION', 'QUESTION', 'ANSWER', 'EXAMPLE', 'ANTITHESIS'],
               description: 'Type of the fragment (determines transformer selection)',
             },
+            domain: {
+              type: 'string',
+              description: 'Domain of the content; observed metrics for this domain take precedence',
+            },
             context_pressure: {
               type: 'number',
-              description: 'How close to token budget (0.0 = plenty of space, 1.0 = nearly full). Higher pressure selects more aggressive compression. Default: 0.0',
+              description: 'How close to token budget (0.0 = plenty of space, 1.0 = nearly full). Higher pressure selects more aggressive compression. Default: computed from token_budget, else 0.0',
+            },
+            token_budget: {
+              type: 'number',
+              description: 'Token budget of the context the content will be loaded into. Used to compute context_pressure when it is not given.',
+            },
+            used_tokens: {
+              type: 'number',
+              description: 'Tokens already used of token_budget (default: 0)',
             },
             preset_override: {
               type: 'string',
@@ -448,33 +654,71 @@ Return your result as JSON:
           required: ['content', 'fragment_type'],
         },
       },
-      handler: async (args, _context) => {
+      handler: async (args, context) => {
         const fragmentType = args.fragment_type as string;
-        const contextPressure = (args.context_pressure as number) || 0;
+        const content = args.content as string;
+        const originalTokens = countTokens(content, 'baseline');
+        const tokenBudget = args.token_budget as number | undefined;
+        const pressure = typeof args.context_pressure === 'number'
+          ? args.context_pressure
+          : tokenBudget
+            ? contextPressure(((args.used_tokens as number) || 0) + originalTokens, tokenBudget)
+            : 0;
         const overridePreset = args.preset_override as string | undefined;
 
-        const presetName = overridePreset || selectPreset(fragmentType, contextPressure);
+        const domain = args.domain as string | undefined;
+        const selection = overridePreset
+          ? { preset: overridePreset, reason: `Manual override: ${overridePreset}`, scores: undefined }
+          : selectPresetAdaptive(fragmentType, pressure, (key) => context.state.getPresetMetric(key, fragmentType, domain));
+        const presetName = selection.preset;
         const preset = getPresetTransform(presetName);
 
         if (!preset) {
           throw new Error(`Unknown preset: ${presetName}`);
         }
 
+        // The stored fragments reference the preset's gateway Transform
+        let sourceTransform: { uuid: string; registered: boolean } | undefined;
+        let registrationError: string | undefined;
+        try {
+          sourceTransform = await ensurePresetTransform(context, presetName);
+        } catch (error) {
+          registrationError = error instanceof Error ? error.message : String(error);
+        }
+        const storeHint = (sourceTransform
+          ? `store the fragments with wisdom_store_transformed_fragments and source_transform "${sourceTransform.uuid}"`
+          : 'store the fragments with wisdom_store_transformed_fragments')
+          + `. Pass original_content and fragment_type "${fragmentType}"${domain ? ` and domain "${domain}"` : ''} so the observed compression improves future preset selection.`;
+
+        const request = context.transformEngine.createPresetEncodeRequest(
+          content,
+          presetName,
+          fragmentType,
+          `After receiving this response, ${storeHint}`
+        );
+
         return {
-          action: 'transform_request',
-          direction: 'encode',
+          action: request.action,
+          direction: request.direction,
           selected_preset: presetName,
+          source_transform: sourceTransform?.uuid ?? null,
+          ...(sourceTransform?.registered && { source_transform_registered: true }),
+          ...(registrationError && { source_transform_error: registrationError }),
           preset_info: {
             name: preset.name,
             description: preset.description,
             expected_compression: `${Math.round(preset.expected_compression * 100)}%`,
             expected_quality: `${preset.expected_quality}/5`,
           },
-          selection_reason: overridePreset
-            ? `Manual override: ${overridePreset}`
-            : `Auto-selected for ${fragmentType} at context pressure ${contextPressure}`,
-          input: args.content,
-          instructions: `${preset.encode_instructions}\n\nContent to transform:\n${args.content}\n\nReturn your result as JSON:\n{\n  "fragments": [\n    {\n      "content": "The encoded fragment",\n      "type": "${fragmentType}"\n    }\n  ]\n}\n\nAfter receiving this response, store the fragments with wisdom_store_transformed_fragments.`,
+          selection_reason: selection.reason,
+          ...(selection.scores && { preset_scores: selection.scores }),
+          tokens: {
+            original: originalTokens,
+            expected_encoded: Math.round(originalTokens * (1 - preset.expected_compression)),
+            tokenizer: getTokenCounter().name,
+          },
+          input: request.input,
+          instructions: request.instructions,
           available_presets: Object.entries(PRESETS).map(([key, p]) => ({
             key,
             name: p.name,
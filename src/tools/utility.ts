@@ -1,13 +1,83 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { ToolDefinition } from '../server.js';
-import { generateKeyPair } from '../crypto/keys.js';
+import type { ServerContext, ToolDefinition } from '../server.js';
+import { generateKeyPair, type KeyPair } from '../crypto/keys.js';
 import { signAgent } from '../crypto/signing.js';
+import {
+  assertVaultReplaceable,
+  cachedPlaintextKeyWarnings,
+  migratePlaintextKey,
+  plaintextKeyFiles,
+  resolvePassphrase,
+  sealPrivateKey,
+  writeKeyVault,
+} from '../crypto/vault.js';
 import {
   saveProjectConfig,
   saveGlobalConfig,
   getPreferredConfigPath,
 } from '../config/loader.js';
 
+/**
+ * Check where a new private key can be stored before an agent is registered
+ * for it. Returns the vault passphrase, or null for plaintext storage.
+ * Refuses to replace a vault holding another key, and to write a vault key
+ * that a plaintext key would shadow: WISDOM_PRIVATE_KEY, or a config file
+ * other than `configFile` (which drops its private_key when saved).
+ */
+function checkKeyStorage(context: ServerContext, keypair: KeyPair, configFile: string): string | null {
+  const passphrase = resolvePassphrase(context.config.config);
+  if (!passphrase) {
+    return null;
+  }
+
+  const { paths } = context.config;
+  assertVaultReplaceable(paths.keyVault, keypair.publicKeyBase64);
+  if (process.env.WISDOM_PRIVATE_KEY) {
+    throw new Error('WISDOM_PRIVATE_KEY is set and would take precedence over the key vault. Unset it first.');
+  }
+  const shadowing = plaintextKeyFiles([paths.projectConfig, paths.globalConfig]).filter((file) => file !== configFile);
+  if (shadowing.length > 0) {
+    throw new Error(
+      `Plaintext private key in ${shadowing.join(' and ')} would take precedence over the key vault. Back it up and remove it first.`
+    );
+  }
+  return passphrase;
+}
+
+/**
+ * Store a new private key: in the encrypted key vault when a passphrase is
+ * available (see checkKeyStorage), otherwise as plaintext private_key for
+ * the config file
+ */
+function storePrivateKey(
+  context: ServerContext,
+  keypair: KeyPair,
+  passphrase: string | null
+): { private_key: string | undefined; info: Record<string, unknown> } {
+  if (!passphrase) {
+    return {
+      private_key: keypair.privateKeyBase64,
+      info: {
+        key_storage: 'plaintext',
+        key_warning:
+          'No WISDOM_KEY_PASSPHRASE or key_file set, so the private key is stored unencrypted. Set one and run wisdom_migrate_key.',
+      },
+    };
+  }
+
+  const vaultPath = context.config.paths.keyVault;
+  const backup = writeKeyVault(vaultPath, sealPrivateKey(keypair.privateKey, keypair.publicKeyBase64, passphrase));
+  return {
+    // A plaintext key left in config would take precedence over the vault
+    private_key: undefined,
+    info: {
+      key_storage: 'vault',
+      key_vault: vaultPath,
+      ...(backup && { previous_vault_backup: backup }),
+    },
+  };
+}
+
 export function createUtilityTools(): ToolDefinition[] {
   return [
     {
@@ -25,15 +95,38 @@ export function createUtilityTools(): ToolDefinition[] {
         const { config, paths } = context.config;
         const isReachable = await context.gateway.isReachable();
 
+        // Replay queued writes opportunistically once the gateway is back
+        const replay = isReachable && context.outbox.size() > 0
+          ? await context.outbox.replay(context.gateway)
+          : null;
+
+        const hasKey = context.keyManager.hasPrivateKey();
+        const keyWarnings = cachedPlaintextKeyWarnings([paths.projectConfig, paths.globalConfig]);
         const result: Record<string, unknown> = {
-          status: config.private_key ? 'configured' : 'unconfigured',
+          status: hasKey ? 'configured' : 'unconfigured',
           agent_uuid: config.agent_uuid || null,
-          has_private_key: !!config.private_key,
+          has_private_key: hasKey,
+          key_source: context.keyManager.getKeySource(),
+          key_vault: paths.keyVault,
+          ...(context.keyManager.getVaultError() && { key_vault_error: context.keyManager.getVaultError() }),
+          ...(keyWarnings.length > 0 && { key_warnings: keyWarnings }),
+          requests_signed: !!config.agent_uuid && hasKey,
           gateway_url: config.gateway_url,
           gateway_reachable: isReachable,
+          gateway_circuit: context.gateway.getCircuitState(),
+          hub_status: context.gateway.getLastHubStatus()?.level ?? 'normal',
+          ...(context.gateway.isHubCritical() && { write_throttle_ms: context.gateway.getWriteThrottleMs() }),
+          ...(context.gateway.getSchemaDrift().length > 0 && { schema_drift: context.gateway.getSchemaDrift() }),
           current_project: config.current_project || null,
           default_tags: config.default_tags || [],
           default_transform: config.default_transform || null,
+          drop_unverified: !!config.drop_unverified,
+          outbox: {
+            pending: context.outbox.size(),
+            failed: context.outbox.failedCount(),
+            path: context.outbox.getPath(),
+            replayed: replay ? replay.delivered.length + replay.already_present.length : 0,
+          },
           config_paths: {
             project_root: paths.projectRoot,
             project_config: paths.projectConfig,
@@ -41,9 +134,13 @@ export function createUtilityTools(): ToolDefinition[] {
           },
         };
 
-        if (!config.private_key) {
+        if (context.keyManager.getVaultError()) {
+          result.hint = context.keyManager.getVaultError();
+        } else if (!hasKey) {
           result.hint =
             'No private key configured. Run wisdom_generate_keypair to create one.';
+        } else if (context.keyManager.getKeySource() === 'config') {
+          result.hint = 'The private key is stored unencrypted. Set WISDOM_KEY_PASSPHRASE and run wisdom_migrate_key.';
         }
 
         return result;
@@ -54,7 +151,7 @@ export function createUtilityTools(): ToolDefinition[] {
       tool: {
         name: 'wisdom_generate_keypair',
         description:
-          'Generate a new Ed25519 keypair and optionally register as a new agent',
+          'Generate a new Ed25519 keypair and optionally register as a new agent. The private key is encrypted into the key vault when WISDOM_KEY_PASSPHRASE or key_file is set.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -82,8 +179,12 @@ export function createUtilityTools(): ToolDefinition[] {
         const saveTo = (args.save_to as 'project' | 'global') || 'project';
         const register = args.register !== false;
 
-        // Generate keypair
+        // Generate keypair, and check it can be stored before registering it
         const keypair = await generateKeyPair();
+        const configFile = saveTo === 'project' && context.config.paths.projectConfig
+          ? context.config.paths.projectConfig
+          : context.config.paths.globalConfig;
+        const passphrase = checkKeyStorage(context, keypair, configFile);
 
         // Prepare result
         const result: Record<string, unknown> = {
@@ -120,20 +221,21 @@ export function createUtilityTools(): ToolDefinition[] {
           }
         }
 
-        // Save config
-        const configUpdate = {
-          private_key: keypair.privateKeyBase64,
-          agent_uuid: agentUuid,
-        };
-
+        // Save the key (vault or config) and config
         try {
-          if (saveTo === 'project' && context.config.paths.projectConfig) {
+          const stored = storePrivateKey(context, keypair, passphrase);
+          Object.assign(result, stored.info);
+          const configUpdate = {
+            private_key: stored.private_key,
+            agent_uuid: agentUuid,
+          };
+
+          if (configFile === context.config.paths.projectConfig) {
             saveProjectConfig(configUpdate, context.config.paths.projectRoot || undefined);
-            result.saved_to = context.config.paths.projectConfig;
           } else {
             saveGlobalConfig(configUpdate);
-            result.saved_to = context.config.paths.globalConfig;
           }
+          result.saved_to = configFile;
           result.saved = true;
 
           // Update in-memory config
@@ -172,6 +274,10 @@ export function createUtilityTools(): ToolDefinition[] {
               type: 'string',
               description: 'Default transform UUID',
             },
+            drop_unverified: {
+              type: 'boolean',
+              description: 'Drop fragments whose signature cannot be verified from search and context loading',
+            },
             save_to: {
               type: 'string',
               enum: ['project', 'global'],
@@ -190,6 +296,7 @@ export function createUtilityTools(): ToolDefinition[] {
         if (args.default_tags) updates.default_tags = args.default_tags;
         if (args.default_transform !== undefined)
           updates.default_transform = args.default_transform || undefined;
+        if (args.drop_unverified !== undefined) updates.drop_unverified = args.drop_unverified;
 
         const saveTo = args.save_to as 'project' | 'global' | undefined;
 
@@ -218,11 +325,47 @@ export function createUtilityTools(): ToolDefinition[] {
             current_project: context.config.config.current_project,
             default_tags: context.config.config.default_tags,
             default_transform: context.config.config.default_transform,
+            drop_unverified: !!context.config.config.drop_unverified,
           },
         };
       },
     },
 
+    {
+      tool: {
+        name: 'wisdom_flush_outbox',
+        description:
+          'Replay writes queued in the offline outbox (fragments, relations, tags, votes) in order. Use after the gateway was unreachable.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            clear_failed: {
+              type: 'boolean',
+              description: 'Discard entries the gateway rejected (default: false)',
+            },
+          },
+          required: [],
+        },
+      },
+      handler: async (args, context) => {
+        const result = await context.outbox.replay(context.gateway);
+        const cleared = args.clear_failed === true ? context.outbox.clearFailed() : 0;
+
+        return {
+          gateway_reachable: result.gateway_reachable,
+          delivered: result.delivered,
+          already_present: result.already_present,
+          failed: result.failed,
+          remaining: result.remaining,
+          failed_total: context.outbox.failedCount(),
+          cleared_failed: cleared,
+          message: !result.gateway_reachable
+            ? `Gateway still unreachable. ${result.remaining} write(s) remain queued.`
+            : `Replayed ${result.delivered.length} write(s), ${result.remaining} remaining.`,
+        };
+      },
+    },
+
     {
       tool: {
         name: 'wisdom_reload_config',
@@ -244,6 +387,45 @@ export function createUtilityTools(): ToolDefinition[] {
       },
     },
 
+    {
+      tool: {
+        name: 'wisdom_migrate_key',
+        description:
+          'Move a plaintext private_key from the config files into the encrypted key vault (requires WISDOM_KEY_PASSPHRASE or key_file)',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+          required: [],
+        },
+      },
+      handler: async (_args, context) => {
+        const { config, paths } = context.config;
+        const passphrase = resolvePassphrase(config);
+        if (!passphrase) {
+          throw new Error('Set WISDOM_KEY_PASSPHRASE or key_file before migrating the private key.');
+        }
+        if (!config.private_key) {
+          if (context.keyManager.getKeySource() === 'vault') {
+            return { migrated: false, key_vault: paths.keyVault, message: 'The private key is already in the key vault.' };
+          }
+          throw new Error('No plaintext private key configured.');
+        }
+
+        const configFiles = [paths.projectConfig, paths.globalConfig].filter((p): p is string => !!p);
+        const migration = await migratePlaintextKey(config.private_key, paths.keyVault, passphrase, configFiles);
+        context.reloadConfig();
+
+        return {
+          migrated: true,
+          ...migration,
+          key_source: context.keyManager.getKeySource(),
+          ...(process.env.WISDOM_PRIVATE_KEY && {
+            warning: 'WISDOM_PRIVATE_KEY is still set and takes precedence over the vault. Remove it from the environment.',
+          }),
+        };
+      },
+    },
+
     {
       tool: {
         name: 'wisdom_quickstart',
@@ -270,7 +452,12 @@ export function createUtilityTools(): ToolDefinition[] {
 
         // Step 1: Check agent
         const { config } = context.config;
-        if (!config.private_key || !config.agent_uuid) {
+        const vaultError = context.keyManager.getVaultError();
+        if (vaultError) {
+          // Registering a new agent would replace the locked key
+          steps.push(`Agent key unavailable: ${vaultError}`);
+          result.auto_registered = false;
+        } else if (!context.keyManager.hasPrivateKey() || !config.agent_uuid) {
           // Auto-register
           steps.push('Agent not configured — auto-registering...');
           const keypair = await generateKeyPair();
@@ -285,15 +472,17 @@ export function createUtilityTools(): ToolDefinition[] {
           };
 
           try {
+            const preferredPath = getPreferredConfigPath(context.config.paths);
+            const passphrase = checkKeyStorage(context, keypair, preferredPath);
             const signature = await signAgent(agentData, keypair.privateKey);
             const agent = await context.gateway.createAgent({ ...agentData, signature });
 
+            const stored = storePrivateKey(context, keypair, passphrase);
             const configUpdate = {
-              private_key: keypair.privateKeyBase64,
+              private_key: stored.private_key,
               agent_uuid: agent.uuid,
             };
 
-            const preferredPath = getPreferredConfigPath(context.config.paths);
             if (preferredPath === context.config.paths.projectConfig) {
               saveProjectConfig(configUpdate, context.config.paths.projectRoot || undefined);
             } else {
@@ -303,6 +492,7 @@ export function createUtilityTools(): ToolDefinition[] {
 
             result.agent_uuid = agent.uuid;
             result.auto_registered = true;
+            Object.assign(result, stored.info);
             steps.push(`Agent registered: ${agent.uuid}`);
           } catch (error) {
             steps.push(`Auto-registration failed: ${error instanceof Error ? error.message : String(error)}`);
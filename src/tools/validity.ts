@@ -2,9 +2,27 @@
  * Validity and evidence analysis tools for the wisdom system
  */
 
-import type { ToolDefinition } from '../server.js';
-import type { Relation } from '../gateway/types.js';
+import type { ServerContext, ToolDefinition } from '../server.js';
+import type { Fragment, Relation, RelationType, TrustVote } from '../gateway/types.js';
+import {
+  acceptsVerification,
+  type SignatureVerifier,
+  type VerificationStatus,
+  type Verified,
+} from '../crypto/verification.js';
 import { addressToString } from '../gateway/types.js';
+import {
+  creatorSignedDerivations,
+  creatorSignedSupersedes,
+  getAllRelationsForEntity,
+  getFragmentHistory,
+  getRelationsOfType,
+  type SupersedesFilter,
+} from '../gateway/graph.js';
+import { NotFoundError } from '../gateway/errors.js';
+import { TrustEngine } from '../trust/engine.js';
+import { countTokens } from '../tokenizer/counter.js';
+import { PRESETS, isCompressedPreset } from '../transform/presets.js';
 
 // ============================================================================
 // Types
@@ -26,22 +44,267 @@ interface ValidityIssue {
   severity: number;
 }
 
+/**
+ * A fragment in a derivation chain
+ */
+interface ChainNode {
+  fragment_id: string;
+  depth: number;
+  derives_from: string[];
+  confidence: number; // The fragment's own confidence
+  chain_confidence: number; // Confidence propagated from its premises
+  verified: VerificationStatus;
+  vote_score: number | null; // -1.0 (contested) to +1.0 (verified), null without votes
+  retracted: boolean;
+  votes_available: boolean; // False when the votes could not be loaded
+}
 
+/**
+ * One piece of evidence: a relation plus the fragment at its other end
+ */
+interface EvidenceItem {
+  fragment_id: string;
+  relation_id: string;
+  relation_type: RelationType;
+  creator: string; // Agent that signed the relation, '' when its key is unknown
+  creator_trust: number; // Effective trust of `creator` (-1.0 to +1.0)
+  verified: VerificationStatus; // Signature status of the relation
+  relation_confidence: number;
+  fragment_confidence: number;
+  weight: number;
+  fragment: Fragment | null; // null when the fragment could not be loaded
+}
 
 interface EvidenceBalance {
   thesis_id: string;
-  supporting: Array<{ fragment_id: string; confidence: number }>;
-  contradicting: Array<{ fragment_id: string; confidence: number }>;
+  supporting: EvidenceItem[];
+  contradicting: EvidenceItem[];
   support_score: number;
   contradict_score: number;
   net_score: number;
 }
 
+/**
+ * A related fragment packed next to a context hit
+ */
+interface ContextNeighbour {
+  uuid: string;
+  label: string; // e.g. "Contradicted by"
+  contradiction: boolean;
+  fragment: Verified<Fragment> | null; // null when only referenced
+}
+
+/**
+ * Relation types pulled in around top hits, in packing priority order
+ */
+const NEIGHBOUR_TYPES: RelationType[] = ['CONTRADICTS', 'SUPPORTS', 'CLARIFIES'];
+
+const NEIGHBOUR_LABELS: Record<string, { incoming: string; outgoing: string }> = {
+  CONTRADICTS: { incoming: 'Contradicted by', outgoing: 'Contradicts' },
+  SUPPORTS: { incoming: 'Supported by', outgoing: 'Supports' },
+  CLARIFIES: { incoming: 'Clarified by', outgoing: 'Clarifies' },
+};
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
-function calculateEvidenceBalance(thesisId: string, relations: Relation[]): EvidenceBalance {
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function preview(content: string): string {
+  return content.substring(0, 200) + (content.length > 200 ? '...' : '');
+}
+
+/**
+ * Trust engine honouring the configured signature policy
+ */
+function trustEngine(context: ServerContext): TrustEngine {
+  return new TrustEngine(context.gateway, context.verifier, {
+    dropUnverified: !!context.config.config.drop_unverified,
+  });
+}
+
+/**
+ * Weight of a piece of evidence.
+ * Trust (-1..+1) is mapped to 0..1 so unknown agents count half and
+ * distrusted agents not at all.
+ */
+function evidenceWeight(relationConfidence: number, fragmentConfidence: number, creatorTrust: number): number {
+  return relationConfidence * fragmentConfidence * ((creatorTrust + 1) / 2);
+}
+
+/**
+ * Load the evidence of the given relation types around a fragment.
+ * Only relations pointing at the fragment count unless `symmetric` is set,
+ * in which case relations starting at the fragment count as well.
+ *
+ * Evidence is weighted by the trust of the agent that signed the relation.
+ * Forged relations are dropped; relations whose signer's key is unknown
+ * count as asserted by an unknown agent, or are dropped with drop_unverified.
+ */
+async function collectEvidence(
+  context: ServerContext,
+  fragmentId: string,
+  types: RelationType[],
+  symmetric = false
+): Promise<{ items: EvidenceItem[]; truncated: boolean }> {
+  const collected = await getAllRelationsForEntity(context.gateway, fragmentId, 'both');
+  const candidates = collected.relations.filter(
+    (r) =>
+      types.includes(r.type) &&
+      (r.to.entity === fragmentId || (symmetric && r.from.entity === fragmentId)) &&
+      r.from.entity !== r.to.entity
+  );
+  const dropUnverified = !!context.config.config.drop_unverified;
+  const relations = (await context.verifier.annotateRelations(candidates)).filter((r) =>
+    acceptsVerification(r.verified, dropUnverified)
+  );
+  if (relations.length === 0) {
+    return { items: [], truncated: collected.truncated };
+  }
+
+  // Trust of the signing agents from our perspective
+  const creatorOf = (r: Verified<Relation>): string => (r.verified === true ? r.creator.entity : '');
+  const perspective = context.config.config.agent_uuid;
+  const creators = [...new Set(relations.map(creatorOf).filter(Boolean))];
+  const trusts =
+    perspective && creators.length > 0
+      ? await trustEngine(context).calculateAgentTrusts(perspective, creators)
+      : new Map();
+
+  const otherEnd = (r: Relation): string => (r.to.entity === fragmentId ? r.from.entity : r.to.entity);
+  const fragments = new Map<string, Fragment | null>();
+  await Promise.all(
+    [...new Set(relations.map(otherEnd))].map(async (uuid) => {
+      try {
+        fragments.set(uuid, await context.gateway.getFragment(uuid));
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+        fragments.set(uuid, null);
+      }
+    })
+  );
+
+  const items = relations.map((r) => {
+    const fragment = fragments.get(otherEnd(r)) ?? null;
+    const creatorTrust = trusts.get(creatorOf(r))?.effective_trust ?? 0;
+    const relationConfidence = r.confidence ?? 1.0;
+    const fragmentConfidence = fragment ? fragment.confidence ?? 0.5 : 0;
+    return {
+      fragment_id: otherEnd(r),
+      relation_id: r.uuid,
+      relation_type: r.type,
+      creator: creatorOf(r),
+      creator_trust: creatorTrust,
+      verified: r.verified,
+      relation_confidence: relationConfidence,
+      fragment_confidence: fragmentConfidence,
+      weight: evidenceWeight(relationConfidence, fragmentConfidence, creatorTrust),
+      fragment,
+    };
+  });
+  return { items, truncated: collected.truncated };
+}
+
+/**
+ * Summarize the votes on a fragment. Only votes with a valid signature count.
+ * With a perspective agent votes are weighted by trust; otherwise every
+ * verify/contest vote counts once.
+ */
+async function assessVotes(
+  fragment: Fragment,
+  allVotes: TrustVote[],
+  verifier: SignatureVerifier,
+  engine: TrustEngine | null,
+  perspective: string | undefined
+): Promise<{ vote_score: number | null; retracted: boolean }> {
+  if (engine && perspective) {
+    const result = await engine.calculateFragmentTrust(perspective, fragment, allVotes);
+    return { vote_score: result.vote_score, retracted: result.retracted };
+  }
+
+  const votes = (await verifier.annotateTrustVotes(allVotes)).filter((v) => v.verified === true);
+  const creator = fragment.creator?.entity;
+  const verifies = votes.filter((v) => v.vote_type === 'verify').length;
+  const contests = votes.filter((v) => v.vote_type === 'contest').length;
+  return {
+    vote_score: verifies + contests > 0 ? (verifies - contests) / (verifies + contests) : null,
+    retracted: votes.some((v) => v.vote_type === 'retract' && v.voter === creator),
+  };
+}
+
+/**
+ * Newest version of a superseded fragment along the SUPERSEDES relations the
+ * filter honours, or null if it is current or the successor cannot be loaded
+ */
+async function loadLatestVersion(
+  context: ServerContext,
+  fragmentUuid: string,
+  relations: Relation[],
+  filter: SupersedesFilter
+): Promise<Verified<Fragment> | null> {
+  if (!relations.some((r) => r.type === 'SUPERSEDES' && r.to.entity === fragmentUuid)) {
+    return null;
+  }
+
+  try {
+    const history = await getFragmentHistory(context.gateway, fragmentUuid, undefined, filter);
+    if (history.latest === fragmentUuid) {
+      return null;
+    }
+    const [latest] = await context.verifier.annotateFragments([await context.gateway.getFragment(history.latest)]);
+    return latest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Preset encoding of a fragment, memoised in `encodings`. The fragment's
+ * transform decides; only when it cannot be loaded is the encoding guessed
+ * from the content.
+ */
+async function resolveEncoding(
+  context: ServerContext,
+  fragment: Fragment,
+  encodings: Map<string, string>
+): Promise<string | undefined> {
+  if (!encodings.has(fragment.uuid)) {
+    const preset = await context.transformEngine.presetOf(fragment.transform?.entity, fragment.content);
+    if (preset) {
+      encodings.set(fragment.uuid, preset);
+    }
+  }
+  return encodings.get(fragment.uuid);
+}
+
+/**
+ * Decode instructions for compressed fragments, one section per preset so
+ * each decode spec appears once. Empty when nothing is compressed.
+ */
+function formatDecodeBlock(groups: Map<string, string[]>): string[] {
+  if (groups.size === 0) {
+    return [];
+  }
+
+  const block: string[] = [];
+  block.push('## Decoding required');
+  block.push('');
+  block.push('Some fragments above are stored in compressed encodings. Expand each group to English with its decode instructions before relying on it.');
+  block.push('');
+  for (const [preset, uuids] of groups) {
+    const spec = PRESETS[preset];
+    block.push(`### ${spec.name} (${spec.transform_to}): ${uuids.map((u) => `id:${u.substring(0, 8)}`).join(', ')}`);
+    block.push('');
+    block.push(spec.decode_instructions);
+    block.push('');
+  }
+  return block;
+}
+
+function calculateEvidenceBalance(thesisId: string, evidence: EvidenceItem[]): EvidenceBalance {
   const balance: EvidenceBalance = {
     thesis_id: thesisId,
     supporting: [],
@@ -51,17 +314,13 @@ function calculateEvidenceBalance(thesisId: string, relations: Relation[]): Evid
     net_score: 0,
   };
 
-  for (const relation of relations) {
-    // Compare target entity UUID with thesisId
-    if (relation.to.entity === thesisId) {
-      const confidence = relation.confidence ?? 1.0;
-      if (relation.type === 'SUPPORTS') {
-        balance.supporting.push({ fragment_id: relation.from.entity, confidence });
-        balance.support_score += confidence;
-      } else if (relation.type === 'CONTRADICTS') {
-        balance.contradicting.push({ fragment_id: relation.from.entity, confidence });
-        balance.contradict_score += confidence;
-      }
+  for (const item of evidence) {
+    if (item.relation_type === 'SUPPORTS') {
+      balance.supporting.push(item);
+      balance.support_score += item.weight;
+    } else if (item.relation_type === 'CONTRADICTS') {
+      balance.contradicting.push(item);
+      balance.contradict_score += item.weight;
     }
   }
 
@@ -69,6 +328,22 @@ function calculateEvidenceBalance(thesisId: string, relations: Relation[]): Evid
   return balance;
 }
 
+/**
+ * Tool output for one piece of evidence
+ */
+function formatEvidence(item: EvidenceItem): Record<string, unknown> {
+  return {
+    fragment_id: item.fragment_id,
+    content: item.fragment ? preview(item.fragment.content) : '[Fragment not found]',
+    fragment_confidence: item.fragment_confidence,
+    relation_confidence: item.relation_confidence,
+    relation_creator: item.creator || 'unknown',
+    creator_trust: round(item.creator_trust),
+    relation_verified: item.verified,
+    weight: round(item.weight),
+  };
+}
+
 // ============================================================================
 // Tool Definitions
 // ============================================================================
@@ -79,7 +354,7 @@ export function createValidityTools(): ToolDefinition[] {
       tool: {
         name: 'wisdom_get_evidence_balance',
         description:
-          'Find all supporting and contradicting evidence for a thesis fragment. Returns weighted scores.',
+          'Find all supporting and contradicting evidence for a thesis fragment. Evidence is weighted by relation confidence, the evidence fragment\'s confidence and the trust of the agent that signed the relation. `truncated` is set when not every relation could be loaded.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -94,31 +369,26 @@ export function createValidityTools(): ToolDefinition[] {
       handler: async (args, context) => {
         const fragmentId = args.fragment_id as string;
 
-        // Get the fragment first to verify it exists
+        // Get the fragment first to verify it exists (throws NotFoundError)
         const fragment = await context.gateway.getFragment(fragmentId);
-        if (!fragment) {
-          throw new Error(`Fragment not found: ${fragmentId}`);
-        }
 
-        // Get all relations involving this fragment
-        const relations = await context.gateway.listRelations(100);
-        const relationsData = relations.items || [];
-
-        // Calculate evidence balance
-        const balance = calculateEvidenceBalance(fragmentId, relationsData);
+        // Weighted evidence pointing at this fragment
+        const evidence = await collectEvidence(context, fragmentId, ['SUPPORTS', 'CONTRADICTS']);
+        const balance = calculateEvidenceBalance(fragmentId, evidence.items);
 
         return {
           thesis: {
             uuid: fragment.uuid,
-            content: fragment.content.substring(0, 200) + (fragment.content.length > 200 ? '...' : ''),
+            content: preview(fragment.content),
             confidence: fragment.confidence,
             evidence_type: fragment.evidence_type,
           },
-          supporting: balance.supporting,
-          contradicting: balance.contradicting,
-          support_score: Math.round(balance.support_score * 100) / 100,
-          contradict_score: Math.round(balance.contradict_score * 100) / 100,
-          net_score: Math.round(balance.net_score * 100) / 100,
+          supporting: balance.supporting.map(formatEvidence),
+          contradicting: balance.contradicting.map(formatEvidence),
+          support_score: round(balance.support_score),
+          contradict_score: round(balance.contradict_score),
+          net_score: round(balance.net_score),
+          truncated: evidence.truncated,
           verdict:
             balance.net_score > 0.5
               ? 'well_supported'
@@ -148,49 +418,31 @@ export function createValidityTools(): ToolDefinition[] {
       handler: async (args, context) => {
         const fragmentId = args.fragment_id as string;
 
-        // Get the fragment
-        const fragment = await context.gateway.getFragment(fragmentId);
-        if (!fragment) {
-          throw new Error(`Fragment not found: ${fragmentId}`);
-        }
-
-        // Get all relations
-        const relations = await context.gateway.listRelations(100);
-        const relationsData = relations.items || [];
-
-        // Find contradicting relations
-        const contradictions = relationsData.filter(
-          (r) => r.to.entity === fragmentId && r.type === 'CONTRADICTS'
-        );
-
-        // Get the contradicting fragments
-        const contradictingFragments = await Promise.all(
-          contradictions.map(async (rel) => {
-            try {
-              const frag = await context.gateway.getFragment(rel.from.entity);
-              return {
-                uuid: frag.uuid,
-                content: frag.content.substring(0, 200) + (frag.content.length > 200 ? '...' : ''),
-                confidence: frag.confidence,
-                relation_confidence: rel.confidence,
-                creator: addressToString(frag.creator),
-              };
-            } catch {
-              return {
-                uuid: rel.from.entity,
-                content: '[Fragment not found]',
-                confidence: 0,
-                relation_confidence: rel.confidence,
-                creator: 'unknown',
-              };
-            }
-          })
-        );
+        // Verify the fragment exists (throws NotFoundError)
+        await context.gateway.getFragment(fragmentId);
+
+        // Contradiction is symmetric: count CONTRADICTS in both directions
+        const contradictions = await collectEvidence(context, fragmentId, ['CONTRADICTS'], true);
+        const contradictingFragments = contradictions.items
+          .sort((a, b) => b.weight - a.weight)
+          .map((item) => ({
+            uuid: item.fragment_id,
+            content: item.fragment ? preview(item.fragment.content) : '[Fragment not found]',
+            confidence: item.fragment_confidence,
+            relation_confidence: item.relation_confidence,
+            creator: item.fragment ? addressToString(item.fragment.creator) : 'unknown',
+            relation_creator: item.creator || 'unknown',
+            creator_trust: round(item.creator_trust),
+            relation_verified: item.verified,
+            weight: round(item.weight),
+          }));
 
         return {
           fragment_id: fragmentId,
           contradiction_count: contradictingFragments.length,
+          contradiction_weight: round(contradictions.items.reduce((sum, item) => sum + item.weight, 0)),
           contradictions: contradictingFragments,
+          truncated: contradictions.truncated,
         };
       },
     },
@@ -199,7 +451,7 @@ export function createValidityTools(): ToolDefinition[] {
       tool: {
         name: 'wisdom_check_derivation_chain',
         description:
-          'Check the integrity of a derivation chain (DERIVED_FROM relations) for a fragment',
+          'Check the integrity of a derivation chain (DERIVED_FROM relations) for a fragment. Only DERIVED_FROM relations signed by the derived fragment\'s creator and votes with a valid signature count. Flags missing, circular, contested, low-confidence and unverified premises and propagates confidence along the chain.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -211,6 +463,10 @@ export function createValidityTools(): ToolDefinition[] {
               type: 'number',
               description: 'Maximum depth to traverse (default: 10)',
             },
+            min_confidence: {
+              type: 'number',
+              description: 'Premises below this confidence are flagged as low_confidence (default: 0.5)',
+            },
           },
           required: ['fragment_id'],
         },
@@ -218,81 +474,183 @@ export function createValidityTools(): ToolDefinition[] {
       handler: async (args, context) => {
         const fragmentId = args.fragment_id as string;
         const maxDepth = (args.max_depth as number) || 10;
-
-        // Get all relations
-        const relations = await context.gateway.listRelations(500);
-        const relationsData = relations.items || [];
+        const minConfidence = (args.min_confidence as number) ?? 0.5;
+        const perspective = context.config.config.agent_uuid;
+        const engine = perspective ? trustEngine(context) : null;
+        const creatorSigned = creatorSignedDerivations(context.gateway, context.verifier);
 
         // Build derivation chain
-        const chain: Array<{
-          fragment_id: string;
-          depth: number;
-          derives_from: string[];
-        }> = [];
-        const visited = new Set<string>();
+        const chain: ChainNode[] = [];
+        const nodes = new Map<string, ChainNode | null>();
         const issues: ValidityIssue[] = [];
 
-        async function traverse(fragId: string, depth: number): Promise<void> {
-          if (depth > maxDepth || visited.has(fragId)) {
-            if (visited.has(fragId)) {
-              issues.push({
-                fragment_id: fragId,
-                issue_type: 'circular_dependency',
-                description: `Circular dependency detected at fragment ${fragId}`,
-                severity: 1.0,
-              });
-            }
-            return;
+        /**
+         * Load and assess one fragment. Returns null when it does not exist.
+         */
+        async function inspect(fragId: string, depth: number): Promise<ChainNode | null> {
+          let fragment: Fragment;
+          try {
+            fragment = await context.gateway.getFragment(fragId);
+          } catch (error) {
+            if (error instanceof NotFoundError) return null;
+            throw error;
+          }
+          if (!fragment?.uuid) {
+            return null;
           }
 
-          visited.add(fragId);
-
-          // Find DERIVED_FROM relations for this fragment
-          const derivedFromRelations = relationsData.filter(
-            (r) => r.from.entity === fragId && r.type === 'DERIVED_FROM'
-          );
-
-          const derivesFrom = derivedFromRelations.map((r) => r.to.entity);
+          // No votes yet is a 404; any other failure leaves the votes unknown
+          let votes: TrustVote[] = [];
+          let votesAvailable = true;
+          try {
+            votes = await context.gateway.getVotesForTarget(fragId);
+          } catch (error) {
+            votesAvailable = error instanceof NotFoundError;
+          }
+          const assessment = await assessVotes(fragment, votes, context.verifier, engine, perspective);
 
-          chain.push({
+          return {
             fragment_id: fragId,
             depth,
-            derives_from: derivesFrom,
-          });
+            derives_from: [],
+            confidence: fragment.confidence ?? 0.5,
+            chain_confidence: fragment.confidence ?? 0.5,
+            verified: await context.verifier.verifyFragment(fragment),
+            vote_score: assessment.vote_score,
+            retracted: assessment.retracted,
+            votes_available: votesAvailable,
+          };
+        }
+
+        /**
+         * Flag problems with a premise (any ancestor of the checked fragment)
+         */
+        function checkPremise(node: ChainNode): void {
+          if (node.retracted) {
+            issues.push({
+              fragment_id: node.fragment_id,
+              issue_type: 'contested_premise',
+              description: `Premise ${node.fragment_id} was retracted by its creator`,
+              severity: 1.0,
+            });
+          } else if (node.vote_score !== null && node.vote_score < 0) {
+            issues.push({
+              fragment_id: node.fragment_id,
+              issue_type: 'contested_premise',
+              description: `Premise ${node.fragment_id} is contested (vote score ${round(node.vote_score)})`,
+              severity: round(Math.min(1, -node.vote_score)),
+            });
+          }
+
+          if (node.confidence < minConfidence) {
+            issues.push({
+              fragment_id: node.fragment_id,
+              issue_type: 'low_confidence',
+              description: `Premise ${node.fragment_id} has confidence ${node.confidence} (below ${minConfidence})`,
+              severity: round(1 - node.confidence),
+            });
+          }
+
+          if (node.verified === false) {
+            issues.push({
+              fragment_id: node.fragment_id,
+              issue_type: 'unverified_source',
+              description: `Premise ${node.fragment_id} has an invalid signature`,
+              severity: 0.8,
+            });
+          }
+        }
+
+        // `path` holds the fragments on the current branch; revisiting one of
+        // them is a cycle, revisiting any other known fragment is a shared premise.
+        // Returns the propagated confidence of the fragment, or null if it is missing.
+        async function traverse(fragId: string, depth: number, path: string[]): Promise<number | null> {
+          if (path.includes(fragId)) {
+            issues.push({
+              fragment_id: fragId,
+              issue_type: 'circular_dependency',
+              description: `Circular dependency detected at fragment ${fragId}`,
+              severity: 1.0,
+            });
+            return 0;
+          }
+          if (nodes.has(fragId)) {
+            return nodes.get(fragId)?.chain_confidence ?? null;
+          }
+
+          const node = await inspect(fragId, depth);
+          nodes.set(fragId, node);
+          if (!node) {
+            return null;
+          }
+          chain.push(node);
+          if (depth > 0) {
+            checkPremise(node);
+          }
+          if (depth >= maxDepth) {
+            return node.chain_confidence;
+          }
 
-          // Check if sources exist
-          for (const sourceId of derivesFrom) {
-            try {
-              await context.gateway.getFragment(sourceId);
-            } catch {
+          // Premises declared by this fragment's creator
+          const declared = (await getRelationsOfType(context.gateway, fragId, 'DERIVED_FROM'))
+            .filter((r) => r.from.entity === fragId);
+          const honoured = await Promise.all(declared.map(creatorSigned));
+          const derivedFromRelations = declared.filter((_, i) => honoured[i]);
+          node.derives_from = [...new Set(derivedFromRelations.map((r) => r.to.entity))];
+
+          // A derived claim is only as strong as its weakest premise
+          let weakest = 1;
+          for (const sourceId of node.derives_from) {
+            const sourceConfidence = await traverse(sourceId, depth + 1, [...path, fragId]);
+            if (sourceConfidence === null) {
               issues.push({
                 fragment_id: fragId,
                 issue_type: 'missing_reference',
                 description: `Fragment ${fragId} derives from non-existent fragment ${sourceId}`,
                 severity: 1.0,
               });
+              weakest = 0;
+            } else {
+              weakest = Math.min(weakest, sourceConfidence);
             }
           }
-
-          // Traverse deeper
-          for (const sourceId of derivesFrom) {
-            await traverse(sourceId, depth + 1);
-          }
+          node.chain_confidence = node.confidence * weakest;
+          return node.chain_confidence;
         }
 
-        await traverse(fragmentId, 0);
+        const chainConfidence = await traverse(fragmentId, 0, []);
+        if (chainConfidence === null) {
+          throw new Error(`Fragment not found: ${fragmentId}`);
+        }
 
         // Determine overall validity
         let validity: ChainValidity = 'valid';
         if (issues.some((i) => i.issue_type === 'missing_reference' || i.issue_type === 'circular_dependency')) {
           validity = 'broken';
+        } else if (issues.some((i) => i.issue_type === 'contested_premise')) {
+          validity = 'contested';
+        } else if (issues.length > 0) {
+          validity = 'conditional';
         }
 
+        // Without votes, contested or retracted premises can go unnoticed
+        const votesUnavailable = chain.filter((node) => !node.votes_available).map((node) => node.fragment_id);
+
         return {
           fragment_id: fragmentId,
           validity,
+          ...(votesUnavailable.length > 0 && {
+            partial: true,
+            votes_unavailable: votesUnavailable,
+            note: 'Votes could not be loaded for some fragments; contested or retracted premises may be missed.',
+          }),
+          chain_confidence: round(chainConfidence),
           chain_depth: chain.length,
-          derivation_chain: chain,
+          derivation_chain: chain.map((node) => ({
+            ...node,
+            chain_confidence: round(node.chain_confidence),
+            vote_score: node.vote_score === null ? null : round(node.vote_score),
+          })),
           issues,
         };
       },
@@ -302,7 +660,7 @@ export function createValidityTools(): ToolDefinition[] {
       tool: {
         name: 'wisdom_load_context_for_task',
         description:
-          'ALWAYS call this at the start of any task to load relevant prior knowledge and avoid duplicating work. Searches the wisdom network for fragments matching the task description, filtered by trust and confidence within a token budget.',
+          'ALWAYS call this at the start of any task to load relevant prior knowledge and avoid duplicating work. Searches the wisdom network and a local index of previously seen fragments for the task description, ranked by relevance, trust and confidence within a token budget.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -322,6 +680,24 @@ export function createValidityTools(): ToolDefinition[] {
               type: 'string',
               description: 'Filter by project UUID',
             },
+            packing: {
+              type: 'string',
+              enum: ['flat', 'graph'],
+              description: 'flat: matching fragments only. graph: also pull in SUPPORTS/CONTRADICTS/CLARIFIES neighbours of top hits, mark contradictions inline and replace fragments superseded by their creator with their latest version (default: flat)',
+            },
+            expand_top: {
+              type: 'number',
+              description: 'Graph packing: number of top hits whose neighbours are pulled in (default: 5)',
+            },
+            max_neighbors: {
+              type: 'number',
+              description: 'Graph packing: maximum neighbours per expanded hit (default: 5)',
+            },
+            decode: {
+              type: 'string',
+              enum: ['host', 'raw'],
+              description: 'host: label compressed fragments and attach decode instructions for their presets. raw: return stored content without transform lookups (default: host)',
+            },
           },
           required: ['task_description'],
         },
@@ -331,41 +707,191 @@ export function createValidityTools(): ToolDefinition[] {
         const tokenBudget = (args.token_budget as number) || 10000;
         const minConfidence = (args.min_confidence as number) || 0.3;
         const project = (args.project as string) || context.config.config.current_project;
+        const graphPacking = args.packing === 'graph';
+        const expandTop = (args.expand_top as number) || 5;
+        const maxNeighbours = (args.max_neighbors as number) || 5;
+        const decodeMode = args.decode === 'raw' ? 'raw' : 'host';
+
+        // Gateway search; when the gateway is unreachable the local index is used alone
+        let gatewayItems: Fragment[] = [];
+        let gatewayReachable = true;
+        try {
+          const searchResult = await context.gateway.searchFragments({
+            query: taskDescription,
+            project: project || undefined,
+            limit: 50,
+          });
+          gatewayItems = searchResult.items || [];
+          context.searchIndex.addFragments(gatewayItems, project || undefined);
+        } catch {
+          gatewayReachable = false;
+        }
+
+        // Blend with the local index, deduplicated by UUID
+        const candidates = new Map<string, Fragment>(gatewayItems.map((f) => [f.uuid, f]));
+        const localHits = context.searchIndex.search(taskDescription, 50, project || undefined);
+        for (const hit of localHits) {
+          if (!candidates.has(hit.fragment.uuid)) {
+            candidates.set(hit.fragment.uuid, hit.fragment);
+          }
+        }
+        const gatewayHits = new Set(gatewayItems.map((f) => f.uuid));
+
+        // Lexical relevance relative to the best local match
+        const lexical = new Map(
+          [...candidates.keys()].map((uuid) => [uuid, context.searchIndex.score(taskDescription, uuid)])
+        );
+        const bestLexical = Math.max(0, ...lexical.values());
 
-        // Search for relevant fragments
-        const searchResult = await context.gateway.searchFragments({
-          query: taskDescription,
-          project: project || undefined,
-          limit: 50,
-        });
-        const searchData = searchResult.items || [];
+        const searchData = await context.verifier.annotateFragments([...candidates.values()]);
+        const dropUnverified = !!context.config.config.drop_unverified;
 
-        // Filter by confidence and calculate relevance
+        // Filter by signature, confidence and calculate relevance
         const filteredFragments = searchData
+          .filter((f) => !dropUnverified || f.verified === true)
           .filter((f) => (f.confidence ?? 0.5) >= minConfidence)
-          .map((f) => ({
-            ...f,
-            // Simple relevance score based on trust and confidence
-            relevance_score: ((f.trust_summary?.score ?? 0) + 1) / 2 * (f.confidence ?? 0.5),
-          }))
+          .map((f) => {
+            // Gateway matches count as moderately relevant even without shared terms
+            const match = Math.max(
+              bestLexical > 0 ? (lexical.get(f.uuid) || 0) / bestLexical : 0,
+              gatewayHits.has(f.uuid) ? 0.5 : 0
+            );
+            const quality = ((f.trust_summary?.score ?? 0) + 1) / 2 * (f.confidence ?? 0.5);
+            return {
+              ...f,
+              relevance_score: 0.6 * match + 0.4 * quality,
+            };
+          })
           .sort((a, b) => b.relevance_score - a.relevance_score);
 
-        // Fit within token budget (rough estimate: 4 chars = 1 token)
-        const charsPerToken = 4;
-        let totalChars = 0;
+        // Fit within token budget
+        const metadataTokens = 25; // type, trust and id labels per fragment
+        let estimatedTokens = 0;
         const selectedFragments: typeof filteredFragments = [];
+        const included = new Set<string>();
+        const neighbours = new Map<string, ContextNeighbour[]>();
+        const replaces = new Map<string, string>(); // latest version -> superseded hit
+        let neighbourCount = 0;
+
+        const relationsOf = (uuid: string): Promise<Relation[]> =>
+          getAllRelationsForEntity(context.gateway, uuid, 'both').then(
+            (collected) => collected.relations,
+            () => []
+          );
+
+        // Compressed fragments are counted with their preset's calibration;
+        // raw mode skips transform lookups and guesses from the content
+        const encodings = new Map<string, string>();
+        const tokensOf = async (f: Fragment): Promise<number> => {
+          const preset = decodeMode === 'host' ? await resolveEncoding(context, f, encodings) : undefined;
+          return countTokens(f.content, preset) + metadataTokens;
+        };
+
+        // Admit a fragment if it fits, together with what it adds to the
+        // decode instructions, so the block never pushes the total over budget
+        let decodeGroups = new Map<string, string[]>();
+        let decodeTokens = 0;
+        const admit = async (f: Fragment): Promise<boolean> => {
+          const tokens = await tokensOf(f);
+          const preset = encodings.get(f.uuid);
+          let groups = decodeGroups;
+          let blockTokens = decodeTokens;
+          if (preset && isCompressedPreset(preset)) {
+            groups = new Map(decodeGroups).set(preset, [...(decodeGroups.get(preset) || []), f.uuid]);
+            blockTokens = countTokens(formatDecodeBlock(groups).join('\n'), 'baseline');
+          }
+
+          const cost = tokens + blockTokens - decodeTokens;
+          if (estimatedTokens + cost > tokenBudget) {
+            return false;
+          }
+          estimatedTokens += cost;
+          decodeGroups = groups;
+          decodeTokens = blockTokens;
+          included.add(f.uuid);
+          return true;
+        };
+        const supersedesFilter = creatorSignedSupersedes(context.gateway, context.verifier);
+
+        for (const candidate of filteredFragments) {
+          let fragment = candidate;
+          let relations: Relation[] = [];
+
+          if (graphPacking) {
+            relations = await relationsOf(fragment.uuid);
+            const latest = await loadLatestVersion(context, fragment.uuid, relations, supersedesFilter);
+            if (latest && (latest.confidence ?? 0.5) < minConfidence) {
+              // The current version no longer meets the threshold
+              continue;
+            }
+            if (latest && (!dropUnverified || latest.verified === true)) {
+              replaces.set(latest.uuid, fragment.uuid);
+              fragment = { ...latest, relevance_score: candidate.relevance_score };
+              relations = await relationsOf(fragment.uuid);
+            }
+          }
 
-        for (const fragment of filteredFragments) {
-          const fragChars = fragment.content.length + 100; // overhead for metadata
-          if (totalChars + fragChars > tokenBudget * charsPerToken) {
+          if (included.has(fragment.uuid)) {
+            continue;
+          }
+          if (!(await admit(fragment))) {
             break;
           }
-          totalChars += fragChars;
           selectedFragments.push(fragment);
+
+          if (!graphPacking || selectedFragments.length > expandTop) {
+            continue;
+          }
+
+          // Pull in related fragments, contradictions first; forged relations never count
+          const candidates = relations.filter(
+            (r) => NEIGHBOUR_TYPES.includes(r.type) && r.from.entity !== r.to.entity
+          );
+          const related = (await context.verifier.annotateRelations(candidates))
+            .filter((r) => acceptsVerification(r.verified, dropUnverified))
+            .sort((a, b) => NEIGHBOUR_TYPES.indexOf(a.type) - NEIGHBOUR_TYPES.indexOf(b.type))
+            .slice(0, maxNeighbours);
+          const packed: ContextNeighbour[] = [];
+
+          for (const relation of related) {
+            const incoming = relation.to.entity === fragment.uuid;
+            const uuid = incoming ? relation.from.entity : relation.to.entity;
+            const neighbour: ContextNeighbour = {
+              uuid,
+              label: NEIGHBOUR_LABELS[relation.type][incoming ? 'incoming' : 'outgoing'],
+              contradiction: relation.type === 'CONTRADICTS',
+              fragment: null,
+            };
+
+            // Already in the context: reference it instead of repeating the content
+            if (!included.has(uuid)) {
+              try {
+                const [loaded] = await context.verifier.annotateFragments([await context.gateway.getFragment(uuid)]);
+                if (dropUnverified && loaded.verified !== true) continue;
+                if (await admit(loaded)) {
+                  neighbour.fragment = loaded;
+                }
+              } catch {
+                // Unreachable neighbours are still worth referencing
+              }
+            }
+
+            // Caveats are always kept, at least as a reference
+            if (neighbour.fragment || neighbour.contradiction) {
+              const referenceTokens = neighbour.fragment ? 0 : 15;
+              if (estimatedTokens + referenceTokens > tokenBudget) continue;
+              estimatedTokens += referenceTokens;
+              packed.push(neighbour);
+            }
+          }
+
+          if (packed.length > 0) {
+            neighbours.set(fragment.uuid, packed);
+            neighbourCount += packed.length;
+          }
         }
 
         // Build formatted output for easy consumption
-        const estimatedTokens = Math.ceil(totalChars / charsPerToken);
         const avgTrust = selectedFragments.length > 0
           ? selectedFragments.reduce((sum, f) => sum + (f.trust_summary?.score ?? 0), 0) / selectedFragments.length
           : 0;
@@ -374,10 +900,31 @@ export function createValidityTools(): ToolDefinition[] {
         const medRelevance = selectedFragments.filter((f) => f.relevance_score > 0.3 && f.relevance_score <= 0.6);
         const lowRelevance = selectedFragments.filter((f) => f.relevance_score <= 0.3);
 
-        function formatFragment(f: typeof selectedFragments[0]): string {
+        function formatFragment(f: Verified<Fragment>, extra = '', label = ''): string {
           const typeLabel = f.evidence_type && f.evidence_type !== 'unknown' ? `[${f.evidence_type.toUpperCase()}]` : '';
           const trustLabel = `Trust: ${((f.trust_summary?.score ?? 0) + 1) / 2 >= 0.5 ? Math.round(((f.trust_summary?.score ?? 0) + 1) / 2 * 100) / 100 : 'low'}`;
-          return `- ${typeLabel} "${f.content}" (${trustLabel}, id:${f.uuid.substring(0, 8)})`;
+          const verifiedLabel = f.verified === true ? '' : f.verified === false ? ', UNVERIFIED SIGNATURE' : ', unknown signer';
+          const encoding = encodings.get(f.uuid);
+          const encodingLabel = isCompressedPreset(encoding) ? `, encoding: ${encoding}` : '';
+          return `- ${label}${typeLabel} "${f.content}" (${trustLabel}${verifiedLabel}${encodingLabel}${extra}, id:${f.uuid.substring(0, 8)})`;
+        }
+
+        function formatEntry(f: typeof selectedFragments[0]): string[] {
+          const related = neighbours.get(f.uuid) || [];
+          const superseded = replaces.get(f.uuid);
+          const extra = (related.some((n) => n.contradiction) ? ', ⚠ CONTRADICTED' : '')
+            + (superseded ? `, replaces superseded id:${superseded.substring(0, 8)}` : '');
+          const lines = [formatFragment(f, extra)];
+
+          for (const n of related) {
+            const marker = n.contradiction ? '⚠ ' : '';
+            lines.push(
+              n.fragment
+                ? `  ${formatFragment(n.fragment, '', `${marker}${n.label}: `)}`
+                : `  - ${marker}${n.label}: id:${n.uuid.substring(0, 8)}${included.has(n.uuid) ? ' (listed separately)' : ' (not loaded)'}`
+            );
+          }
+          return lines;
         }
 
         const sections: string[] = [];
@@ -386,19 +933,19 @@ export function createValidityTools(): ToolDefinition[] {
 
         if (highRelevance.length > 0) {
           sections.push('### High relevance:');
-          highRelevance.forEach((f) => sections.push(formatFragment(f)));
+          highRelevance.forEach((f) => sections.push(...formatEntry(f)));
           sections.push('');
         }
 
         if (medRelevance.length > 0) {
           sections.push('### Medium relevance:');
-          medRelevance.forEach((f) => sections.push(formatFragment(f)));
+          medRelevance.forEach((f) => sections.push(...formatEntry(f)));
           sections.push('');
         }
 
         if (lowRelevance.length > 0) {
           sections.push('### Low relevance:');
-          lowRelevance.forEach((f) => sections.push(formatFragment(f)));
+          lowRelevance.forEach((f) => sections.push(...formatEntry(f)));
           sections.push('');
         }
 
@@ -406,7 +953,14 @@ export function createValidityTools(): ToolDefinition[] {
           sections.push('No relevant prior knowledge found for this task.');
         }
 
-        sections.push(`\n---\nTokens: ~${estimatedTokens}/${tokenBudget} | Found: ${searchData.length} | Returned: ${selectedFragments.length}`);
+        sections.push(...formatDecodeBlock(decodeGroups));
+
+        if (!gatewayReachable) {
+          sections.push('_Gateway unreachable: results come from the local index only._');
+        }
+
+        const packingInfo = graphPacking ? ` | Neighbours: ${neighbourCount} | Superseded replaced: ${replaces.size}` : '';
+        sections.push(`\n---\nTokens: ~${estimatedTokens}/${tokenBudget} | Found: ${searchData.length} (gateway: ${gatewayItems.length}, local: ${localHits.length}) | Returned: ${selectedFragments.length}${packingInfo}`);
 
         return sections.join('\n');
       },
@@ -72,7 +72,8 @@ export interface TagSuggestionResponse {
  */
 export function createEncodeInstructions(
   content: string,
-  transformSpec: string | null
+  transformSpec: string | null,
+  followUp?: string
 ): string {
   let instructions = `Please transform the following content into one or more English knowledge fragments. Each fragment should be:
 1. Self-contained and atomic (one concept per fragment)
@@ -99,6 +100,41 @@ Return your result as JSON:
   "source_language_detected": "detected language code"
 }`;
 
+  if (followUp) {
+    instructions += `\n\n${followUp}`;
+  }
+
+  return instructions;
+}
+
+/**
+ * Create an encode instruction for a preset encoding of a known fragment type
+ */
+export function createPresetEncodeInstructions(
+  content: string,
+  encodeInstructions: string,
+  fragmentType: string,
+  followUp?: string
+): string {
+  let instructions = `${encodeInstructions}
+
+Content to transform:
+${content}
+
+Return your result as JSON:
+{
+  "fragments": [
+    {
+      "content": "The encoded fragment",
+      "type": "${fragmentType}"
+    }
+  ]
+}`;
+
+  if (followUp) {
+    instructions += `\n\n${followUp}`;
+  }
+
   return instructions;
 }
 
@@ -132,6 +168,78 @@ Return your result as JSON:
   return instructions;
 }
 
+/**
+ * Parse a host reply given as an object or JSON text (optionally in a ```json fence)
+ */
+function parseHostReply(reply: unknown, kind: string): Record<string, unknown> {
+  let value = reply;
+  if (typeof value === 'string') {
+    const text = value.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+    try {
+      value = JSON.parse(text);
+    } catch {
+      throw new Error(`Invalid ${kind}: not valid JSON`);
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid ${kind}: expected a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Check a host reply to an encode request. Throws on the first problem.
+ */
+export function validateEncodeResponse(reply: unknown): EncodeResponse {
+  const value = parseHostReply(reply, 'encode response');
+  const fragments = value.fragments;
+  if (!Array.isArray(fragments) || fragments.length === 0) {
+    throw new Error('Invalid encode response: fragments must be a non-empty array');
+  }
+
+  const checked = fragments.map((fragment, i) => {
+    if (!fragment || typeof fragment !== 'object') {
+      throw new Error(`Invalid encode response: fragments[${i}] must be an object`);
+    }
+    const { content, type } = fragment as Record<string, unknown>;
+    if (typeof content !== 'string' || content.trim() === '') {
+      throw new Error(`Invalid encode response: fragments[${i}].content must be a non-empty string`);
+    }
+    if (type !== undefined && typeof type !== 'string') {
+      throw new Error(`Invalid encode response: fragments[${i}].type must be a string`);
+    }
+    return fragment as EncodeResponse['fragments'][number];
+  });
+
+  if (value.source_language_detected !== undefined && typeof value.source_language_detected !== 'string') {
+    throw new Error('Invalid encode response: source_language_detected must be a string');
+  }
+
+  return {
+    fragments: checked,
+    ...(value.source_language_detected !== undefined && {
+      source_language_detected: value.source_language_detected as string,
+    }),
+  };
+}
+
+/**
+ * Check a host reply to a decode request. Throws on the first problem.
+ */
+export function validateDecodeResponse(reply: unknown): DecodeResponse {
+  const value = parseHostReply(reply, 'decode response');
+  if (typeof value.content !== 'string' || value.content.trim() === '') {
+    throw new Error('Invalid decode response: content must be a non-empty string');
+  }
+  if (value.notes !== undefined && typeof value.notes !== 'string') {
+    throw new Error('Invalid decode response: notes must be a string');
+  }
+  return {
+    content: value.content,
+    ...(value.notes !== undefined && { notes: value.notes as string }),
+  };
+}
+
 /**
  * Create a tag suggestion instruction
  */
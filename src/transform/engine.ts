@@ -1,40 +1,151 @@
 import type { GatewayClient } from '../gateway/client.js';
-import type { Transform } from '../gateway/types.js';
+import type { CursorPaginatedResponse, Transform } from '../gateway/types.js';
+import { detectPresetFormat } from '../tokenizer/counter.js';
+import { PRESETS, presetForTransform } from './presets.js';
 import {
+  type DecodeResponse,
+  type EncodeResponse,
   type TransformDelegationRequest,
   createEncodeInstructions,
   createDecodeInstructions,
+  createPresetEncodeInstructions,
+  validateDecodeResponse,
+  validateEncodeResponse,
 } from './delegation.js';
 
+const MAX_CACHED_TRANSFORMS = 500;
+
+/**
+ * A transform with its encode/decode specification resolved. Preset
+ * transforms use the preset's instructions; other transforms use the
+ * instructions in additional_data (JSON keys, or the whole text).
+ */
+export interface ResolvedTransform {
+  transform: Transform | null;
+  preset?: string;
+  transform_to: string;
+  encode_spec: string | null;
+  decode_spec: string | null;
+}
+
 /**
- * Transform engine that orchestrates transformations via host delegation
+ * Options for transform lookup
+ */
+export interface TransformLookup {
+  transformUuid?: string;
+  domain?: string;
+  preset?: string; // Used when no transform is found
+}
+
+/**
+ * Transform engine that orchestrates transformations via host delegation.
+ * Transforms are signed and immutable, so specs are cached until the
+ * gateway changes.
  */
 export class TransformEngine {
   private gateway: GatewayClient;
+  private transforms = new Map<string, Transform>();
+  private domains = new Map<string, string | null>(); // domain -> transform UUID
+  private pending = new Map<string, Promise<Transform>>();
+  private generation = 0; // Bumped by clearCache so in-flight lookups are not cached
 
   constructor(gateway: GatewayClient) {
     this.gateway = gateway;
   }
 
+  /**
+   * Forget cached transforms (e.g. after switching gateways)
+   */
+  clearCache(): void {
+    this.generation++;
+    this.transforms.clear();
+    this.domains.clear();
+    this.pending.clear();
+  }
+
+  private remember(transform: Transform): void {
+    this.transforms.delete(transform.uuid);
+    this.transforms.set(transform.uuid, transform);
+    if (this.transforms.size > MAX_CACHED_TRANSFORMS) {
+      const oldest = this.transforms.keys().next().value;
+      if (oldest) this.transforms.delete(oldest);
+    }
+  }
+
+  /**
+   * Get a transform by UUID, or null when unknown or unreachable
+   */
+  async getTransform(uuid: string): Promise<Transform | null> {
+    return this.requireTransform(uuid).catch(() => null);
+  }
+
+  /**
+   * Get a transform by UUID, rethrowing gateway errors
+   */
+  async requireTransform(uuid: string): Promise<Transform> {
+    const cached = this.transforms.get(uuid);
+    if (cached) return cached;
+
+    // Concurrent lookups of the same transform share one request
+    let pending = this.pending.get(uuid);
+    if (!pending) {
+      const generation = this.generation;
+      const request: Promise<Transform> = this.gateway
+        .getTransform(uuid)
+        .then((transform) => {
+          if (!transform?.uuid) {
+            throw new Error(`Gateway returned no transform for ${uuid}`);
+          }
+          if (generation === this.generation) this.remember(transform);
+          return transform;
+        })
+        .finally(() => {
+          if (this.pending.get(uuid) === request) this.pending.delete(uuid);
+        });
+      pending = request;
+      this.pending.set(uuid, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * List transforms on the gateway, caching the ones returned
+   */
+  async listTransforms(domain?: string, limit = 20, cursor?: string): Promise<CursorPaginatedResponse<Transform>> {
+    const generation = this.generation;
+    const result = await this.gateway.listTransforms(domain, limit, cursor);
+    if (generation === this.generation) {
+      for (const transform of result.items || []) {
+        if (transform?.uuid) this.remember(transform);
+      }
+    }
+    return result;
+  }
+
   /**
    * Find a transform by domain or use default
    */
   async findTransform(domain?: string, transformUuid?: string): Promise<Transform | null> {
     // If specific transform requested, use it
     if (transformUuid) {
-      try {
-        return await this.gateway.getTransform(transformUuid);
-      } catch {
-        return null;
-      }
+      return this.getTransform(transformUuid);
     }
 
     // Search by domain
     if (domain && domain !== 'general') {
+      const known = this.domains.get(domain);
+      if (known !== undefined) {
+        return known ? this.getTransform(known) : null;
+      }
       try {
-        const transforms = await this.gateway.listTransforms(domain, 1);
-        if (transforms.items.length > 0) {
-          return transforms.items[0];
+        const generation = this.generation;
+        const transforms = await this.listTransforms(domain, 1);
+        const first = (transforms.items || [])[0];
+        if (generation === this.generation) {
+          this.domains.set(domain, first?.uuid ?? null);
+        }
+        if (first) {
+          return first;
         }
       } catch {
         // No transforms found
@@ -44,19 +155,67 @@ export class TransformEngine {
     return null;
   }
 
+  /**
+   * Resolve the encode/decode specification of a transform, falling back to
+   * a preset when there is no transform
+   */
+  resolve(transform: Transform | null, fallbackPreset?: string): ResolvedTransform {
+    const preset = transform ? presetForTransform(transform) : fallbackPreset;
+    if (preset && PRESETS[preset] && (!transform || transform.transform_to === PRESETS[preset].transform_to)) {
+      return {
+        transform,
+        preset,
+        transform_to: PRESETS[preset].transform_to,
+        encode_spec: PRESETS[preset].encode_instructions,
+        decode_spec: PRESETS[preset].decode_instructions,
+      };
+    }
+    if (!transform) {
+      return { transform: null, transform_to: 'text/plain', encode_spec: null, decode_spec: null };
+    }
+
+    let encodeSpec = transform.additional_data || null;
+    let decodeSpec = transform.additional_data || null;
+    try {
+      const data = JSON.parse(transform.additional_data || '{}');
+      if (typeof data.encode_instructions === 'string') encodeSpec = data.encode_instructions;
+      if (typeof data.decode_instructions === 'string') decodeSpec = data.decode_instructions;
+    } catch {
+      // Free-form additional_data is the spec for both directions
+    }
+
+    return { transform, preset, transform_to: transform.transform_to, encode_spec: encodeSpec, decode_spec: decodeSpec };
+  }
+
+  /**
+   * Look up and resolve a transform by UUID, then domain, then preset
+   */
+  async lookup(options: TransformLookup): Promise<ResolvedTransform> {
+    const transform = await this.findTransform(options.domain, options.transformUuid);
+    return this.resolve(transform, options.preset);
+  }
+
+  /**
+   * Preset a fragment was encoded with: from its transform, or detected
+   * from the content when the transform is unavailable
+   */
+  async presetOf(transformUuid: string | undefined, content?: string): Promise<string | undefined> {
+    const transform = transformUuid ? await this.getTransform(transformUuid) : null;
+    if (transform) return presetForTransform(transform);
+    return content !== undefined ? detectPresetFormat(content) : undefined;
+  }
+
   /**
    * Create an encode (content → fragments) delegation request
    */
   async createEncodeRequest(
     content: string,
-    options: {
+    options: TransformLookup & {
       sourceLanguage?: string;
-      domain?: string;
-      transformUuid?: string;
+      followUp?: string;
     } = {}
   ): Promise<TransformDelegationRequest> {
-    const transform = await this.findTransform(options.domain, options.transformUuid);
-    const transformSpec = transform?.additional_data || null;
+    const resolved = await this.lookup(options);
 
     return {
       action: 'transform_request',
@@ -65,8 +224,33 @@ export class TransformEngine {
       source_language: options.sourceLanguage || 'auto',
       target_language: 'en',
       domain: options.domain || 'general',
-      transform_spec: transformSpec,
-      instructions: createEncodeInstructions(content, transformSpec),
+      transform_spec: resolved.encode_spec,
+      instructions: createEncodeInstructions(content, resolved.encode_spec, options.followUp),
+    };
+  }
+
+  /**
+   * Create an encode request for a preset and fragment type
+   */
+  createPresetEncodeRequest(
+    content: string,
+    presetKey: string,
+    fragmentType: string,
+    followUp?: string
+  ): TransformDelegationRequest {
+    const preset = PRESETS[presetKey];
+    if (!preset) {
+      throw new Error(`Unknown preset: ${presetKey}`);
+    }
+
+    return {
+      action: 'transform_request',
+      direction: 'encode',
+      input: content,
+      source_language: 'auto',
+      target_language: 'en',
+      transform_spec: preset.encode_instructions,
+      instructions: createPresetEncodeInstructions(content, preset.encode_instructions, fragmentType, followUp),
     };
   }
 
@@ -83,10 +267,10 @@ export class TransformEngine {
   ): Promise<TransformDelegationRequest> {
     // Try to use the original transform, or a specified one
     const transformUuid = options.transformUuid || options.sourceTransformUuid;
-    const transform = transformUuid
-      ? await this.findTransform(undefined, transformUuid)
-      : null;
-    const transformSpec = transform?.additional_data || null;
+    const transform = transformUuid ? await this.getTransform(transformUuid) : null;
+    // Offline: content in a compressed preset format still gets its decode spec
+    const detected = detectPresetFormat(fragmentContent);
+    const resolved = this.resolve(transform, detected === 'baseline' ? undefined : detected);
 
     return {
       action: 'transform_request',
@@ -94,8 +278,22 @@ export class TransformEngine {
       input: fragmentContent,
       source_language: 'en',
       target_language: targetLanguage,
-      transform_spec: transformSpec,
-      instructions: createDecodeInstructions(fragmentContent, targetLanguage, transformSpec),
+      transform_spec: resolved.decode_spec,
+      instructions: createDecodeInstructions(fragmentContent, targetLanguage, resolved.decode_spec),
     };
   }
+
+  /**
+   * Check a host reply to an encode request
+   */
+  validateEncodeResponse(reply: unknown): EncodeResponse {
+    return validateEncodeResponse(reply);
+  }
+
+  /**
+   * Check a host reply to a decode request
+   */
+  validateDecodeResponse(reply: unknown): DecodeResponse {
+    return validateDecodeResponse(reply);
+  }
 }
@@ -0,0 +1,99 @@
+/**
+ * Typed AST shared by the preset encodings (S-expression, compact schema, hybrid)
+ */
+
+/**
+ * Fragment type as expressed by the encodings
+ */
+export type EncodedFragmentType =
+  | 'definition'
+  | 'observation'
+  | 'hypothesis'
+  | 'procedure'
+  | 'conclusion'
+  | 'counterexample'
+  | 'synthesis'
+  | 'question';
+
+/**
+ * Encoding a fragment was parsed from
+ */
+export type EncodingFormat = 'sexp' | 'compact' | 'hybrid';
+
+export interface EncodedEntity {
+  id: string; // Reference used inside the record
+  label: string;
+  type?: string;
+}
+
+export interface EncodedRelation {
+  subject: string; // Entity label or free text
+  predicate: string;
+  object: string;
+  qualifiers: Record<string, string>;
+}
+
+export interface EncodedStep {
+  action: string;
+  object?: string;
+  target?: string;
+}
+
+/**
+ * One parsed record. A single fragment may contain several.
+ */
+export interface EncodedRecord {
+  format: EncodingFormat;
+  type: EncodedFragmentType;
+  id?: string;
+  domain?: string;
+  confidence?: number; // 0.0 to 1.0
+  text?: string; // Natural language part (hybrid)
+  source?: string;
+  goal?: string;
+  condition?: string;
+  consequences: string[];
+  entities: EncodedEntity[];
+  relations: EncodedRelation[];
+  steps: EncodedStep[];
+}
+
+/**
+ * Type codes used by the encodings
+ */
+export const TYPE_CODES: Record<string, EncodedFragmentType> = {
+  def: 'definition',
+  obs: 'observation',
+  hyp: 'hypothesis',
+  pro: 'procedure',
+  proc: 'procedure',
+  con: 'conclusion',
+  conc: 'conclusion',
+  ctx: 'counterexample',
+  syn: 'synthesis',
+  que: 'question',
+};
+
+/**
+ * Confidence levels of the compact schema
+ */
+export const CONFIDENCE_LEVELS: Record<string, number> = {
+  LOW: 0.25,
+  MED: 0.5,
+  HIGH: 0.8,
+  CERT: 0.95,
+};
+
+/**
+ * Resolve a type code (case-insensitive, optional leading ':')
+ */
+export function parseTypeCode(code: string): EncodedFragmentType | undefined {
+  return TYPE_CODES[code.replace(/^:/, '').toLowerCase()];
+}
+
+/**
+ * Create an empty record
+ */
+export function emptyRecord(format: EncodingFormat, type: EncodedFragmentType): EncodedRecord {
+  return { format, type, consequences: [], entities: [], relations: [], steps: [] };
+}
@@ -0,0 +1,211 @@
+/**
+ * Parser for the t3-compact preset (application/x-compact-schema)
+ *
+ *   F{type:DEF dom:CHEM conf:HIGH
+ *     E[1:"NADH" 2:"NAD+" 3:"electrons"]
+ *     R[1 donates 3]}
+ */
+
+import type { EncodedRecord } from './ast.js';
+import { CONFIDENCE_LEVELS, emptyRecord, parseTypeCode } from './ast.js';
+
+interface Token {
+  kind: 'word' | 'string' | 'punct';
+  value: string;
+  offset: number;
+}
+
+/**
+ * Split compact schema text into words, quoted strings and { } [ ] :
+ */
+function lex(text: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const char = text[pos];
+    if (/\s|,/.test(char)) {
+      pos++;
+    } else if ('{}[]:'.includes(char)) {
+      tokens.push({ kind: 'punct', value: char, offset: pos++ });
+    } else if (char === '"') {
+      const start = pos++;
+      let value = '';
+      while (pos < text.length && text[pos] !== '"') {
+        if (text[pos] === '\\' && pos + 1 < text.length) pos++;
+        value += text[pos++];
+      }
+      if (pos >= text.length) {
+        throw new Error(`Unterminated string at offset ${start}`);
+      }
+      pos++;
+      tokens.push({ kind: 'string', value, offset: start });
+    } else {
+      const start = pos;
+      while (pos < text.length && !/[\s,{}[\]:"]/.test(text[pos])) pos++;
+      tokens.push({ kind: 'word', value: text.slice(start, pos), offset: start });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse t3-compact content into records. Throws on malformed input.
+ */
+export function parseCompactSchema(text: string): EncodedRecord[] {
+  const tokens = lex(text);
+  let pos = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[pos + offset];
+  const next = (): Token => {
+    const token = tokens[pos++];
+    if (!token) {
+      throw new Error('Unexpected end of content');
+    }
+    return token;
+  };
+  const expect = (value: string): Token => {
+    const token = next();
+    if (token.value !== value || token.kind === 'string') {
+      throw new Error(`Expected "${value}" at offset ${token.offset}, found "${token.value}"`);
+    }
+    return token;
+  };
+  const isPunct = (token: Token | undefined, value: string): boolean =>
+    token?.kind === 'punct' && token.value === value;
+
+  const records: EncodedRecord[] = [];
+
+  while (pos < tokens.length) {
+    const start = expect('F');
+    expect('{');
+
+    const header: Record<string, string> = {};
+    const refs = new Map<string, string>(); // entity id -> label
+    const record = emptyRecord('compact', 'observation');
+    const pendingRelations: Array<{ parts: Token[]; offset: number }> = [];
+    const pendingSteps: Array<{ fields: Record<string, string>; offset: number }> = [];
+    let goalRef: string | undefined;
+
+    while (!isPunct(peek(), '}')) {
+      const key = next();
+      if (key.kind !== 'word') {
+        throw new Error(`Expected a field at offset ${key.offset}, found "${key.value}"`);
+      }
+
+      if (key.value === 'E' && isPunct(peek(), '[')) {
+        next();
+        while (!isPunct(peek(), ']')) {
+          const id = next();
+          expect(':');
+          const label = next();
+          if (id.kind !== 'word' || label.kind === 'punct') {
+            throw new Error(`Expected id:"label" at offset ${id.offset}`);
+          }
+          refs.set(id.value, label.value);
+          record.entities.push({ id: id.value, label: label.value });
+        }
+        next();
+      } else if (key.value === 'R' && isPunct(peek(), '[')) {
+        next();
+        const parts: Token[] = [];
+        while (!isPunct(peek(), ']')) {
+          const part = next();
+          if (part.kind === 'punct') {
+            throw new Error(`Unexpected "${part.value}" in relation at offset ${part.offset}`);
+          }
+          parts.push(part);
+        }
+        next();
+        if (parts.length < 3) {
+          throw new Error(`Relation needs subject, predicate and object at offset ${key.offset}`);
+        }
+        pendingRelations.push({ parts, offset: key.offset });
+      } else if (key.value === 'STEPS' && isPunct(peek(), '[')) {
+        next();
+        while (!isPunct(peek(), ']')) {
+          const open = expect('{');
+          const fields: Record<string, string> = {};
+          while (!isPunct(peek(), '}')) {
+            const field = next();
+            expect(':');
+            fields[field.value] = next().value;
+          }
+          next();
+          if (!fields.act) {
+            throw new Error(`Step without act at offset ${open.offset}`);
+          }
+          pendingSteps.push({ fields, offset: open.offset });
+        }
+        next();
+      } else if (isPunct(peek(), ':')) {
+        next();
+        const value = next();
+        if (value.kind === 'punct') {
+          throw new Error(`Missing value for ${key.value} at offset ${key.offset}`);
+        }
+        if (key.value === 'GOAL') goalRef = value.value;
+        else header[key.value.toLowerCase()] = value.value;
+      } else {
+        throw new Error(`Unexpected "${key.value}" at offset ${key.offset}`);
+      }
+    }
+    next();
+
+    // Header
+    const type = header.type ? parseTypeCode(header.type) : undefined;
+    if (!type) {
+      throw new Error(`Missing or unknown type in record at offset ${start.offset}`);
+    }
+    record.type = type;
+    record.domain = header.dom;
+    if (header.conf !== undefined) {
+      const level = CONFIDENCE_LEVELS[header.conf.toUpperCase()];
+      if (level === undefined) {
+        throw new Error(`Unknown confidence "${header.conf}" (expected ${Object.keys(CONFIDENCE_LEVELS).join(', ')})`);
+      }
+      record.confidence = level;
+    }
+
+    // References are resolved once all entities of the record are known
+    const resolve = (token: Token | string, offset: number): string => {
+      const value = typeof token === 'string' ? token : token.value;
+      if (typeof token !== 'string' && token.kind === 'string') return value;
+      if (/^\d+$/.test(value)) {
+        const label = refs.get(value);
+        if (label === undefined) {
+          throw new Error(`Unknown entity reference ${value} at offset ${offset}`);
+        }
+        return label;
+      }
+      return refs.get(value) ?? value;
+    };
+
+    for (const { parts, offset } of pendingRelations) {
+      record.relations.push({
+        subject: resolve(parts[0], offset),
+        predicate: parts.slice(1, -1).map((p) => p.value).join(' '),
+        object: resolve(parts[parts.length - 1], offset),
+        qualifiers: {},
+      });
+    }
+    for (const { fields, offset } of pendingSteps) {
+      record.steps.push({
+        action: fields.act.toLowerCase(),
+        object: fields.obj !== undefined ? resolve(fields.obj, offset) : undefined,
+        target: fields.to !== undefined ? resolve(fields.to, offset) : undefined,
+      });
+    }
+    if (goalRef !== undefined) {
+      record.goal = resolve(goalRef, start.offset);
+    }
+
+    records.push(record);
+  }
+
+  if (records.length === 0) {
+    throw new Error('Empty compact schema content');
+  }
+  return records;
+}
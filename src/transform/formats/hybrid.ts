@@ -0,0 +1,152 @@
+/**
+ * Parser for the t4-hybrid preset (application/x-hybrid)
+ *
+ *   f:CN-RU01 {T:OBS D:geo C:.85}
+ *   text: "China supports Russia economically"
+ *   E: [China:state, Russia:state]
+ *   R: [China supports Russia]
+ *   src: "CFR-2025"
+ */
+
+import type { EncodedEntity, EncodedRecord, EncodedRelation } from './ast.js';
+import { CONFIDENCE_LEVELS, emptyRecord, parseTypeCode } from './ast.js';
+
+const HEADER = /^f:(\S+)\s*\{([^}]*)\}/;
+const FIELD = /^(text|E|R|src):\s*/;
+
+/**
+ * Read a field value: a quoted string, a [bracketed, list] or the rest of the line.
+ * Values may span several lines. A backslash escapes the next character in
+ * quoted strings.
+ */
+function readValue(text: string, start: number): { value: string; end: number } {
+  const open = text[start];
+  if (open === '"') {
+    let pos = start + 1;
+    let value = '';
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === '\\' && pos + 1 < text.length) pos++;
+      value += text[pos++];
+    }
+    if (pos >= text.length) {
+      throw new Error(`Unclosed " at offset ${start}`);
+    }
+    return { value, end: pos + 1 };
+  }
+  if (open === '[') {
+    const end = text.indexOf(']', start + 1);
+    if (end < 0) {
+      throw new Error(`Unclosed [ at offset ${start}`);
+    }
+    return { value: text.slice(start + 1, end), end: end + 1 };
+  }
+  const end = text.indexOf('\n', start);
+  return { value: text.slice(start, end < 0 ? text.length : end).trim(), end: end < 0 ? text.length : end };
+}
+
+/**
+ * Split a relation like "China provides econ-support to Russia" using the
+ * known entity names; falls back to first word / last word.
+ */
+function parseRelation(text: string, entities: EncodedEntity[]): EncodedRelation {
+  const names = entities.map((e) => e.label).sort((a, b) => b.length - a.length);
+  const subject = names.find((n) => text.startsWith(n + ' '));
+  const object = names.find((n) => text.endsWith(' ' + n) && n !== subject);
+
+  const words = text.split(/\s+/);
+  const subjectText = subject ?? words[0];
+  const objectText = object ?? words[words.length - 1];
+  const predicate = text.slice(subjectText.length, text.length - objectText.length).trim();
+  if (!predicate) {
+    throw new Error(`Relation "${text}" needs subject, predicate and object`);
+  }
+  return { subject: subjectText, predicate, object: objectText, qualifiers: {} };
+}
+
+/**
+ * Parse t4-hybrid content into records. Throws on malformed input.
+ */
+export function parseHybrid(text: string): EncodedRecord[] {
+  const records: EncodedRecord[] = [];
+  let pos = 0;
+  let record: EncodedRecord | null = null;
+
+  while (pos < text.length) {
+    // Skip whitespace between fields
+    const rest = text.slice(pos);
+    const skipped = rest.length - rest.trimStart().length;
+    if (skipped > 0) {
+      pos += skipped;
+      continue;
+    }
+
+    const header = HEADER.exec(rest);
+    if (header) {
+      const fields = Object.fromEntries(
+        header[2].trim().split(/\s+/).filter(Boolean).map((pair) => {
+          const [key, ...value] = pair.split(':');
+          return [key.toUpperCase(), value.join(':')];
+        })
+      );
+      const type = fields.T ? parseTypeCode(fields.T) : undefined;
+      if (!type) {
+        throw new Error(`Missing or unknown type T in header at offset ${pos}`);
+      }
+
+      record = emptyRecord('hybrid', type);
+      record.id = header[1];
+      record.domain = fields.D || undefined;
+      if (fields.C !== undefined) {
+        const confidence = CONFIDENCE_LEVELS[fields.C.toUpperCase()] ?? Number(fields.C);
+        if (Number.isNaN(confidence) || confidence < 0 || confidence > 1) {
+          throw new Error(`Invalid confidence C:${fields.C} at offset ${pos}`);
+        }
+        record.confidence = confidence;
+      }
+      records.push(record);
+      pos += header[0].length;
+      continue;
+    }
+
+    const field = FIELD.exec(rest);
+    if (!field) {
+      throw new Error(`Unexpected content at offset ${pos}: "${rest.split('\n')[0].slice(0, 40)}"`);
+    }
+    if (!record) {
+      throw new Error(`Field "${field[1]}" before the f:ID {...} header at offset ${pos}`);
+    }
+
+    const { value, end } = readValue(text, pos + field[0].length);
+    switch (field[1]) {
+      case 'text':
+        record.text = value.replace(/\s*\n\s*/g, ' ').trim();
+        break;
+      case 'src':
+        record.source = value;
+        break;
+      case 'E':
+        for (const item of value.split(',').map((s) => s.trim()).filter(Boolean)) {
+          const separator = item.lastIndexOf(':');
+          const label = separator > 0 ? item.slice(0, separator) : item;
+          record.entities.push({ id: label, label, type: separator > 0 ? item.slice(separator + 1) : undefined });
+        }
+        break;
+      case 'R':
+        for (const item of value.split(',').map((s) => s.replace(/\s+/g, ' ').trim()).filter(Boolean)) {
+          record.relations.push(parseRelation(item, record.entities));
+        }
+        break;
+    }
+    pos = end;
+  }
+
+  if (records.length === 0) {
+    throw new Error('Missing f:ID {T:TYPE ...} header');
+  }
+  for (const r of records) {
+    if (!r.text) {
+      throw new Error(`Record ${r.id} has no text field`);
+    }
+  }
+  return records;
+}
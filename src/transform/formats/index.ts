@@ -0,0 +1,62 @@
+/**
+ * Deterministic parsing and decoding of the preset encodings
+ */
+
+import type { EncodedRecord } from './ast.js';
+import { parseSExpression } from './sexp.js';
+import { parseCompactSchema } from './compact.js';
+import { parseHybrid } from './hybrid.js';
+import { renderEnglish } from './render.js';
+
+export * from './ast.js';
+export { parseSExpression, readSExprs } from './sexp.js';
+export type { SExpr } from './sexp.js';
+export { parseCompactSchema } from './compact.js';
+export { parseHybrid } from './hybrid.js';
+export { renderEnglish, renderRecord, renderRelation } from './render.js';
+
+/**
+ * Parsers by transform_to MIME type
+ */
+export const FORMAT_PARSERS: Record<string, (text: string) => EncodedRecord[]> = {
+  'application/x-sexp': parseSExpression,
+  'application/x-compact-schema': parseCompactSchema,
+  'application/x-hybrid': parseHybrid,
+};
+
+/**
+ * Whether a MIME type has a local parser
+ */
+export function hasFormatParser(mimeType: string | undefined): boolean {
+  return !!mimeType && mimeType in FORMAT_PARSERS;
+}
+
+/**
+ * Parse encoded content by MIME type. Throws on malformed content or unknown type.
+ */
+export function parseEncoded(content: string, mimeType: string): EncodedRecord[] {
+  const parser = FORMAT_PARSERS[mimeType];
+  if (!parser) {
+    throw new Error(`No parser for ${mimeType}`);
+  }
+  return parser(content);
+}
+
+/**
+ * Validate encoded content. Returns an error message, or null when valid.
+ */
+export function validateEncoded(content: string, mimeType: string): string | null {
+  try {
+    parseEncoded(content, mimeType);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Parse and render encoded content as English
+ */
+export function decodeToEnglish(content: string, mimeType: string): string {
+  return renderEnglish(parseEncoded(content, mimeType));
+}
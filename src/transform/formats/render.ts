@@ -0,0 +1,115 @@
+/**
+ * Template-based English rendering of parsed preset encodings, following the
+ * templates in each preset's decode_instructions.
+ */
+
+import type { EncodedRecord, EncodedRelation, EncodedStep } from './ast.js';
+
+/**
+ * Verb phrases for common predicates and relation codes
+ */
+const PREDICATES: Record<string, string> = {
+  'is-a': 'is a',
+  'part-of': 'is part of',
+  'has-a': 'has a',
+  'has': 'has',
+  'purpose': 'is used for',
+  'dep': 'depends on',
+  'depends-on': 'depends on',
+  'sup': 'supports',
+  'cnt': 'contradicts',
+  'ext': 'extends',
+  'spe': 'specializes',
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function sentence(text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) return '';
+  return capitalize(/[.!?]$/.test(trimmed) ? trimmed : `${trimmed}.`);
+}
+
+function predicateText(predicate: string): string {
+  return PREDICATES[predicate] ?? predicate.replace(/[-_]/g, ' ').toLowerCase();
+}
+
+/**
+ * "<A> supports <B> in <D>."
+ */
+export function renderRelation(relation: EncodedRelation): string {
+  const qualifiers = Object.entries(relation.qualifiers)
+    .map(([key, value]) => (key === 'domain' || key === 'dom' ? `in ${value}` : `(${key}: ${value})`))
+    .join(' ');
+  return sentence(
+    `${relation.subject} ${predicateText(relation.predicate)} ${relation.object}${qualifiers ? ` ${qualifiers}` : ''}`
+  );
+}
+
+function renderStep(step: EncodedStep): string {
+  return [step.action.replace(/[-_]/g, ' ').toLowerCase(), step.object, step.target ? `to ${step.target}` : '']
+    .filter(Boolean)
+    .join(' ');
+}
+
+function confidenceQualifier(confidence: number | undefined): string {
+  if (confidence === undefined || confidence >= 0.8) return '';
+  return confidence >= 0.5 ? ' (moderate confidence)' : ' (low confidence)';
+}
+
+/**
+ * Render one record as English
+ */
+export function renderRecord(record: EncodedRecord): string {
+  const parts: string[] = [];
+
+  // Hybrid: the text field is the core content
+  if (record.text) {
+    parts.push(sentence(record.text));
+  }
+
+  if (record.type === 'procedure' && record.steps.length > 0) {
+    const steps = record.steps.map((s, i) => `${i + 1}) ${renderStep(s)}`).join(', ');
+    parts.push(record.goal ? `To ${record.goal}: ${steps}.` : `Steps: ${steps}.`);
+  } else if (record.goal) {
+    parts.push(sentence(`Goal: ${record.goal}`));
+  }
+
+  if (record.condition) {
+    const consequences = record.consequences.length > 0 ? record.consequences.join(' and ') : 'the hypothesis holds';
+    parts.push(sentence(`If ${record.condition}, then ${consequences}`));
+  }
+
+  // Relations already expressed by the text are not repeated
+  const text = (record.text || '').toLowerCase();
+  for (const relation of record.relations) {
+    const predicate = predicateText(relation.predicate).split(' ')[0];
+    if (text && text.includes(relation.subject.toLowerCase()) && text.includes(predicate)) {
+      continue;
+    }
+    parts.push(renderRelation(relation));
+  }
+
+  if (record.steps.length > 0 && record.type !== 'procedure') {
+    parts.push(sentence(`Steps: ${record.steps.map(renderStep).join(', ')}`));
+  }
+
+  let rendered = parts.join(' ');
+  const qualifier = confidenceQualifier(record.confidence);
+  if (qualifier) {
+    rendered = rendered.replace(/\.$/, `${qualifier}.`);
+  }
+  if (record.source) {
+    rendered += ` (Source: ${record.source})`;
+  }
+  return rendered;
+}
+
+/**
+ * Render all records of a fragment as English
+ */
+export function renderEnglish(records: EncodedRecord[]): string {
+  return records.map(renderRecord).filter(Boolean).join('\n');
+}
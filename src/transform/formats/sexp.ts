@@ -0,0 +1,244 @@
+/**
+ * Parser for the t1-symbolic preset (application/x-sexp)
+ *
+ *   (def qtg01
+ *     (is-a "Qt Graphs" :module)
+ *     (part-of :qt6))
+ */
+
+import type { EncodedRecord } from './ast.js';
+import { emptyRecord, parseTypeCode } from './ast.js';
+
+/**
+ * A raw S-expression node
+ */
+export type SExpr =
+  | { kind: 'list'; items: SExpr[]; offset: number }
+  | { kind: 'symbol'; value: string; offset: number }
+  | { kind: 'string'; value: string; offset: number };
+
+/**
+ * Read all top-level S-expressions from text
+ */
+export function readSExprs(text: string): SExpr[] {
+  let pos = 0;
+
+  const skipSpace = (): void => {
+    while (pos < text.length) {
+      if (/\s/.test(text[pos])) {
+        pos++;
+      } else if (text[pos] === ';') {
+        while (pos < text.length && text[pos] !== '\n') pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readExpr = (): SExpr => {
+    skipSpace();
+    const start = pos;
+    const char = text[pos];
+
+    if (char === '(') {
+      pos++;
+      const items: SExpr[] = [];
+      for (;;) {
+        skipSpace();
+        if (pos >= text.length) {
+          throw new Error(`Unclosed "(" at offset ${start}`);
+        }
+        if (text[pos] === ')') {
+          pos++;
+          return { kind: 'list', items, offset: start };
+        }
+        items.push(readExpr());
+      }
+    }
+
+    if (char === ')') {
+      throw new Error(`Unexpected ")" at offset ${start}`);
+    }
+
+    if (char === '"') {
+      pos++;
+      let value = '';
+      while (pos < text.length && text[pos] !== '"') {
+        if (text[pos] === '\\' && pos + 1 < text.length) pos++;
+        value += text[pos++];
+      }
+      if (pos >= text.length) {
+        throw new Error(`Unterminated string at offset ${start}`);
+      }
+      pos++;
+      return { kind: 'string', value, offset: start };
+    }
+
+    while (pos < text.length && !/[\s()";]/.test(text[pos])) pos++;
+    return { kind: 'symbol', value: text.slice(start, pos), offset: start };
+  };
+
+  const exprs: SExpr[] = [];
+  skipSpace();
+  while (pos < text.length) {
+    exprs.push(readExpr());
+    skipSpace();
+  }
+  return exprs;
+}
+
+/**
+ * Display value of an atom or list (keywords lose their ':')
+ */
+function atomText(expr: SExpr): string {
+  if (expr.kind === 'list') {
+    return expr.items.map(atomText).join(', ');
+  }
+  return expr.kind === 'symbol' ? expr.value.replace(/^:/, '') : expr.value;
+}
+
+function isKeyword(expr: SExpr | undefined): boolean {
+  return expr?.kind === 'symbol' && expr.value.startsWith(':') && expr.value.length > 1;
+}
+
+/**
+ * Split clause arguments into positional values and trailing `:key value` pairs
+ */
+function splitArgs(args: SExpr[]): { positional: SExpr[]; qualifiers: Record<string, string> } {
+  const positional: SExpr[] = [];
+  const qualifiers: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const next = args[i + 1];
+    // A keyword followed by a value is a qualifier; a lone keyword is a value
+    if (isKeyword(args[i]) && positional.length > 0 && next && !isKeyword(next)) {
+      qualifiers[atomText(args[i])] = atomText(next);
+      i++;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  return { positional, qualifiers };
+}
+
+/**
+ * Convert one top-level expression into a record
+ */
+function toRecord(expr: SExpr): EncodedRecord {
+  if (expr.kind !== 'list' || expr.items.length === 0) {
+    throw new Error(`Expected a (type id ...) list at offset ${expr.offset}`);
+  }
+
+  const [head, id, ...clauses] = expr.items;
+  const type = head.kind === 'symbol' ? parseTypeCode(head.value) : undefined;
+  if (!type) {
+    throw new Error(`Unknown fragment type "${atomText(head)}" at offset ${head.offset}`);
+  }
+  if (!id || id.kind === 'list') {
+    throw new Error(`Missing fragment id after "${atomText(head)}" at offset ${expr.offset}`);
+  }
+
+  const record = emptyRecord('sexp', type);
+  record.id = atomText(id);
+  let subject = record.id;
+
+  for (let i = 0; i < clauses.length; i++) {
+    const clause = clauses[i];
+
+    // Record-level metadata: :conf 0.9, :src "..."
+    if (isKeyword(clause)) {
+      const value = clauses[++i];
+      if (!value) {
+        throw new Error(`Missing value for ${(clause as { value: string }).value} at offset ${clause.offset}`);
+      }
+      const key = atomText(clause);
+      if (key === 'conf') {
+        const confidence = Number(atomText(value));
+        if (Number.isNaN(confidence) || confidence < 0 || confidence > 1) {
+          throw new Error(`Invalid :conf value at offset ${value.offset}`);
+        }
+        record.confidence = confidence;
+      } else if (key === 'src') {
+        record.source = atomText(value);
+      } else if (key === 'dom') {
+        record.domain = atomText(value);
+      }
+      continue;
+    }
+
+    if (clause.kind !== 'list' || clause.items.length === 0 || clause.items[0].kind !== 'symbol') {
+      throw new Error(`Expected a (predicate ...) clause at offset ${clause.offset}`);
+    }
+
+    const predicate = (clause.items[0] as { value: string }).value.replace(/^:/, '');
+    const args = clause.items.slice(1);
+
+    switch (predicate) {
+      case 'goal':
+        record.goal = args.map(atomText).join(' ');
+        break;
+      case 'steps':
+        for (const step of args) {
+          if (step.kind !== 'list' || step.items.length === 0) {
+            throw new Error(`Expected a (action object) step at offset ${step.offset}`);
+          }
+          const [action, object, ...rest] = step.items;
+          record.steps.push({
+            action: atomText(action),
+            object: object ? atomText(object) : undefined,
+            target: rest.length > 0 ? rest.map(atomText).join(' ') : undefined,
+          });
+        }
+        break;
+      case 'if':
+        record.condition = args.map(atomText).join(' ');
+        break;
+      case 'then':
+        record.consequences.push(...args.map(atomText));
+        break;
+      default: {
+        const { positional, qualifiers } = splitArgs(args);
+        if (positional.length === 0) {
+          throw new Error(`Clause "${predicate}" has no arguments at offset ${clause.offset}`);
+        }
+        // (pred :value ...) describes the record subject; (pred A B ...) relates A to B
+        const describesSubject = positional.length === 1 || isKeyword(positional[0]);
+        const relation = describesSubject
+          ? {
+              subject,
+              predicate,
+              object: atomText(positional[0])
+                + (positional.length > 1 ? ` (${positional.slice(1).map(atomText).join(', ')})` : ''),
+              qualifiers,
+            }
+          : {
+              subject: atomText(positional[0]),
+              predicate,
+              object: positional.slice(1).map(atomText).join(', '),
+              qualifiers,
+            };
+        if (predicate === 'is-a' && !describesSubject) {
+          subject = relation.subject;
+        }
+        record.relations.push(relation);
+        for (const term of [relation.subject, relation.object]) {
+          if (term !== record.id && !record.entities.some((e) => e.label === term)) {
+            record.entities.push({ id: term, label: term });
+          }
+        }
+      }
+    }
+  }
+
+  return record;
+}
+
+/**
+ * Parse t1-symbolic content into records. Throws on malformed input.
+ */
+export function parseSExpression(text: string): EncodedRecord[] {
+  const exprs = readSExprs(text);
+  if (exprs.length === 0) {
+    throw new Error('Empty S-expression content');
+  }
+  return exprs.map(toRecord);
+}
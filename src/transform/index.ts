@@ -1,2 +1,3 @@
 export * from './delegation.js';
 export * from './engine.js';
+export * from './formats/index.js';
@@ -6,8 +6,13 @@
  *   T3 Compact:   56% compression, 3.83/5 quality, 2.14 efficiency
  *   T4 Hybrid:    24% compression, 5.00/5 quality, 1.20 efficiency
  *   Baseline:      0% compression, 5.00/5 quality (reference)
+ *
+ * Re-measure on your own corpus with wisdom_benchmark_start (src/benchmark/).
  */
 
+import type { Transform } from '../gateway/types.js';
+import type { PresetMetric } from '../state/types.js';
+
 export interface TransformPreset {
   name: string;
   description: string;
@@ -123,6 +128,7 @@ R: [entity1 relation entity2, ...]
 src: "source"
 
 Types: OBS, CON, HYP, PROC, DEF, CTX, SYN, QUE
+Inside quoted values write \\" for a double quote and \\\\ for a backslash.
 
 Example:
 f:CN-RU01 {T:OBS D:geo C:.85}
@@ -180,6 +186,30 @@ export const TYPE_TO_PRESET: Record<string, string> = {
   ANTITHESIS: 't4-hybrid',
 };
 
+/**
+ * Find the preset that produced a transform: the `preset` key written by
+ * preset registration wins, otherwise the `transform_to` MIME type is matched.
+ */
+export function presetForTransform(transform: Pick<Transform, 'transform_to' | 'additional_data'>): string | undefined {
+  try {
+    const data = JSON.parse(transform.additional_data || '{}');
+    if (typeof data.preset === 'string' && PRESETS[data.preset]) {
+      return data.preset;
+    }
+  } catch {
+    // Free-form additional_data
+  }
+
+  return Object.keys(PRESETS).find((key) => PRESETS[key].transform_to === transform.transform_to);
+}
+
+/**
+ * Whether content encoded with a preset needs decoding before use
+ */
+export function isCompressedPreset(presetKey: string | undefined): boolean {
+  return !!presetKey && presetKey in PRESETS && PRESETS[presetKey].transform_to !== 'text/plain';
+}
+
 /**
  * Get a preset by name.
  */
@@ -208,3 +238,92 @@ export function selectPreset(fragmentType: string, contextPressure: number = 0):
   // Normal: use type-based recommendation
   return TYPE_TO_PRESET[fragmentType] || 't1-symbolic';
 }
+
+/**
+ * Samples at which observed metrics count half against a preset's expectations
+ */
+const METRIC_CONFIDENCE_SAMPLES = 5;
+
+/**
+ * Score gap the table choice has over alternatives before observations count
+ */
+const TABLE_PREFERENCE = 0.1;
+
+/**
+ * An adaptive preset choice with the reasoning behind it
+ */
+export interface PresetSelection {
+  preset: string;
+  reason: string;
+  scores: Record<string, number>;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * How far a preset falls short of its expected compression and quality,
+ * weighted by context pressure and by how many samples were observed
+ */
+function shortfall(presetKey: string, metric: PresetMetric | undefined, pressure: number): number {
+  if (!metric) return 0;
+  const preset = PRESETS[presetKey];
+
+  let gap = 0;
+  if (metric.compression_samples > 0) {
+    const confidence = metric.compression_samples / (metric.compression_samples + METRIC_CONFIDENCE_SAMPLES);
+    gap += (0.5 + pressure / 2) * (preset.expected_compression - metric.compression) * confidence;
+  }
+  if (metric.quality_samples > 0 && metric.quality !== undefined) {
+    const confidence = metric.quality_samples / (metric.quality_samples + METRIC_CONFIDENCE_SAMPLES);
+    gap += (1 - pressure / 2) * ((preset.expected_quality - metric.quality) / 4) * confidence;
+  }
+  return Math.max(0, gap);
+}
+
+function describeMetric(metric: PresetMetric): string {
+  const parts: string[] = [];
+  if (metric.compression_samples > 0) {
+    parts.push(`compression ${percent(metric.compression)} over ${metric.compression_samples} stores`);
+  }
+  if (metric.quality_samples > 0 && metric.quality !== undefined) {
+    parts.push(`decode quality ${Math.round(metric.quality * 100) / 100}/5 over ${metric.quality_samples} reports`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Select a preset from the fixed table, then let observed metrics
+ * deprioritise presets that underperform for the fragment type and domain.
+ * Without observations this returns the same preset as selectPreset().
+ */
+export function selectPresetAdaptive(
+  fragmentType: string,
+  contextPressure: number,
+  getMetric: (preset: string) => PresetMetric | undefined
+): PresetSelection {
+  const tableChoice = selectPreset(fragmentType, contextPressure);
+  const pressure = Math.max(0, Math.min(1, contextPressure));
+  const scores: Record<string, number> = {};
+
+  for (const [key, preset] of Object.entries(PRESETS)) {
+    // Prior: quality matters at low pressure, compression at high pressure
+    const prior = (1 - pressure) * ((preset.expected_quality - 1) / 4) + pressure * preset.expected_compression;
+    const base = key === tableChoice ? 1 : 1 - TABLE_PREFERENCE - (1 - prior) * TABLE_PREFERENCE;
+    scores[key] = Math.round((base - shortfall(key, getMetric(key), pressure)) * 1000) / 1000;
+  }
+
+  const preset = Object.keys(scores).reduce((best, key) => (scores[key] > scores[best] ? key : best), tableChoice);
+  const pressureText = `context pressure ${Math.round(pressure * 100) / 100}`;
+  const tableMetric = getMetric(tableChoice);
+
+  let reason = `Auto-selected for ${fragmentType} at ${pressureText}`;
+  if (preset !== tableChoice && tableMetric) {
+    reason += `; ${tableChoice} deprioritised (observed ${describeMetric(tableMetric)}, expected ${percent(PRESETS[tableChoice].expected_compression)} compression and ${PRESETS[tableChoice].expected_quality}/5 quality)`;
+  } else if (tableMetric && describeMetric(tableMetric)) {
+    reason += `; observed ${describeMetric(tableMetric)}`;
+  }
+
+  return { preset, reason, scores };
+}
@@ -0,0 +1,339 @@
+/**
+ * Web-of-trust engine.
+ *
+ * Walks the TrustStore of each agent starting from a perspective agent and
+ * derives effective trust for every agent reachable within a maximum depth.
+ * Fragment trust is derived from the effective trust of its creator and of
+ * the agents that voted on it. Agent records and votes only count with a
+ * valid signature.
+ */
+
+import type { GatewayClient } from '../gateway/client.js';
+import { acceptsVerification, type SignatureVerifier } from '../crypto/verification.js';
+import type { Agent, Fragment, TrustVote } from '../gateway/types.js';
+
+/**
+ * Options controlling trust propagation
+ */
+export interface TrustOptions {
+  /** Maximum number of hops from the perspective agent (default: 3) */
+  maxDepth: number;
+  /** Multiplicative decay applied per hop beyond the first (default: 0.7) */
+  decay: number;
+  /** Whether distrust expressed by trusted agents propagates (default: true) */
+  propagateDistrust: boolean;
+  /** Paths whose trust falls below this magnitude are pruned (default: 0.01) */
+  minTrust: number;
+  /** Upper bound on explored paths to keep large graphs tractable (default: 2000) */
+  maxPaths: number;
+  /** Ignore agent records without a public key to check them against (default: false) */
+  dropUnverified: boolean;
+}
+
+export const DEFAULT_TRUST_OPTIONS: TrustOptions = {
+  maxDepth: 3,
+  decay: 0.7,
+  propagateDistrust: true,
+  minTrust: 0.01,
+  maxPaths: 2000,
+  dropUnverified: false,
+};
+
+/**
+ * A single edge in a trust path
+ */
+export interface TrustHop {
+  from: string; // Agent UUID
+  to: string; // Agent UUID
+  trust: number; // Direct trust from -> to (-1.0 to +1.0)
+}
+
+/**
+ * A path from the perspective agent to a target agent
+ */
+export interface TrustPath {
+  hops: TrustHop[];
+  trust: number; // Contribution of this path after decay
+}
+
+/**
+ * Effective trust of one agent from the perspective agent
+ */
+export interface AgentTrustResult {
+  agent: string;
+  perspective: string;
+  effective_trust: number;
+  direct_trust: number | null;
+  paths: TrustPath[];
+}
+
+/**
+ * How a single vote contributed to fragment trust
+ */
+export interface VoteContribution {
+  voter: string;
+  vote_type: TrustVote['vote_type'];
+  voter_trust: number;
+  contribution: number;
+}
+
+/**
+ * Effective trust of a fragment from the perspective agent
+ */
+export interface FragmentTrustResult {
+  fragment: string;
+  perspective: string;
+  effective_trust: number;
+  creator: AgentTrustResult;
+  vote_score: number | null;
+  votes: VoteContribution[];
+  unverified_votes: number; // Votes ignored for a missing or invalid signature
+  retracted: boolean;
+}
+
+/**
+ * Round to a fixed number of decimals for stable output
+ */
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Combine independent path contributions.
+ * Positive and negative evidence are each combined as a probabilistic OR,
+ * so many weak paths approach but never exceed a strong direct statement.
+ */
+export function combinePathTrust(values: number[]): number {
+  let positive = 0;
+  let negative = 0;
+  for (const value of values) {
+    if (value > 0) positive = 1 - (1 - positive) * (1 - Math.min(value, 1));
+    else if (value < 0) negative = 1 - (1 - negative) * (1 - Math.min(-value, 1));
+  }
+  return Math.max(-1, Math.min(1, positive - negative));
+}
+
+/**
+ * Trust engine computing transitive trust over agent trust stores
+ */
+export class TrustEngine {
+  private gateway: GatewayClient;
+  private verifier: SignatureVerifier;
+  private options: TrustOptions;
+  private agents = new Map<string, Agent | null>();
+
+  constructor(gateway: GatewayClient, verifier: SignatureVerifier, options: Partial<TrustOptions> = {}) {
+    this.gateway = gateway;
+    this.verifier = verifier;
+    // An explicit undefined keeps the default
+    this.options = {
+      ...DEFAULT_TRUST_OPTIONS,
+      ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
+    };
+  }
+
+  /**
+   * Fetch an agent once per engine instance. A record that is not the
+   * requested agent's or fails its self-signature is treated as missing,
+   * so a tampered trust store cannot add paths.
+   */
+  private async loadAgent(uuid: string): Promise<Agent | null> {
+    if (this.agents.has(uuid)) {
+      return this.agents.get(uuid) ?? null;
+    }
+    let agent: Agent | null;
+    try {
+      agent = await this.gateway.getAgent(uuid);
+    } catch {
+      agent = null;
+    }
+    if (
+      agent &&
+      (agent.uuid !== uuid ||
+        !acceptsVerification(await this.verifier.verifyAgent(agent), this.options.dropUnverified))
+    ) {
+      agent = null;
+    }
+    this.agents.set(uuid, agent);
+    return agent;
+  }
+
+  /**
+   * Walk the trust graph from the perspective agent and collect every path
+   * that reaches another agent within maxDepth.
+   */
+  async collectPaths(perspective: string): Promise<Map<string, TrustPath[]>> {
+    const { maxDepth, decay, propagateDistrust, minTrust, maxPaths } = this.options;
+    const paths = new Map<string, TrustPath[]>();
+    let explored = 0;
+
+    const walk = async (current: string, hops: TrustHop[], pathTrust: number, visited: Set<string>): Promise<void> => {
+      if (hops.length >= maxDepth || explored >= maxPaths) {
+        return;
+      }
+
+      const agent = await this.loadAgent(current);
+      const trusts = agent?.trust?.trusts || [];
+
+      for (const entry of trusts) {
+        const target = entry.agent?.entity;
+        if (!target || visited.has(target) || target === perspective) {
+          continue;
+        }
+        if (explored >= maxPaths) {
+          return;
+        }
+
+        const edge = Math.max(-1, Math.min(1, entry.trust));
+        const depth = hops.length + 1;
+        const value = pathTrust * edge * (depth > 1 ? decay ** (depth - 1) : 1);
+
+        // Indirect distrust only counts when propagation is enabled
+        if (value < 0 && depth > 1 && !propagateDistrust) {
+          continue;
+        }
+        if (Math.abs(value) < minTrust) {
+          continue;
+        }
+
+        const nextHops = [...hops, { from: current, to: target, trust: edge }];
+        const list = paths.get(target) || [];
+        list.push({ hops: nextHops, trust: value });
+        paths.set(target, list);
+        explored++;
+
+        // Never follow the opinions of agents we do not trust
+        if (edge > 0) {
+          const nextVisited = new Set(visited);
+          nextVisited.add(target);
+          await walk(target, nextHops, pathTrust * edge, nextVisited);
+        }
+      }
+    };
+
+    await walk(perspective, [], 1, new Set([perspective]));
+    return paths;
+  }
+
+  /**
+   * Compute effective trust for a single agent
+   */
+  async calculateAgentTrust(perspective: string, target: string): Promise<AgentTrustResult> {
+    if (perspective === target) {
+      return { agent: target, perspective, effective_trust: 1, direct_trust: 1, paths: [] };
+    }
+
+    const allPaths = await this.collectPaths(perspective);
+    return this.summarize(perspective, target, allPaths.get(target) || []);
+  }
+
+  /**
+   * Compute effective trust for several agents with a single graph walk
+   */
+  async calculateAgentTrusts(perspective: string, targets: string[]): Promise<Map<string, AgentTrustResult>> {
+    const allPaths = await this.collectPaths(perspective);
+    const results = new Map<string, AgentTrustResult>();
+    for (const target of new Set(targets)) {
+      results.set(
+        target,
+        target === perspective
+          ? { agent: target, perspective, effective_trust: 1, direct_trust: 1, paths: [] }
+          : this.summarize(perspective, target, allPaths.get(target) || [])
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Compute effective trust for a fragment, weighted by its creator and votes
+   */
+  async calculateFragmentTrust(
+    perspective: string,
+    fragment: Fragment,
+    votes: TrustVote[]
+  ): Promise<FragmentTrustResult> {
+    const allPaths = await this.collectPaths(perspective);
+    const agentTrust = (uuid: string): AgentTrustResult =>
+      uuid === perspective
+        ? { agent: uuid, perspective, effective_trust: 1, direct_trust: 1, paths: [] }
+        : this.summarize(perspective, uuid, allPaths.get(uuid) || []);
+
+    const creatorUuid = fragment.creator?.entity || '';
+    const creator = agentTrust(creatorUuid);
+
+    // Only votes signed by their voter count; latest vote per voter wins
+    const annotated = await this.verifier.annotateTrustVotes(votes);
+    const verified = annotated.filter((v) => v.verified === true);
+    const latestVotes = new Map<string, TrustVote>();
+    for (const vote of verified) {
+      const previous = latestVotes.get(vote.voter);
+      if (!previous || (vote.created_at || '') >= (previous.created_at || '')) {
+        latestVotes.set(vote.voter, vote);
+      }
+    }
+
+    const contributions: VoteContribution[] = [];
+    let weighted = 0;
+    let weight = 0;
+    let retracted = false;
+
+    for (const vote of latestVotes.values()) {
+      if (vote.vote_type === 'retract') {
+        if (vote.voter === creatorUuid) retracted = true;
+        contributions.push({ voter: vote.voter, vote_type: vote.vote_type, voter_trust: 0, contribution: 0 });
+        continue;
+      }
+
+      const voterTrust = agentTrust(vote.voter).effective_trust;
+      // Votes from distrusted or unknown agents carry no weight
+      const voteWeight = Math.max(0, voterTrust);
+      const direction = vote.vote_type === 'verify' ? 1 : -1;
+      weighted += direction * voteWeight;
+      weight += voteWeight;
+      contributions.push({
+        voter: vote.voter,
+        vote_type: vote.vote_type,
+        voter_trust: round(voterTrust),
+        contribution: round(direction * voteWeight),
+      });
+    }
+
+    const voteScore = weight > 0 ? weighted / weight : null;
+    // Votes shift the creator's trust; their influence grows with total voter trust
+    const voteInfluence = weight > 0 ? weight / (weight + 1) : 0;
+    let effective = voteScore === null
+      ? creator.effective_trust
+      : (1 - voteInfluence) * creator.effective_trust + voteInfluence * voteScore;
+    if (retracted) effective = Math.min(effective, 0);
+
+    return {
+      fragment: fragment.uuid,
+      perspective,
+      effective_trust: round(effective),
+      creator,
+      vote_score: voteScore === null ? null : round(voteScore),
+      votes: contributions,
+      unverified_votes: votes.length - verified.length,
+      retracted,
+    };
+  }
+
+  /**
+   * Reduce the collected paths for one agent to an effective trust value.
+   * A direct statement by the perspective agent always takes precedence.
+   */
+  private summarize(perspective: string, target: string, paths: TrustPath[]): AgentTrustResult {
+    const direct = paths.find((p) => p.hops.length === 1);
+    const effective = direct ? direct.trust : combinePathTrust(paths.map((p) => p.trust));
+    const sorted = [...paths].sort((a, b) => Math.abs(b.trust) - Math.abs(a.trust));
+
+    return {
+      agent: target,
+      perspective,
+      effective_trust: round(effective),
+      direct_trust: direct ? round(direct.trust) : null,
+      paths: sorted.slice(0, 10).map((p) => ({ hops: p.hops, trust: round(p.trust) })),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import type { Address, TrustStore } from '../gateway/types.js';
+
+/**
+ * Return a copy of the trust store with the trust for an agent set.
+ * Existing entries are matched by entity UUID and replaced in place.
+ */
+export function setTrust(store: TrustStore | undefined, agent: Address, trust: number): TrustStore {
+  const existing = store?.trusts || [];
+  const entry = { agent, trust };
+  const trusts = existing.some((t) => t.agent.entity === agent.entity)
+    ? existing.map((t) => (t.agent.entity === agent.entity ? entry : t))
+    : [...existing, entry];
+
+  return { num_trusts: trusts.length, trusts };
+}
+
+/**
+ * Return a copy of the trust store without any entry for the given agent UUID
+ */
+export function removeTrust(store: TrustStore | undefined, agentUuid: string): TrustStore {
+  const trusts = (store?.trusts || []).filter((t) => t.agent.entity !== agentUuid);
+  return { num_trusts: trusts.length, trusts };
+}
+
+/**
+ * Look up the direct trust for an agent UUID, if any
+ */
+export function getTrust(store: TrustStore | undefined, agentUuid: string): number | undefined {
+  return store?.trusts.find((t) => t.agent.entity === agentUuid)?.trust;
+}
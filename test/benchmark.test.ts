@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildReport,
+  createRun,
+  lexicalSimilarity,
+  parseCorpus,
+  pendingRounds,
+  presetBenchmarkTransform,
+  recordRound,
+  remainingRounds,
+} from '../src/benchmark/index.js';
+
+describe('parseCorpus', () => {
+  it('should read jsonl, json and paragraph corpora', () => {
+    expect(parseCorpus('{"id": "a", "content": "One"}\n"Two"\n', 'c.jsonl')).toEqual([
+      { id: 'a', content: 'One', fragment_type: undefined },
+      { id: 'item-2', content: 'Two' },
+    ]);
+    expect(parseCorpus('[{"text": "One", "fragment_type": "FACT"}]', 'c.json')[0]).toMatchObject({
+      content: 'One',
+      fragment_type: 'FACT',
+    });
+    expect(parseCorpus('First paragraph.\n\n\nSecond\nparagraph.', 'c.md').map((i) => i.content)).toEqual([
+      'First paragraph.',
+      'Second\nparagraph.',
+    ]);
+  });
+
+  it('should reject invalid items', () => {
+    expect(() => parseCorpus('[{"title": "x"}]', 'c.json')).toThrow(/Invalid corpus item 1/);
+    expect(() => parseCorpus('"One"\n\n\n{oops}\n', 'c.jsonl')).toThrow(/Invalid JSON on line 4 of c.jsonl/);
+  });
+});
+
+describe('lexicalSimilarity', () => {
+  it('should score identical text 1 and unrelated text 0', () => {
+    expect(lexicalSimilarity('NADH donates electrons', 'NADH donates electrons')).toBeCloseTo(1);
+    expect(lexicalSimilarity('NADH donates electrons', 'Qt graphs module')).toBe(0);
+    const partial = lexicalSimilarity('NADH donates electrons to complex one', 'NADH donates electrons');
+    expect(partial).toBeGreaterThan(0.3);
+    expect(partial).toBeLessThan(1);
+  });
+});
+
+describe('benchmark run', () => {
+  const items = [{ id: 'nadh', content: 'NADH is a coenzyme that is found in all living cells. In the respiratory chain of the mitochondria, NADH donates its electrons to complex I, which is how the energy stored in food is eventually converted into ATP.' }];
+
+  it('should encode, then decode, then report', () => {
+    const run = createRun('corpus.md', items, [presetBenchmarkTransform('t1-symbolic'), presetBenchmarkTransform('baseline')]);
+    expect(remainingRounds(run)).toBe(3);
+
+    const encodes = pendingRounds(run);
+    expect(encodes.map((r) => r.direction)).toEqual(['encode', 'encode']);
+    recordRound(run, encodes[0].round_id, '(def nadh (is-a NADH :coenzyme) (donates NADH electrons))');
+    recordRound(run, encodes[1].round_id, items[0].content);
+
+    const [decode] = pendingRounds(run);
+    expect(decode).toMatchObject({ direction: 'decode', transform: 't1-symbolic', item: 'nadh' });
+    expect(decode.instructions).toContain('(def nadh');
+    recordRound(run, decode.round_id, 'NADH is a coenzyme. NADH donates electrons.');
+
+    const report = buildReport(run);
+    expect(report.complete).toBe(true);
+    const [symbolic, baseline] = report.transforms;
+    expect(symbolic.compression).toBeGreaterThan(0);
+    expect(symbolic.structure_valid_rate).toBe(1);
+    expect(symbolic.quality).toBeLessThan(baseline.quality);
+    expect(baseline).toMatchObject({ compression: 0, quality: 5, structure_valid_rate: null });
+  });
+
+  it('should flag malformed encodings and unknown rounds', () => {
+    const run = createRun('corpus.md', items, [presetBenchmarkTransform('t3-compact')]);
+    recordRound(run, 'encode:0:0', 'F{type:DEF');
+    expect(run.samples[0].structure_valid).toBe(false);
+    expect(() => recordRound(run, 'encode:5:0', 'x')).toThrow(/Unknown round_id/);
+  });
+});
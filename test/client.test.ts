@@ -0,0 +1,196 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { GatewayClient } from '../src/gateway/client.js';
+import {
+  ConflictError,
+  HubCriticalError,
+  InvalidResponseError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  UnauthorizedError,
+} from '../src/gateway/errors.js';
+import { gatewayErrorPayload } from '../src/server.js';
+
+type Handler = (url: string, init: RequestInit) => Promise<Response> | Response;
+
+function stubFetch(handler: Handler) {
+  const calls: Array<{ url: string; method: string }> = [];
+  vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+    calls.push({ url, method: init.method || 'GET' });
+    return handler(url, init);
+  });
+  return calls;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+const creator = { server_port: '', domain: 'AGENT', entity: 'a1' };
+
+function fragmentBody(uuid: string) {
+  return { uuid, content: 'x', tags: null, creator, version: 1, when: '2026-01-01T00:00:00Z', signature: 's' };
+}
+
+function tagBody(uuid: string) {
+  return { uuid, name: 'tag', content: '', category: 'DOMAIN', creator, version: 1, signature: 's' };
+}
+
+const fast = { retryBaseMs: 1, timeoutMs: 200, breakerCooldownMs: 50 };
+
+describe('GatewayClient resilience', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should retry GETs on 5xx and network errors', async () => {
+    let n = 0;
+    const calls = stubFetch(() => {
+      n++;
+      if (n === 1) throw new TypeError('fetch failed');
+      if (n === 2) return json({ error: 'unavailable' }, 503);
+      return json(fragmentBody('f1'));
+    });
+
+    const client = new GatewayClient('http://gw', fast);
+    expect(await client.getFragment('f1')).toMatchObject({ uuid: 'f1' });
+    expect(calls).toHaveLength(3);
+    expect(client.getCircuitState()).toMatchObject({ state: 'closed', consecutive_failures: 0 });
+  });
+
+  it('should not retry 4xx responses or writes without an entity UUID', async () => {
+    const calls = stubFetch(() => json({ error: 'bad' }, 503));
+    const client = new GatewayClient('http://gw', fast);
+    await expect(client.updateProject('p1', { name: 'x' })).rejects.toThrow('bad');
+    expect(calls).toHaveLength(1);
+
+    const rejected = stubFetch(() => json({ error: 'invalid signature' }, 400));
+    await expect(client.getFragment('f1')).rejects.toThrow('invalid signature');
+    expect(rejected).toHaveLength(1);
+  });
+
+  it('should time out hung requests', async () => {
+    stubFetch((_url, init) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+    const client = new GatewayClient('http://gw', { ...fast, timeoutMs: 20, maxRetries: 0 });
+    await expect(client.healthCheck()).rejects.toThrow(/timed out after 20ms/);
+  });
+
+  it('should fetch the entity when a retried keyed POST conflicts', async () => {
+    let posts = 0;
+    const calls = stubFetch((url, init) => {
+      if (init.method === 'POST') {
+        posts++;
+        return posts === 1 ? json({ error: 'gateway timeout' }, 504) : json({ error: 'exists' }, 409);
+      }
+      return json(tagBody('t1'));
+    });
+
+    const client = new GatewayClient('http://gw', fast);
+    const tag = await client.createTag({ uuid: 't1' } as Parameters<GatewayClient['createTag']>[0]);
+    expect(tag).toMatchObject({ uuid: 't1' });
+    expect(calls.map((c) => `${c.method} ${c.url}`)).toEqual([
+      'POST http://gw/api/v1/tags',
+      'POST http://gw/api/v1/tags',
+      'GET http://gw/api/v1/tags/t1',
+    ]);
+  });
+
+  it('should open the circuit after repeated failures and recover after the cooldown', async () => {
+    let up = false;
+    const calls = stubFetch(() => (up ? json({ status: 'ok' }) : json({ error: 'down' }, 500)));
+    const client = new GatewayClient('http://gw', { ...fast, maxRetries: 0, breakerThreshold: 2 });
+
+    await expect(client.healthCheck()).rejects.toThrow('down');
+    await expect(client.healthCheck()).rejects.toThrow('down');
+    expect(client.getCircuitState().state).toBe('open');
+
+    await expect(client.healthCheck()).rejects.toThrow(/circuit open/);
+    expect(calls).toHaveLength(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(client.getCircuitState().state).toBe('half_open');
+    up = true;
+    expect(await client.isReachable()).toBe(true);
+    expect(client.getCircuitState().state).toBe('closed');
+  });
+
+  it('should count one breaker failure per request and none for rate limiting', async () => {
+    let status = 500;
+    const calls = stubFetch(() => json({ error: 'busy' }, status));
+    const client = new GatewayClient('http://gw', { ...fast, maxRetries: 2, breakerThreshold: 2 });
+
+    await expect(client.healthCheck()).rejects.toThrow('busy');
+    expect(calls).toHaveLength(3);
+    expect(client.getCircuitState()).toMatchObject({ state: 'closed', consecutive_failures: 1 });
+
+    status = 429;
+    await expect(client.healthCheck()).rejects.toBeInstanceOf(RateLimitedError);
+    expect(calls).toHaveLength(6);
+    expect(client.getCircuitState()).toMatchObject({ state: 'closed', consecutive_failures: 0 });
+  });
+
+  it('should space out writes while the hub is critical', async () => {
+    stubFetch((_url, init) =>
+      json(init.method === 'POST' ? tagBody('t1') : { status: 'ok' }, 200, { 'X-Hub-Status': 'critical' })
+    );
+    const client = new GatewayClient('http://gw', { ...fast, criticalWriteIntervalMs: 40 });
+    await client.healthCheck();
+    expect(client.isHubCritical()).toBe(true);
+
+    const start = Date.now();
+    await client.createTag({ uuid: 'a' } as Parameters<GatewayClient['createTag']>[0]);
+    await client.createTag({ uuid: 'b' } as Parameters<GatewayClient['createTag']>[0]);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+  });
+});
+
+describe('GatewayClient errors', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should map statuses to typed errors carrying the gateway body', async () => {
+    const client = new GatewayClient('http://gw', { ...fast, maxRetries: 0 });
+    const cases: Array<[Response, unknown]> = [
+      [json({ error: 'fragment not found' }, 404), NotFoundError],
+      [json({ error: 'exists' }, 409), ConflictError],
+      [json({ error: 'bad signature' }, 401), UnauthorizedError],
+      [json({ error: 'slow down' }, 429, { 'Retry-After': '2' }), RateLimitedError],
+      [json({ error: 'full' }, 503, { 'X-Hub-Status': 'critical' }), HubCriticalError],
+      [new Response('<html>', { status: 200 }), InvalidResponseError],
+    ];
+
+    for (const [response, type] of cases) {
+      stubFetch(() => response);
+      const error = await client.getFragment('f1').catch((e) => e);
+      expect(error).toBeInstanceOf(type);
+      expect(error).toMatchObject({ method: 'GET', path: '/api/v1/fragments/f1', status: response.status });
+    }
+
+    stubFetch(() => json({ error: 'fragment not found', uuid: 'f1' }, 404));
+    const notFound = await client.getFragment('f1').catch((e) => e);
+    expect(notFound.body).toEqual({ error: 'fragment not found', uuid: 'f1' });
+    expect(notFound.message).toBe('fragment not found');
+  });
+
+  it('should describe errors for tool responses', async () => {
+    stubFetch(() => json({ error: 'slow down' }, 429, { 'Retry-After': '120' }));
+    const client = new GatewayClient('http://gw', fast);
+    const error = await client.healthCheck().catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitedError);
+
+    expect(gatewayErrorPayload(error)).toMatchObject({
+      code: 'rate_limited',
+      status: 429,
+      retryable: true,
+      retry_after_ms: 120_000,
+      gateway_body: { error: 'slow down' },
+      hint: expect.stringContaining('Wait'),
+    });
+
+    const offline = new NetworkError('circuit open', { method: 'GET', path: '/health' }, 'circuit_open');
+    expect(gatewayErrorPayload(offline)).toMatchObject({ code: 'network', reason: 'circuit_open', retryable: false });
+  });
+});
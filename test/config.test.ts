@@ -1,4 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { loadConfig } from '../src/config/loader.js';
 import {
   WisdomConfigSchema,
   PartialWisdomConfigSchema,
@@ -79,3 +83,47 @@ describe('Default Config', () => {
     expect(DEFAULT_CONFIG.gateway_url).toBe('http://localhost:8080');
   });
 });
+
+describe('loadConfig', () => {
+  const dirs: string[] = [];
+
+  afterEach(() => {
+    delete process.env.XDG_CONFIG_HOME;
+    delete process.env.WISDOM_KEY_VAULT;
+    delete process.env.WISDOM_KEY_FILE;
+    dirs.splice(0).forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+  });
+
+  function setup(globalConfig: object, projectConfig: object) {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'wisdom-config-'));
+    dirs.push(root);
+    process.env.XDG_CONFIG_HOME = path.join(root, 'xdg');
+    fs.mkdirSync(path.join(root, 'xdg', 'claude'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'xdg', 'claude', 'wisdom.json'), JSON.stringify(globalConfig));
+    fs.mkdirSync(path.join(root, 'project', '.wisdom'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'project', '.wisdom', 'config.json'), JSON.stringify(projectConfig));
+    return { root, project: path.join(root, 'project') };
+  }
+
+  it('should resolve a relative key_vault against the file or environment that set it', () => {
+    const { root, project } = setup({ key_vault: 'keys/vault.json' }, {});
+    expect(loadConfig(project).paths.keyVault).toBe(path.join(root, 'xdg', 'claude', 'keys', 'vault.json'));
+
+    process.env.WISDOM_KEY_VAULT = 'env-vault.json';
+    expect(loadConfig(project).paths.keyVault).toBe(path.resolve('env-vault.json'));
+
+    fs.writeFileSync(path.join(project, '.wisdom', 'config.json'), JSON.stringify({ key_vault: 'vault.json' }));
+    expect(loadConfig(project).paths.keyVault).toBe(path.join(project, '.wisdom', 'vault.json'));
+  });
+
+  it('should resolve a relative key_file against the file or environment that set it', () => {
+    const { root, project } = setup({ key_file: 'passphrase.txt' }, {});
+    expect(loadConfig(project).config.key_file).toBe(path.join(root, 'xdg', 'claude', 'passphrase.txt'));
+
+    process.env.WISDOM_KEY_FILE = 'env-passphrase.txt';
+    expect(loadConfig(project).config.key_file).toBe(path.resolve('env-passphrase.txt'));
+
+    fs.writeFileSync(path.join(project, '.wisdom', 'config.json'), JSON.stringify({ key_file: '/etc/wisdom/passphrase' }));
+    expect(loadConfig(project).config.key_file).toBe('/etc/wisdom/passphrase');
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  DEFAULT_CONFIDENCE,
+  deliverFragment,
+  ensurePresetTransform,
+  parseFragmentMetadata,
+  resolveFragmentTransform,
+  resolveQueuedPreset,
+} from '../src/tools/defaults.js';
+import { AddressCache, type ServerContext } from '../src/server.js';
+import { StateManager } from '../src/state/persistent.js';
+import { Outbox } from '../src/state/outbox.js';
+import { NetworkError } from '../src/gateway/errors.js';
+import { getFragmentSignablePayload, verify } from '../src/crypto/signing.js';
+import { generateKeyPair } from '../src/crypto/keys.js';
+import type { CreateFragmentRequest, CreateTransformRequest } from '../src/gateway/types.js';
+
+describe('ensurePresetTransform', () => {
+  let dir: string;
+  let created: CreateTransformRequest[];
+
+  async function makeContext(gatewayUrl = 'http://localhost:8080', agentUuid = 'agent-1'): Promise<ServerContext> {
+    const { privateKey } = await generateKeyPair();
+    return {
+      config: { config: { gateway_url: gatewayUrl, agent_uuid: agentUuid } },
+      keyManager: { getPrivateKey: () => privateKey },
+      addressCache: new AddressCache(),
+      state: new StateManager(dir),
+      gateway: {
+        createTransform: async (t: CreateTransformRequest) => {
+          created.push(t);
+          return { ...t };
+        },
+      },
+    } as unknown as ServerContext;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wisdom-defaults-'));
+    created = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should register a preset once and reuse the cached UUID', async () => {
+    const context = await makeContext();
+    const [a, b] = await Promise.all([
+      ensurePresetTransform(context, 't3-compact'),
+      ensurePresetTransform(context, 't3-compact'),
+    ]);
+
+    expect(created).toHaveLength(1);
+    expect(a).toEqual({ uuid: created[0].uuid, registered: true });
+    expect(b.uuid).toBe(a.uuid);
+    expect(JSON.parse(created[0].additional_data)).toMatchObject({ preset: 't3-compact' });
+
+    // A new session reads the UUID from .wisdom/state.json
+    const next = await makeContext();
+    expect(await ensurePresetTransform(next, 't3-compact')).toEqual({ uuid: a.uuid, registered: false });
+    expect(created).toHaveLength(1);
+  });
+
+  it('should register again for a different gateway', async () => {
+    await ensurePresetTransform(await makeContext(), 't1-symbolic');
+    await ensurePresetTransform(await makeContext('http://other:8080'), 't1-symbolic');
+    expect(created).toHaveLength(2);
+  });
+
+  it('should not share in-flight registrations between agents', async () => {
+    const [one, two] = await Promise.all([
+      ensurePresetTransform(await makeContext(undefined, 'agent-1'), 't4-hybrid'),
+      ensurePresetTransform(await makeContext(undefined, 'agent-2'), 't4-hybrid'),
+    ]);
+    expect(created.map((t) => t.uuid)).toEqual([one.uuid, two.uuid]);
+    expect(one.uuid).not.toBe(two.uuid);
+  });
+
+  it('should reject unknown presets', async () => {
+    await expect(ensurePresetTransform(await makeContext(), 'nope')).rejects.toThrow(/Unknown preset/);
+  });
+});
+
+describe('resolveFragmentTransform', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wisdom-defaults-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should queue fragments with the preset while offline and register it on replay', async () => {
+    const { privateKey, publicKey } = await generateKeyPair();
+    const network = { online: false, transforms: [] as CreateTransformRequest[], fragments: [] as CreateFragmentRequest[] };
+    const offline = () => new NetworkError('fetch failed', { method: 'POST', path: '/' }, 'connection');
+    const outbox = new Outbox(dir);
+    const context = {
+      config: { config: { gateway_url: 'http://localhost:8080', agent_uuid: 'agent-1' } },
+      keyManager: { getPrivateKey: () => privateKey },
+      addressCache: new AddressCache(),
+      state: new StateManager(dir),
+      outbox,
+      gateway: {
+        isReachable: async () => network.online,
+        createTransform: async (t: CreateTransformRequest) => {
+          if (!network.online) throw offline();
+          network.transforms.push(t);
+          return { ...t };
+        },
+        createFragment: async (f: CreateFragmentRequest) => {
+          if (!network.online) throw offline();
+          network.fragments.push(f);
+          return { ...f };
+        },
+      },
+    } as unknown as ServerContext;
+    outbox.setPresetResolver((preset, fragment) => resolveQueuedPreset(context, preset, fragment));
+
+    const transform = await resolveFragmentTransform(context, undefined);
+    expect(transform).toMatchObject({ preset: 'baseline', auto_registered: false });
+
+    const data = {
+      uuid: 'fragment-1',
+      content: 'offline knowledge',
+      creator: context.addressCache.get('agent-1', 'AGENT'),
+      when: new Date().toISOString(),
+      transform: context.addressCache.get(transform.uuid, 'TRANSFORMATION'),
+    };
+    const delivery = await deliverFragment(context, { ...data, signature: 'placeholder' }, transform, undefined);
+    expect(delivery.queued).toBe(true);
+    expect(outbox.list()[0].preset_transform).toBe('baseline');
+
+    network.online = true;
+    expect((await outbox.replay(context.gateway)).delivered).toEqual(['fragment-1']);
+
+    // The fragment now references the registered transform and is signed for it
+    const [sent] = network.fragments;
+    expect(sent.transform.entity).toBe(network.transforms[0].uuid);
+    expect(context.state.getPresetTransform('baseline', 'http://localhost:8080')).toBe(sent.transform.entity);
+    expect(await verify(getFragmentSignablePayload(sent), sent.signature, publicKey)).toBe(true);
+  });
+});
+
+describe('parseFragmentMetadata', () => {
+  const TAG = '123e4567-e89b-12d3-a456-426614174002';
+
+  it('should fall back to the given defaults, then the built-in ones', () => {
+    expect(parseFragmentMetadata({})).toEqual({ confidence: DEFAULT_CONFIDENCE, evidence_type: 'unknown', tags: [] });
+    expect(parseFragmentMetadata({}, { confidence: 0.3, evidence_type: 'logical', tags: [TAG] })).toEqual({
+      confidence: 0.3,
+      evidence_type: 'logical',
+      tags: [TAG],
+    });
+    expect(parseFragmentMetadata({ confidence: 0, evidence_type: 'empirical' }, { confidence: 0.3 })).toMatchObject({
+      confidence: 0,
+      evidence_type: 'empirical',
+    });
+  });
+
+  it('should reject invalid values and name the input', () => {
+    expect(() => parseFragmentMetadata({ confidence: 1.5 })).toThrow(/confidence for fragment/);
+    expect(() => parseFragmentMetadata({ confidence: '0.5' })).toThrow(/confidence/);
+    expect(() => parseFragmentMetadata({ evidence_type: 'hearsay' }, {}, 'fragments[2]')).toThrow(
+      /evidence_type for fragments\[2\]: must be one of empirical, logical/
+    );
+    expect(() => parseFragmentMetadata({ tags: ['not-a-uuid'] })).toThrow(/tags/);
+    expect(() => parseFragmentMetadata({ tags: TAG })).toThrow(/tags/);
+  });
+});
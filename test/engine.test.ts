@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { TransformEngine } from '../src/transform/engine.js';
+import { validateDecodeResponse, validateEncodeResponse } from '../src/transform/delegation.js';
+import { PRESETS } from '../src/transform/presets.js';
+import type { GatewayClient } from '../src/gateway/client.js';
+import type { Transform } from '../src/gateway/types.js';
+
+function transform(uuid: string, transformTo: string, additionalData: string): Transform {
+  return { uuid, name: uuid, description: '', transform_to: transformTo, additional_data: additionalData } as Transform;
+}
+
+function fakeGateway(transforms: Transform[]) {
+  const calls = { get: 0, list: 0 };
+  const gateway = {
+    getTransform: async (uuid: string) => {
+      calls.get++;
+      const found = transforms.find((t) => t.uuid === uuid);
+      if (!found) throw new Error('not found');
+      return found;
+    },
+    listTransforms: async () => {
+      calls.list++;
+      return { items: transforms.slice(0, 1) };
+    },
+  } as unknown as GatewayClient;
+  return { gateway, calls };
+}
+
+describe('TransformEngine', () => {
+  const custom = transform('custom', 'text/markdown', JSON.stringify({ encode_instructions: 'ENC', decode_instructions: 'DEC' }));
+  const preset = transform('preset', 'application/x-sexp', JSON.stringify({ preset: 't1-symbolic' }));
+
+  it('should cache transforms and share concurrent lookups', async () => {
+    const { gateway, calls } = fakeGateway([custom]);
+    const engine = new TransformEngine(gateway);
+
+    await Promise.all([engine.getTransform('custom'), engine.getTransform('custom')]);
+    await engine.getTransform('custom');
+    expect(calls.get).toBe(1);
+    expect(await engine.getTransform('missing')).toBeNull();
+
+    await engine.findTransform('software');
+    await engine.findTransform('software');
+    expect(calls.list).toBe(1);
+  });
+
+  it('should not cache lookups that were in flight when the cache was cleared', async () => {
+    const old = transform('shared', 'text/markdown', 'OLD');
+    const fresh = transform('shared', 'text/markdown', 'NEW');
+    let release: (t: Transform) => void = () => {};
+    let served = 0;
+    const gateway = {
+      getTransform: () => {
+        served++;
+        return served === 1 ? new Promise<Transform>((resolve) => (release = resolve)) : Promise.resolve(fresh);
+      },
+    } as unknown as GatewayClient;
+    const engine = new TransformEngine(gateway);
+
+    const inFlight = engine.getTransform('shared');
+    engine.clearCache();
+    const afterSwitch = engine.getTransform('shared');
+    release(old);
+
+    expect(await inFlight).toBe(old);
+    expect(await afterSwitch).toBe(fresh);
+    expect(await engine.getTransform('shared')).toBe(fresh);
+    expect(served).toBe(2);
+  });
+
+  it('should rethrow gateway errors from requireTransform and cache listed transforms', async () => {
+    const { gateway, calls } = fakeGateway([custom]);
+    const engine = new TransformEngine(gateway);
+
+    await expect(engine.requireTransform('missing')).rejects.toThrow('not found');
+    const listed = await engine.listTransforms();
+    expect(listed.items).toEqual([custom]);
+    expect(await engine.requireTransform('custom')).toBe(custom);
+    expect(calls.get).toBe(1);
+  });
+
+  it('should resolve specs from additional_data, presets or the fallback preset', async () => {
+    const { gateway } = fakeGateway([custom, preset]);
+    const engine = new TransformEngine(gateway);
+
+    expect(await engine.lookup({ transformUuid: 'custom' })).toMatchObject({ encode_spec: 'ENC', decode_spec: 'DEC' });
+    expect(await engine.lookup({ transformUuid: 'preset' })).toMatchObject({
+      preset: 't1-symbolic',
+      decode_spec: PRESETS['t1-symbolic'].decode_instructions,
+    });
+    expect(await engine.lookup({ transformUuid: 'missing', preset: 't3-compact' })).toMatchObject({
+      transform: null,
+      preset: 't3-compact',
+    });
+    expect(await engine.lookup({})).toMatchObject({ encode_spec: null, transform_to: 'text/plain' });
+  });
+
+  it('should decode preset-shaped content with the preset spec when the transform is unavailable', async () => {
+    const engine = new TransformEngine(fakeGateway([]).gateway);
+    const request = await engine.createDecodeRequest('F{type:DEF E[1:"A"]}', 'de', { sourceTransformUuid: 'gone' });
+    expect(request.transform_spec).toBe(PRESETS['t3-compact'].decode_instructions);
+    expect(await engine.presetOf('gone', 'plain text')).toBe('baseline');
+  });
+
+  it('should build preset encode requests with a follow-up', () => {
+    const engine = new TransformEngine(fakeGateway([]).gateway);
+    const request = engine.createPresetEncodeRequest('content', 't4-hybrid', 'INSIGHT', 'Then store it.');
+    expect(request.instructions).toContain('"type": "INSIGHT"');
+    expect(request.instructions.endsWith('Then store it.')).toBe(true);
+  });
+});
+
+describe('host response validation', () => {
+  it('should accept encode responses as objects or fenced JSON', () => {
+    expect(validateEncodeResponse({ fragments: [{ content: 'A', type: 'FACT' }] }).fragments).toHaveLength(1);
+    const fenced = '```json\n{"fragments": [{"content": "A"}], "source_language_detected": "de"}\n```';
+    expect(validateEncodeResponse(fenced).source_language_detected).toBe('de');
+  });
+
+  it('should reject malformed replies', () => {
+    expect(() => validateEncodeResponse('not json')).toThrow(/not valid JSON/);
+    expect(() => validateEncodeResponse({ fragments: [] })).toThrow(/non-empty array/);
+    expect(() => validateEncodeResponse({ fragments: [{ content: ' ' }] })).toThrow(/fragments\[0\]\.content/);
+    expect(() => validateDecodeResponse({ content: 'Hallo', notes: 1 })).toThrow(/notes must be a string/);
+    expect(validateDecodeResponse('{"content": "Hallo"}')).toEqual({ content: 'Hallo' });
+  });
+});
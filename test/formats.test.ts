@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeToEnglish,
+  parseCompactSchema,
+  parseHybrid,
+  parseSExpression,
+  validateEncoded,
+} from '../src/transform/formats/index.js';
+
+describe('parseSExpression', () => {
+  it('should parse definitions and procedures', () => {
+    const records = parseSExpression(`(def qtg01
+  (is-a "Qt Graphs" :module)
+  (part-of :qt6))
+
+(pro surf01
+  (goal "3D surface plot")
+  (steps
+    (create "Q3DSurface")
+    (set-data "QSurfaceDataProxy")))`);
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ type: 'definition', id: 'qtg01' });
+    expect(records[0].relations[0]).toMatchObject({ subject: 'Qt Graphs', predicate: 'is-a', object: 'module' });
+    expect(records[1].goal).toBe('3D surface plot');
+    expect(records[1].steps.map((s) => s.action)).toEqual(['create', 'set-data']);
+  });
+
+  it('should read relation qualifiers and record metadata', () => {
+    const [record] = parseSExpression('(obs o1 (supports China Russia :domain geo) :conf 0.7 :src "CFR")');
+    expect(record.relations[0].qualifiers).toEqual({ domain: 'geo' });
+    expect(record.confidence).toBe(0.7);
+    expect(record.source).toBe('CFR');
+  });
+
+  it('should reject malformed content', () => {
+    expect(() => parseSExpression('(def x (is-a A B)')).toThrow(/Unclosed/);
+    expect(() => parseSExpression('(zzz x (is-a A B))')).toThrow(/Unknown fragment type/);
+    expect(() => parseSExpression('')).toThrow(/Empty/);
+  });
+});
+
+describe('parseCompactSchema', () => {
+  it('should resolve entity references', () => {
+    const [def, proc] = parseCompactSchema(`F{type:DEF dom:CHEM conf:HIGH
+  E[1:"NADH" 2:"NAD+" 3:"electrons"]
+  R[1 donates 3]}
+
+F{type:PROC dom:QT conf:HIGH
+  E[1:"surface plot" 2:"Q3DSurface" 3:"Series"]
+  STEPS[{act:CREATE obj:2} {act:ADD obj:3 to:2}]
+  GOAL:1}`);
+
+    expect(def).toMatchObject({ type: 'definition', domain: 'CHEM', confidence: 0.8 });
+    expect(def.relations[0]).toMatchObject({ subject: 'NADH', predicate: 'donates', object: 'electrons' });
+    expect(proc.goal).toBe('surface plot');
+    expect(proc.steps[1]).toEqual({ action: 'add', object: 'Series', target: 'Q3DSurface' });
+  });
+
+  it('should reject unknown references and confidence levels', () => {
+    expect(() => parseCompactSchema('F{type:DEF E[1:"A"] R[1 is 9]}')).toThrow(/Unknown entity reference 9/);
+    expect(() => parseCompactSchema('F{type:DEF conf:MAYBE E[1:"A"]}')).toThrow(/Unknown confidence/);
+    expect(() => parseCompactSchema('F{type:DEF E[1:"A"]')).toThrow(/end of content/);
+  });
+});
+
+describe('parseHybrid', () => {
+  it('should parse header, text, entities and relations', () => {
+    const [record] = parseHybrid(`f:CN-RU01 {T:OBS D:geo C:.85}
+text: "China supports Russia economically
+       but withholds lethal weapons."
+E: [China:state, Russia:state, econ-support:concept]
+R: [China provides econ-support to Russia,
+    China withholds lethal-wpn from Russia]
+src: "CFR-2025"`);
+
+    expect(record).toMatchObject({ type: 'observation', id: 'CN-RU01', domain: 'geo', confidence: 0.85, source: 'CFR-2025' });
+    expect(record.text).toBe('China supports Russia economically but withholds lethal weapons.');
+    expect(record.entities[2]).toEqual({ id: 'econ-support', label: 'econ-support', type: 'concept' });
+    expect(record.relations[0]).toMatchObject({ subject: 'China', predicate: 'provides econ-support to', object: 'Russia' });
+  });
+
+  it('should unescape backslash escapes in quoted values', () => {
+    const [record] = parseHybrid('f:Q1 {T:OBS}\ntext: "It\'s a \\"quoted\\" thing"\nsrc: "C:\\\\docs"');
+
+    expect(record.text).toBe('It\'s a "quoted" thing');
+    expect(record.source).toBe('C:\\docs');
+    expect(() => parseHybrid('f:Q1 {T:OBS}\ntext: "open \\"')).toThrow(/Unclosed "/);
+  });
+
+  it('should reject records without a header or text', () => {
+    expect(() => parseHybrid('text: "orphan"')).toThrow(/before the f:ID/);
+    expect(() => parseHybrid('f:X1 {T:OBS}\nsrc: "s"')).toThrow(/no text field/);
+  });
+});
+
+describe('decodeToEnglish', () => {
+  it('should render records with the preset templates', () => {
+    expect(decodeToEnglish('(def d1 (is-a "Qt Graphs" :module))', 'application/x-sexp')).toBe('Qt Graphs is a module.');
+    expect(decodeToEnglish('(pro p1 (goal "plot") (steps (create A) (set-data B)))', 'application/x-sexp'))
+      .toBe('To plot: 1) create A, 2) set data B.');
+    expect(decodeToEnglish('(hyp h1 (if rain) (then wet cold))', 'application/x-sexp'))
+      .toBe('If rain, then wet and cold.');
+    expect(decodeToEnglish('F{type:OBS conf:LOW E[1:"A" 2:"B"] R[1 sup 2]}', 'application/x-compact-schema'))
+      .toBe('A supports B (low confidence).');
+  });
+
+  it('should report validation errors by MIME type', () => {
+    expect(validateEncoded('(def x (is-a A B))', 'application/x-sexp')).toBeNull();
+    expect(validateEncoded('(def x', 'application/x-sexp')).toMatch(/Unclosed/);
+    expect(validateEncoded('anything', 'text/markdown')).toMatch(/No parser/);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  creatorSignedSupersedes,
+  getAllRelationsForEntity,
+  getFragmentHistory,
+  getVersionLinks,
+} from '../src/gateway/graph.js';
+import { generateKeyPair } from '../src/crypto/keys.js';
+import { signRelation } from '../src/crypto/signing.js';
+import { SignatureVerifier } from '../src/crypto/verification.js';
+import type { GatewayClient } from '../src/gateway/client.js';
+import type { Relation, RelationType } from '../src/gateway/types.js';
+
+function relation(from: string, to: string, type: RelationType = 'SUPERSEDES'): Relation {
+  const addr = (entity: string) => ({ server_port: '', domain: 'FRAGMENT' as const, entity });
+  return {
+    uuid: `${from}-${to}`,
+    from: addr(from),
+    to: addr(to),
+    by: addr('agent'),
+    type,
+    content: '',
+    creator: addr('agent'),
+    when: '',
+    signature: '',
+  } as Relation;
+}
+
+function fakeGateway(relations: Relation[]): GatewayClient {
+  return {
+    getRelationsForEntity: async (uuid: string) => ({
+      items: relations.filter((r) => r.from.entity === uuid || r.to.entity === uuid),
+    }),
+  } as unknown as GatewayClient;
+}
+
+describe('getAllRelationsForEntity', () => {
+  it('should follow next_cursor across pages', async () => {
+    const pages: Record<string, { items: Relation[]; next_cursor?: string }> = {
+      start: { items: [relation('a', 'b')], next_cursor: 'p2' },
+      p2: { items: [relation('c', 'a')], next_cursor: 'p3' },
+      p3: { items: [relation('a', 'd')] },
+    };
+    const gateway = {
+      getRelationsForEntity: async (_uuid: string, _dir: string, _limit: number, cursor?: string) =>
+        pages[cursor || 'start'],
+    } as unknown as GatewayClient;
+
+    const { relations, truncated } = await getAllRelationsForEntity(gateway, 'a');
+    expect(relations.map((r) => r.uuid)).toEqual(['a-b', 'c-a', 'a-d']);
+    expect(truncated).toBe(false);
+  });
+
+  it('should flag results cut off by the page limit', async () => {
+    let page = 0;
+    const gateway = {
+      getRelationsForEntity: async () => ({ items: [relation('a', 'b')], next_cursor: `p${page++}` }),
+    } as unknown as GatewayClient;
+
+    const { relations, truncated } = await getAllRelationsForEntity(gateway, 'a', 'both', 3);
+    expect(relations).toHaveLength(3);
+    expect(truncated).toBe(true);
+  });
+
+  it('should stop when the gateway repeats a cursor', async () => {
+    let calls = 0;
+    const gateway = {
+      getRelationsForEntity: async () => {
+        calls++;
+        return { items: [relation('a', 'b')], next_cursor: 'same' };
+      },
+    } as unknown as GatewayClient;
+
+    await getAllRelationsForEntity(gateway, 'a');
+    expect(calls).toBe(2);
+  });
+});
+
+describe('fragment version graph', () => {
+  // v1 <- v2 <- v3 (newer supersedes older)
+  const chain = [relation('v2', 'v1'), relation('v3', 'v2'), relation('v2', 'x', 'SUPPORTS')];
+
+  it('should resolve direct successors and predecessors', async () => {
+    const links = await getVersionLinks(fakeGateway(chain), 'v2');
+    expect(links).toEqual({ successors: ['v3'], predecessors: ['v1'] });
+  });
+
+  it('should walk the chain in both directions', async () => {
+    const history = await getFragmentHistory(fakeGateway(chain), 'v2');
+    expect(history.chain).toEqual(['v1', 'v2', 'v3']);
+    expect(history.latest).toBe('v3');
+    expect(history.truncated).toBe(false);
+  });
+
+  it('should report forks and truncation', async () => {
+    const forked = [...chain, relation('v3b', 'v2')];
+    const history = await getFragmentHistory(fakeGateway(forked), 'v1', 1);
+    expect(history.chain).toEqual(['v1', 'v2']);
+    expect(history.truncated).toBe(true);
+
+    const full = await getFragmentHistory(fakeGateway(forked), 'v1');
+    expect(full.branches.map((b) => b.fragment)).toContain('v2');
+  });
+
+  it('should tolerate empty gateway bodies', async () => {
+    const gateway = { getRelationsForEntity: async () => ({}) } as unknown as GatewayClient;
+    const history = await getFragmentHistory(gateway, 'solo');
+    expect(history.chain).toEqual(['solo']);
+  });
+});
+
+describe('creatorSignedSupersedes', () => {
+  it('should honour only SUPERSEDES relations signed by the old fragment creator', async () => {
+    const owner = await generateKeyPair();
+    const mallory = await generateKeyPair();
+    const addr = (domain: 'AGENT' | 'FRAGMENT', entity: string) => ({ server_port: '', domain, entity });
+
+    async function supersedes(from: string, to: string, creator: string, privateKey: Uint8Array): Promise<Relation> {
+      const data = {
+        uuid: `${from}-${to}`,
+        from: addr('FRAGMENT', from),
+        to: addr('FRAGMENT', to),
+        by: addr('AGENT', creator),
+        type: 'SUPERSEDES' as const,
+        content: '',
+        creator: addr('AGENT', creator),
+        when: '2024-01-01T00:00:00Z',
+      };
+      return { ...data, version: 1, signature: await signRelation(data, privateKey) };
+    }
+
+    const forged = await supersedes('v2-owner', 'v1', 'owner', mallory.privateKey);
+    const relations = [
+      await supersedes('v2-owner', 'v1', 'owner', owner.privateKey),
+      await supersedes('v2-mallory', 'v1', 'mallory', mallory.privateKey),
+      { ...forged, uuid: 'forged' },
+    ];
+    const gateway = {
+      ...fakeGateway(relations),
+      getFragment: async (uuid: string) => ({ uuid, creator: addr('AGENT', uuid === 'v1' ? 'owner' : 'other') }),
+    } as unknown as GatewayClient;
+    const verifier = new SignatureVerifier(gateway);
+    verifier.setKnownKey('owner', owner.publicKeyBase64);
+    verifier.setKnownKey('mallory', mallory.publicKeyBase64);
+
+    expect((await getVersionLinks(gateway, 'v1')).successors).toHaveLength(3);
+    const links = await getVersionLinks(gateway, 'v1', creatorSignedSupersedes(gateway, verifier));
+    expect(links.successors).toEqual(['v2-owner']);
+  });
+});
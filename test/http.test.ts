@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { createHttpApp, HTTP_ENDPOINTS } from '../src/http.js';
+
+describe('HTTP mode', () => {
+  let configDir: string;
+  let httpServer: Server;
+  let baseUrl: string;
+  let sessions: ReturnType<typeof createHttpApp>['sessions'];
+
+  beforeAll(async () => {
+    // Keep the user's global config and key vault out of the test
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wisdom-http-'));
+    process.env.XDG_CONFIG_HOME = configDir;
+
+    const created = createHttpApp();
+    sessions = created.sessions;
+    httpServer = created.app.listen(0, '127.0.0.1');
+    await new Promise<void>((resolve) => httpServer.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+    delete process.env.XDG_CONFIG_HOME;
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('should start a session, list tools and delete the session', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}${HTTP_ENDPOINTS.mcp}`));
+    const client = new Client({ name: 'http-test', version: '0.0.0' });
+    await client.connect(transport);
+
+    const sessionId = transport.sessionId;
+    expect(sessionId && sessions.has(sessionId)).toBe(true);
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain('wisdom_whoami');
+
+    await transport.terminateSession();
+    expect(sessions.size).toBe(0);
+    await client.close();
+  });
+
+  it('should reject requests for unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}${HTTP_ENDPOINTS.mcp}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'missing' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: { code: -32001 } });
+  });
+});
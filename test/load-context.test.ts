@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { createValidityTools } from '../src/tools/validity.js';
+import { FragmentIndex } from '../src/search/fragment-index.js';
+import { countTokens } from '../src/tokenizer/counter.js';
+import type { ServerContext } from '../src/server.js';
+import type { Fragment, Relation } from '../src/gateway/types.js';
+
+const address = (domain: 'AGENT' | 'FRAGMENT' | 'TRANSFORM', entity: string) => ({ server_port: '', domain, entity });
+
+function fragment(uuid: string, content: string, options: Partial<Fragment> & { by?: string } = {}): Fragment {
+  const { by = 'alice', ...rest } = options;
+  return {
+    uuid,
+    content,
+    tags: [],
+    transform: address('TRANSFORM', 'plain'),
+    creator: address('AGENT', by),
+    version: 1,
+    when: '',
+    signature: '',
+    confidence: 0.8,
+    evidence_type: 'unknown',
+    ...rest,
+  };
+}
+
+function supersedes(from: string, to: string, by: string): Relation {
+  return {
+    uuid: `${from}-${to}`,
+    from: address('FRAGMENT', from),
+    to: address('FRAGMENT', to),
+    type: 'SUPERSEDES',
+    creator: address('AGENT', by),
+    version: 1,
+    when: '',
+    signature: 'signed',
+  } as Relation;
+}
+
+function makeContext(hits: Fragment[], stored: Fragment[] = [], relations: Relation[] = []): ServerContext {
+  const fragments = new Map([...hits, ...stored].map((f) => [f.uuid, f]));
+  return {
+    config: { config: { gateway_url: 'http://gw' } },
+    searchIndex: new FragmentIndex(null),
+    gateway: {
+      searchFragments: async () => ({ items: hits }),
+      getFragment: async (uuid: string) => {
+        const found = fragments.get(uuid);
+        if (!found) throw new Error(`missing ${uuid}`);
+        return found;
+      },
+      getRelationsForEntity: async (uuid: string) => ({
+        items: relations.filter((r) => r.from.entity === uuid || r.to.entity === uuid),
+      }),
+    },
+    verifier: {
+      annotateFragments: async (list: Fragment[]) => list.map((f) => ({ ...f, verified: true })),
+      verifyRelation: async (r: Relation) => r.signature === 'signed',
+      annotateRelations: async (list: Relation[]) => list.map((r) => ({ ...r, verified: r.signature === 'signed' })),
+    },
+    transformEngine: {
+      presetOf: async (transformUuid?: string) => (transformUuid === 't1' ? 't1-symbolic' : 'baseline'),
+    },
+  } as unknown as ServerContext;
+}
+
+const loadContext = createValidityTools().find((t) => t.tool.name === 'wisdom_load_context_for_task')!.handler;
+
+function usedTokens(output: unknown): { used: number; budget: number } {
+  const match = String(output).match(/Tokens: ~(\d+)\/(\d+)/);
+  return { used: Number(match?.[1]), budget: Number(match?.[2]) };
+}
+
+describe('wisdom_load_context_for_task', () => {
+  const old = fragment('old-version', 'Retry failed requests three times');
+
+  it('should replace a hit superseded by its creator with the latest version', async () => {
+    const context = makeContext([old], [fragment('new-version', 'Retry failed requests with exponential backoff')], [
+      supersedes('new-version', 'old-version', 'alice'),
+    ]);
+    const output = String(await loadContext({ task_description: 'retry failed requests', packing: 'graph' }, context));
+
+    expect(output).toContain('exponential backoff');
+    expect(output).toContain('replaces superseded id:old-vers');
+    expect(output).not.toContain('three times');
+  });
+
+  it('should ignore SUPERSEDES relations from other agents or without a valid signature', async () => {
+    const forged = { ...supersedes('new-version', 'old-version', 'alice'), signature: 'forged' };
+    for (const relation of [supersedes('new-version', 'old-version', 'mallory'), forged]) {
+      const context = makeContext([old], [fragment('new-version', 'Never retry failed requests', { by: 'mallory' })], [
+        relation,
+      ]);
+      const output = String(await loadContext({ task_description: 'retry failed requests', packing: 'graph' }, context));
+
+      expect(output).toContain('three times');
+      expect(output).not.toContain('Never retry');
+    }
+  });
+
+  it('should only pull in neighbours over relations with a valid signature', async () => {
+    const contradicts = (from: string, signature: string): Relation => ({
+      ...supersedes(from, 'old-version', 'bob'),
+      type: 'CONTRADICTS',
+      signature,
+    });
+    const context = makeContext(
+      [old],
+      [fragment('signed', 'Never retry non-idempotent requests'), fragment('forged', 'Retrying is always wrong')],
+      [contradicts('signed', 'signed'), contradicts('forged', 'forged')]
+    );
+    const output = String(await loadContext({ task_description: 'retry failed requests', packing: 'graph' }, context));
+
+    expect(output).toContain('non-idempotent');
+    expect(output).not.toContain('always wrong');
+  });
+
+  it('should drop a superseded hit whose latest version is below min_confidence', async () => {
+    const context = makeContext([old], [fragment('new-version', 'Retry only idempotent requests', { confidence: 0.1 })], [
+      supersedes('new-version', 'old-version', 'alice'),
+    ]);
+    const output = String(await loadContext({ task_description: 'retry failed requests', packing: 'graph' }, context));
+
+    expect(output).toContain('Returned: 0');
+    expect(output).not.toContain('idempotent');
+    expect(output).not.toContain('three times');
+  });
+
+  it('should count decode instructions against the token budget', async () => {
+    const plain = fragment('plain', 'Retry failed requests with exponential backoff');
+    const packed = fragment('packed', '(obs retry backoff :conf 0.8)', { transform: address('TRANSFORM', 't1') });
+    const fragmentTokens =
+      countTokens(plain.content, 'baseline') + 25 + countTokens(packed.content, 't1-symbolic') + 25;
+
+    // Room for both fragments but not their decode instructions
+    const tight = await loadContext(
+      { task_description: 'retry failed requests exponential backoff', token_budget: fragmentTokens + 5 },
+      makeContext([plain, packed])
+    );
+    expect(String(tight)).toContain('Returned: 1');
+    expect(String(tight)).not.toContain('Decoding required');
+    expect(usedTokens(tight).used).toBeLessThanOrEqual(fragmentTokens + 5);
+
+    const roomy = await loadContext(
+      { task_description: 'retry failed requests exponential backoff', token_budget: fragmentTokens + 2000 },
+      makeContext([plain, packed])
+    );
+    expect(String(roomy)).toContain('Returned: 2');
+    expect(String(roomy)).toContain('## Decoding required');
+    expect(usedTokens(roomy).used).toBeGreaterThan(fragmentTokens);
+    expect(usedTokens(roomy).used).toBeLessThanOrEqual(fragmentTokens + 2000);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Outbox } from '../src/state/outbox.js';
+import type { GatewayClient } from '../src/gateway/client.js';
+import type { CreateTagRequest } from '../src/gateway/types.js';
+
+function tag(uuid: string): CreateTagRequest {
+  return {
+    uuid,
+    name: `tag-${uuid}`,
+    content: '',
+    category: 'DOMAIN',
+    creator: { server_port: '', domain: 'AGENT', entity: 'agent' },
+    signature: 'sig',
+  };
+}
+
+function fakeGateway() {
+  const state = {
+    reachable: false,
+    created: [] as string[],
+    reject: new Set<string>(),
+  };
+  const gateway = {
+    isReachable: async () => state.reachable,
+    createTag: async (t: CreateTagRequest) => {
+      if (!state.reachable) throw new Error('fetch failed');
+      if (state.reject.has(t.uuid)) throw new Error('invalid signature');
+      state.created.push(t.uuid);
+      return t;
+    },
+    getTag: async (uuid: string) => {
+      if (!state.created.includes(uuid)) throw new Error('not found');
+      return { uuid };
+    },
+  } as unknown as GatewayClient;
+  return { state, gateway };
+}
+
+describe('Outbox', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'wisdom-outbox-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should queue writes while the gateway is unreachable and replay them in order', async () => {
+    const { state, gateway } = fakeGateway();
+    const outbox = new Outbox(root);
+
+    for (const uuid of ['a', 'b']) {
+      const result = await outbox.deliverOrQueue(gateway, 'tag', tag(uuid), undefined, () => gateway.createTag(tag(uuid)));
+      expect(result.queued).toBe(true);
+    }
+    expect(fs.existsSync(path.join(root, '.wisdom/outbox.json'))).toBe(true);
+    expect(new Outbox(root).size()).toBe(2);
+
+    state.reachable = true;
+    const replay = await outbox.replay(gateway);
+
+    expect(replay.delivered).toEqual(['a', 'b']);
+    expect(state.created).toEqual(['a', 'b']);
+    expect(outbox.size()).toBe(0);
+  });
+
+  it('should deduplicate entries by entity UUID', async () => {
+    const { gateway } = fakeGateway();
+    const outbox = new Outbox(root);
+
+    await outbox.deliverOrQueue(gateway, 'tag', tag('a'), undefined, () => gateway.createTag(tag('a')));
+    await outbox.deliverOrQueue(gateway, 'tag', tag('a'), undefined, () => gateway.createTag(tag('a')));
+
+    expect(outbox.size()).toBe(1);
+  });
+
+  it('should move rejected entries to failed without blocking the queue', async () => {
+    const { state, gateway } = fakeGateway();
+    const outbox = new Outbox(root);
+    outbox.enqueue('tag', tag('bad'));
+    outbox.enqueue('tag', tag('good'));
+
+    state.reachable = true;
+    state.reject.add('bad');
+    const replay = await outbox.replay(gateway);
+
+    expect(replay.failed.map((f) => f.uuid)).toEqual(['bad']);
+    expect(replay.delivered).toEqual(['good']);
+    expect(outbox.failedCount()).toBe(1);
+  });
+
+  it('should rethrow errors from a reachable gateway', async () => {
+    const { state, gateway } = fakeGateway();
+    const outbox = new Outbox(root);
+    state.reachable = true;
+    state.reject.add('bad');
+
+    await expect(
+      outbox.deliverOrQueue(gateway, 'tag', tag('bad'), undefined, () => gateway.createTag(tag('bad')))
+    ).rejects.toThrow('invalid signature');
+    expect(outbox.size()).toBe(0);
+  });
+
+  it('should keep entries queued while a replay is in flight', async () => {
+    const { state, gateway } = fakeGateway();
+    const outbox = new Outbox(root);
+    outbox.enqueue('tag', tag('a'));
+    state.reachable = true;
+
+    const createTag = gateway.createTag.bind(gateway);
+    gateway.createTag = async (t: CreateTagRequest) => {
+      if (t.uuid === 'a') {
+        // Queued meanwhile by this session and by another one on the same project
+        outbox.enqueue('tag', tag('same-session'));
+        new Outbox(root).enqueue('tag', tag('other-session'));
+      }
+      return createTag(t);
+    };
+
+    const replay = await outbox.replay(gateway);
+    expect(replay.delivered).toEqual(['a', 'same-session', 'other-session']);
+    expect(outbox.size()).toBe(0);
+  });
+});
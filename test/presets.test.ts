@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { isCompressedPreset, presetForTransform, selectPreset, selectPresetAdaptive } from '../src/transform/presets.js';
+import { StateManager } from '../src/state/persistent.js';
+
+describe('presetForTransform', () => {
+  it('should prefer the preset key from additional_data', () => {
+    const transform = { transform_to: 'text/plain', additional_data: JSON.stringify({ preset: 't4-hybrid' }) };
+    expect(presetForTransform(transform)).toBe('t4-hybrid');
+  });
+
+  it('should recognise presets by transform_to MIME type', () => {
+    expect(presetForTransform({ transform_to: 'application/x-sexp', additional_data: 'free text' })).toBe('t1-symbolic');
+    expect(presetForTransform({ transform_to: 'application/x-compact-schema', additional_data: '' })).toBe('t3-compact');
+    expect(presetForTransform({ transform_to: 'application/x-custom', additional_data: '' })).toBeUndefined();
+  });
+
+  it('should only treat non-plain presets as compressed', () => {
+    expect(isCompressedPreset('t1-symbolic')).toBe(true);
+    expect(isCompressedPreset('baseline')).toBe(false);
+    expect(isCompressedPreset(undefined)).toBe(false);
+  });
+});
+
+describe('selectPresetAdaptive', () => {
+  it('should follow the fixed table without observations', () => {
+    const state = new StateManager(null);
+    for (const [type, pressure] of [['FACT', 0], ['DEFINITION', 0.5], ['HYPOTHESIS', 0.9], ['QUESTION', 0.1]] as const) {
+      const selection = selectPresetAdaptive(type, pressure, (p) => state.getPresetMetric(p, type));
+      expect(selection.preset).toBe(selectPreset(type, pressure));
+    }
+  });
+
+  it('should deprioritise a preset gradually as poor compression is observed', () => {
+    const state = new StateManager(null);
+    const select = () => selectPresetAdaptive('FACT', 0.5, (p) => state.getPresetMetric(p, 'FACT', 'chem'));
+
+    for (let i = 0; i < 2; i++) state.recordPresetMetric('t3-compact', 'FACT', 'chem', { compression: 0.1 });
+    expect(select().preset).toBe('t3-compact');
+
+    for (let i = 0; i < 20; i++) state.recordPresetMetric('t3-compact', 'FACT', 'chem', { compression: 0.1 });
+    const selection = select();
+    expect(selection.preset).not.toBe('t3-compact');
+    expect(selection.reason).toMatch(/t3-compact deprioritised \(observed compression 10% over 22 stores/);
+  });
+
+  it('should scope metrics by domain with a type-wide fallback', () => {
+    const state = new StateManager(null);
+    state.recordPresetMetric('t1-symbolic', 'definition', 'Chem', { compression: 0.4, quality: 4 });
+    state.recordPresetMetric('t1-symbolic', 'DEFINITION', 'geo', { quality: 2 });
+
+    expect(state.getPresetMetric('t1-symbolic', 'DEFINITION', 'chem')).toMatchObject({ domain: 'chem', quality: 4 });
+    expect(state.getPresetMetric('t1-symbolic', 'DEFINITION', 'bio')).toMatchObject({
+      compression_samples: 1,
+      quality_samples: 2,
+      quality: 3,
+    });
+  });
+});
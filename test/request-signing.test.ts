@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { generateKeyPair, KeyManager, type KeyPair } from '../src/crypto/keys.js';
+import {
+  NonceCache,
+  createRequestSigner,
+  signRequest,
+  verifyRequest,
+} from '../src/crypto/request-signing.js';
+import { GatewayClient } from '../src/gateway/client.js';
+import { UnauthorizedError } from '../src/gateway/errors.js';
+
+const AGENT = '11111111-1111-4111-8111-111111111111';
+
+/**
+ * Stub gateway that only answers requests signed by a known agent
+ */
+function startStubGateway(keys: Map<string, Uint8Array>) {
+  const nonces = new NonceCache();
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      const result = await verifyRequest(
+        { method: req.method || 'GET', path: req.url || '/', body: body || undefined, headers: req.headers },
+        { getPublicKey: (agent) => keys.get(agent) ?? null, nonces }
+      );
+      res.setHeader('Content-Type', 'application/json');
+      if (!result.ok) {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ error: `request not authenticated: ${result.reason}`, reason: result.reason }));
+        return;
+      }
+      res.end(JSON.stringify(req.url === '/health' ? { status: 'ok' } : { items: [] }));
+    });
+  });
+  return server;
+}
+
+describe('request signing against a stub gateway', () => {
+  let keypair: KeyPair;
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    keypair = await generateKeyPair();
+    server = startStubGateway(new Map([[AGENT, keypair.publicKey]]));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function signedClient(): GatewayClient {
+    const client = new GatewayClient(baseUrl, { maxRetries: 0 });
+    const keyManager = new KeyManager({ gateway_url: baseUrl, private_key: keypair.privateKeyBase64 });
+    client.setRequestSigner(createRequestSigner(keyManager, () => AGENT));
+    return client;
+  }
+
+  async function rawRequest(path: string, headers: Record<string, string>, body?: string) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+    });
+    return ((await response.json()) as { reason?: string }).reason ?? 'ok';
+  }
+
+  it('should accept signed requests and reject unsigned ones', async () => {
+    expect(await signedClient().listProjects(AGENT)).toEqual({ items: [] });
+
+    const error = await new GatewayClient(baseUrl, { maxRetries: 0 }).listProjects(AGENT).catch((e) => e);
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(error.body).toMatchObject({ reason: 'unsigned' });
+  });
+
+  it('should tell tampered, replayed and stale requests apart', async () => {
+    const path = `/api/v1/projects?agent_uuid=${AGENT}`;
+    const body = JSON.stringify({ name: 'p' });
+    const sign = (project?: string, now?: number) =>
+      signRequest({ method: 'POST', path, body, project }, AGENT, keypair.privateKey, now);
+
+    expect(await rawRequest(path, await sign(), JSON.stringify({ name: 'other' }))).toBe('body_mismatch');
+    expect(await rawRequest('/api/v1/projects', await sign(), body)).toBe('bad_signature');
+    expect(await rawRequest(path, { ...(await sign('p1')), 'X-Wisdom-Project': 'p2' }, body)).toBe('bad_signature');
+    expect(await rawRequest(path, await sign(undefined, Date.now() - 10 * 60 * 1000), body)).toBe('clock_skew');
+
+    const headers = await sign();
+    expect(await rawRequest(path, headers, body)).toBe('ok');
+    expect(await rawRequest(path, headers, body)).toBe('replayed');
+
+    const stranger = await generateKeyPair();
+    const forged = await signRequest({ method: 'POST', path, body }, AGENT, stranger.privateKey);
+    expect(await rawRequest(path, forged, body)).toBe('bad_signature');
+  });
+
+  it('should leave requests unsigned without an agent identity', async () => {
+    const signer = createRequestSigner(new KeyManager({ gateway_url: baseUrl }), () => AGENT);
+    expect(await signer({ method: 'GET', path: '/health' })).toEqual({});
+  });
+});
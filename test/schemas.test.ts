@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { GatewayClient } from '../src/gateway/client.js';
+import { InvalidResponseError } from '../src/gateway/errors.js';
+import { LENIENT_SCHEMAS, STRICT_SCHEMAS } from '../src/gateway/schemas.js';
+
+const creator = { server_port: 'hub:443', domain: 'AGENT', entity: 'a1' };
+const fragment = {
+  uuid: 'f1',
+  content: 'Go maps are not safe for concurrent use',
+  tags: null,
+  transform: { server_port: '', domain: 'TRANSFORMATION', entity: 't1' },
+  creator,
+  version: 1,
+  when: '2026-01-01T00:00:00Z',
+  signature: 'sig',
+  evidence_type: 'empirical',
+  hub_region: 'eu', // Unknown fields are kept
+};
+
+function respond(body: unknown) {
+  vi.stubGlobal('fetch', async () => new Response(body === undefined ? '' : JSON.stringify(body), { status: 200 }));
+}
+
+describe('gateway response schemas', () => {
+  it('should normalize null lists and keep unknown fields', () => {
+    const parsed = STRICT_SCHEMAS.fragment.parse(fragment);
+    expect(parsed.tags).toEqual([]);
+    expect(parsed).toMatchObject({ hub_region: 'eu' });
+
+    expect(STRICT_SCHEMAS.fragments.parse(null)).toEqual({ items: [] });
+    expect(STRICT_SCHEMAS.trustVotes.parse(null)).toEqual([]);
+    expect(STRICT_SCHEMAS.relations.parse([])).toEqual({ items: [] });
+  });
+
+  it('should reject drift in strict mode and fall back in lenient mode', () => {
+    const drifted = { ...fragment, creator: undefined, evidence_type: 'anecdotal', version: '2' };
+    expect(STRICT_SCHEMAS.fragment.safeParse(drifted).success).toBe(false);
+
+    const lenient = LENIENT_SCHEMAS.fragment.parse(drifted);
+    expect(lenient.creator).toEqual({ server_port: '', domain: 'AGENT', entity: '' });
+    expect(lenient.evidence_type).toBe('unknown');
+    expect(lenient.version).toBe(0);
+
+    expect(LENIENT_SCHEMAS.fragment.safeParse({ content: 'no uuid' }).success).toBe(false);
+  });
+
+  it('should reject unknown enum values without a fallback in lenient mode', () => {
+    const relation = {
+      uuid: 'r1',
+      from: creator,
+      to: creator,
+      by: creator,
+      type: 'REFUTES',
+      creator,
+      version: 1,
+      when: '2026-01-01T00:00:00Z',
+      signature: 'sig',
+    };
+    expect(LENIENT_SCHEMAS.relation.safeParse(relation).success).toBe(false);
+    expect(LENIENT_SCHEMAS.relation.parse({ ...relation, type: 'SUPPORTS' }).type).toBe('SUPPORTS');
+  });
+});
+
+describe('GatewayClient response validation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should raise InvalidResponseError for malformed entities', async () => {
+    const client = new GatewayClient('http://gw', { maxRetries: 0 });
+
+    respond({ ...fragment, creator: null });
+    const error = await client.getFragment('f1').catch((e) => e);
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error.message).toMatch(/GET \/api\/v1\/fragments\/f1 .*creator/);
+
+    respond(null);
+    await expect(client.getFragment('f1')).rejects.toThrow(InvalidResponseError);
+    respond(undefined);
+    expect(await client.getVotesForTarget('f1')).toEqual([]);
+  });
+
+  it('should accept drifted responses in lenient mode and record the drift', async () => {
+    const client = new GatewayClient('http://gw', { maxRetries: 0, validation: 'lenient' });
+
+    respond({ ...fragment, creator: null });
+    expect((await client.getFragment('f1')).creator.entity).toBe('');
+    expect(client.getSchemaDrift()).toEqual([expect.stringMatching(/^GET \/api\/v1\/fragments\/f1: creator/)]);
+
+    respond({ content: 'no uuid' });
+    await expect(client.getFragment('f2')).rejects.toThrow(InvalidResponseError);
+  });
+});
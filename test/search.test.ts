@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Bm25Index, tokenize } from '../src/search/bm25.js';
+import { FragmentIndex } from '../src/search/fragment-index.js';
+import { StateManager } from '../src/state/persistent.js';
+import { Outbox } from '../src/state/outbox.js';
+import { createStateTools } from '../src/tools/state.js';
+import { createTransformTools } from '../src/tools/transforms.js';
+import { generateKeyPair } from '../src/crypto/keys.js';
+import { countTokens } from '../src/tokenizer/counter.js';
+import { AddressCache, type ServerContext } from '../src/server.js';
+import type { CreateFragmentRequest, Fragment } from '../src/gateway/types.js';
+
+function fragment(uuid: string, content: string): Fragment {
+  const addr = { server_port: '', domain: 'AGENT' as const, entity: 'agent' };
+  return {
+    uuid,
+    content,
+    tags: [],
+    transform: addr,
+    creator: addr,
+    version: 1,
+    when: '',
+    signature: '',
+    confidence: 0.8,
+    evidence_type: 'unknown',
+  };
+}
+
+describe('tokenize', () => {
+  it('should drop stopwords and normalize inflections', () => {
+    expect(tokenize('The caches were Caching keys')).toEqual(['cach', 'cach', 'key']);
+  });
+});
+
+describe('Bm25Index', () => {
+  it('should rank documents with rarer matching terms higher', () => {
+    const index = new Bm25Index();
+    index.add('a', 'retry the request with exponential backoff');
+    index.add('b', 'the request body is signed');
+    index.add('c', 'unrelated note about colours');
+
+    const results = index.search('backoff for failed requests');
+    expect(results.map((r) => r.id)).toEqual(['a', 'b']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('should forget removed documents', () => {
+    const index = new Bm25Index();
+    index.add('a', 'circuit breaker');
+    index.remove('a');
+    expect(index.search('circuit')).toEqual([]);
+    expect(index.size()).toBe(0);
+  });
+});
+
+describe('FragmentIndex', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'wisdom-index-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should persist fragments and rebuild the index on load', () => {
+    const index = new FragmentIndex(root);
+    index.addFragments([fragment('f1', 'Gateway pagination uses next_cursor')], 'p1');
+    index.addFragments([fragment('f2', 'Ed25519 signatures over canonical JSON')]);
+
+    const reloaded = new FragmentIndex(root);
+    expect(reloaded.size()).toBe(2);
+    expect(reloaded.search('pagination cursor')[0].fragment.uuid).toBe('f1');
+  });
+
+  it('should restrict results to fragments seen in a project', () => {
+    const index = new FragmentIndex(null);
+    index.addFragments([fragment('f1', 'shared signing notes')], 'p1');
+    index.addFragments([fragment('f2', 'other signing notes')], 'p2');
+
+    expect(index.search('signing', 10, 'p1').map((h) => h.fragment.uuid)).toEqual(['f1']);
+    expect(index.search('signing', 10)).toHaveLength(2);
+  });
+});
+
+describe('wisdom_clear_state', () => {
+  it('should clear the search index along with the session state', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'wisdom-clear-'));
+    try {
+      const searchIndex = new FragmentIndex(root);
+      searchIndex.addFragments([fragment('f1', 'Gateway pagination uses next_cursor')]);
+      const context = { state: new StateManager(root), searchIndex } as unknown as ServerContext;
+      const clearState = createStateTools().find((t) => t.tool.name === 'wisdom_clear_state')!.handler;
+
+      await clearState({ scope: 'tag_cache' }, context);
+      expect(searchIndex.size()).toBe(1);
+
+      await clearState({}, context);
+      expect(searchIndex.size()).toBe(0);
+      expect(new FragmentIndex(root).size()).toBe(0);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject an unknown scope without clearing anything', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'wisdom-clear-'));
+    try {
+      const searchIndex = new FragmentIndex(root);
+      searchIndex.addFragments([fragment('f1', 'Gateway pagination uses next_cursor')]);
+      const context = { state: new StateManager(root), searchIndex } as unknown as ServerContext;
+      const clearState = createStateTools().find((t) => t.tool.name === 'wisdom_clear_state')!.handler;
+
+      await expect(clearState({ scope: 'tag-cache' }, context)).rejects.toThrow('Invalid scope');
+      expect(searchIndex.size()).toBe(1);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('wisdom_store_transformed_fragments', () => {
+  it('should index the stored fragments and count their tokens with the transform\'s preset', async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'wisdom-store-'));
+    try {
+      const { privateKey } = await generateKeyPair();
+      const searchIndex = new FragmentIndex(root);
+      const context = {
+        config: { config: { gateway_url: 'http://localhost:8080', agent_uuid: 'agent-1' } },
+        keyManager: { getPrivateKey: () => privateKey },
+        addressCache: new AddressCache(),
+        state: new StateManager(root),
+        outbox: new Outbox(root),
+        searchIndex,
+        gateway: {
+          createFragment: async (f: CreateFragmentRequest) => ({ ...f, version: 1 }),
+        },
+        transformEngine: {
+          validateEncodeResponse: () => undefined,
+          getTransform: async (uuid: string) => ({ uuid, transform_to: 'application/x-sexp', additional_data: '' }),
+        },
+      } as unknown as ServerContext;
+      const store = createTransformTools().find((t) => t.tool.name === 'wisdom_store_transformed_fragments')!.handler;
+
+      const content = 'retry idempotent requests with exponential backoff';
+      const output = (await store(
+        { fragments: [{ content }], source_transform: 't1', validate_encoding: false, project: 'p1' },
+        context
+      )) as { fragments: Array<{ uuid: string; encoded_tokens: number }> };
+
+      const [stored] = output.fragments;
+      expect(searchIndex.search('exponential backoff', 10, 'p1').map((h) => h.fragment.uuid)).toEqual([stored.uuid]);
+      expect(stored.encoded_tokens).toBe(countTokens(content, 't1-symbolic'));
+      expect(stored.encoded_tokens).not.toBe(countTokens(content));
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
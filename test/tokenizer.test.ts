@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { BpeEstimator, CharRatioCounter } from '../src/tokenizer/bpe.js';
+import {
+  contextPressure,
+  countTokens,
+  detectPresetFormat,
+  getPresetCalibration,
+  setPresetCalibration,
+  setTokenCounter,
+} from '../src/tokenizer/counter.js';
+
+describe('BpeEstimator', () => {
+  const estimator = new BpeEstimator();
+
+  it('should count about one token per common English word', () => {
+    const text = 'The gateway returns an empty body for missing relations.';
+    const words = text.split(/\s+/).length;
+    const tokens = estimator.count(text);
+    expect(tokens).toBeGreaterThanOrEqual(words);
+    expect(tokens).toBeLessThanOrEqual(words + 3);
+  });
+
+  it('should count symbol-dense encodings higher than chars/4', () => {
+    const sexp = '(pro surf01 (goal "3D surface plot") (steps (create "Q3DSurface") (add "QSurface3DSeries")))';
+    expect(estimator.count(sexp)).toBeGreaterThan(Math.ceil(sexp.length / 4));
+  });
+
+  it('should count ideographic text per character', () => {
+    const text = '知識の断片を保存する';
+    expect(estimator.count(text)).toBeGreaterThanOrEqual(text.length);
+  });
+
+  it('should return 0 for empty text', () => {
+    expect(estimator.count('')).toBe(0);
+  });
+});
+
+describe('countTokens', () => {
+  afterEach(() => {
+    setTokenCounter(new BpeEstimator());
+    setPresetCalibration('t3-compact', undefined);
+  });
+
+  it('should detect preset formats', () => {
+    expect(detectPresetFormat('(def qtg01 (is-a "Qt Graphs" :module))')).toBe('t1-symbolic');
+    expect(detectPresetFormat('F{type:DEF dom:CHEM conf:HIGH E[1:"NADH"]}')).toBe('t3-compact');
+    expect(detectPresetFormat('f:CN-RU01 {T:OBS D:geo C:.85}\ntext: "..."')).toBe('t4-hybrid');
+    expect(detectPresetFormat('Plain sentence.')).toBe('baseline');
+  });
+
+  it('should detect t1-symbolic heads with a colon or a longer type code', () => {
+    expect(detectPresetFormat('(:def qtg01 (is-a "Qt Graphs" :module))')).toBe('t1-symbolic');
+    expect(detectPresetFormat('(proc deploy (step 1 "build"))')).toBe('t1-symbolic');
+    expect(detectPresetFormat('(:CONC c1 (because "tests pass"))')).toBe('t1-symbolic');
+    expect(detectPresetFormat('(see the docs) for details')).toBe('baseline');
+  });
+
+  it('should use the pluggable counter and preset calibration', () => {
+    setTokenCounter(new CharRatioCounter(4));
+    expect(countTokens('abcdefgh', 'baseline')).toBe(2);
+
+    setPresetCalibration('t3-compact', 1.5);
+    expect(getPresetCalibration('t3-compact')).toBe(1.5);
+    expect(countTokens('abcdefgh', 't3-compact')).toBe(3);
+  });
+
+  it('should reject invalid calibration', () => {
+    expect(() => setPresetCalibration('baseline', 0)).toThrow('Invalid calibration');
+  });
+});
+
+describe('contextPressure', () => {
+  it('should clamp to 0..1', () => {
+    expect(contextPressure(500, 1000)).toBe(0.5);
+    expect(contextPressure(5000, 1000)).toBe(1);
+    expect(contextPressure(10, 0)).toBe(1);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { setTrust, removeTrust, getTrust } from '../src/trust/store.js';
+import { createAgentTools } from '../src/tools/agents.js';
+import { AddressCache, type ServerContext } from '../src/server.js';
+import { generateKeyPair } from '../src/crypto/keys.js';
+import { ConflictError, GatewayError, NetworkError, NotFoundError } from '../src/gateway/errors.js';
+import type { Agent, CreateRelationRequest, CreateTrustVoteRequest, Relation, TrustVote } from '../src/gateway/types.js';
+
+const address = (entity: string) => ({ server_port: '', domain: 'AGENT' as const, entity });
+
+describe('trust store', () => {
+  it('should set, replace and remove entries by agent UUID', () => {
+    const one = setTrust(undefined, address('a'), 0.5);
+    const two = setTrust(one, address('b'), -1);
+    const replaced = setTrust(two, address('a'), 0.9);
+
+    expect(replaced).toEqual({ num_trusts: 2, trusts: [{ agent: address('a'), trust: 0.9 }, { agent: address('b'), trust: -1 }] });
+    expect(getTrust(replaced, 'a')).toBe(0.9);
+    expect(getTrust(one, 'a')).toBe(0.5);
+
+    const removed = removeTrust(replaced, 'a');
+    expect(removed).toEqual({ num_trusts: 1, trusts: [{ agent: address('b'), trust: -1 }] });
+    expect(getTrust(removed, 'a')).toBeUndefined();
+  });
+});
+
+describe('trust tools', () => {
+  const tool = (name: string) => createAgentTools().find((t) => t.tool.name === name)!.handler;
+
+  async function makeContext(updateError?: Error, trusts: Array<[string, number]> = []) {
+    const { privateKey, publicKeyBase64 } = await generateKeyPair();
+    const me: Agent = {
+      uuid: 'me',
+      public_key: publicKeyBase64,
+      version: 1,
+      trust: { num_trusts: trusts.length, trusts: trusts.map(([a, t]) => ({ agent: address(a), trust: t })) },
+      primary_hub: '',
+      signature: '',
+    };
+    const calls = { getAgent: 0, relations: [] as CreateRelationRequest[], votes: [] as CreateTrustVoteRequest[] };
+    const trustRelation = (uuid: string, from: string, to: string, trust: number, when: string) =>
+      ({ uuid, from: address(from), to: address(to), creator: address(from), type: 'TRUST', content: JSON.stringify({ trust }), version: 1, when, signature: 'signed' }) as Relation;
+    const existing: Relation[] = [
+      trustRelation('rel-mine', 'me', 'bob', 0.4, '2026-01-02'),
+      trustRelation('rel-old', 'me', 'bob', 0.9, '2026-01-01'),
+      trustRelation('rel-retracted', 'me', 'carol', 0.5, '2026-01-01'),
+      trustRelation('rel-dave', 'me', 'dave', -0.5, '2026-01-01'),
+      { ...trustRelation('rel-forged', 'me', 'erin', 1, '2026-01-01'), signature: 'forged' },
+      trustRelation('rel-other', 'eve', 'bob', 1, '2026-01-01'),
+    ];
+    const votes: Record<string, TrustVote[]> = {
+      'rel-old': [{ uuid: 'v1', voter: 'me', target: 'rel-old', vote_type: 'retract', signature: 'signed' } as TrustVote],
+      'rel-retracted': [{ uuid: 'v2', voter: 'me', target: 'rel-retracted', vote_type: 'retract', signature: 'signed' } as TrustVote],
+    };
+
+    const context = {
+      config: { config: { gateway_url: 'http://gw', agent_uuid: 'me' } },
+      keyManager: { getPrivateKey: () => privateKey, getPublicKeyBase64: async () => publicKeyBase64 },
+      addressCache: new AddressCache(),
+      gateway: {
+        getAgent: async (uuid: string) => {
+          calls.getAgent++;
+          return uuid === 'me' ? me : { uuid, public_key: '', signature: '' };
+        },
+        updateAgent: async (_uuid: string, agent: Agent) => {
+          if (updateError) throw updateError;
+          return agent;
+        },
+        createRelation: async (relation: CreateRelationRequest) => {
+          calls.relations.push(relation);
+          return relation;
+        },
+        getRelationsForEntity: async (uuid: string) => ({ items: existing.filter((r) => r.from.entity === uuid) }),
+        getVotesForTarget: async (uuid: string) => votes[uuid] || [],
+        createTrustVote: async (vote: CreateTrustVoteRequest) => {
+          calls.votes.push(vote);
+          return vote;
+        },
+      },
+      verifier: {
+        verifyRelation: async (r: Relation) => r.signature === 'signed',
+        annotateTrustVotes: async (list: TrustVote[]) => list.map((v) => ({ ...v, verified: v.signature === 'signed' })),
+      },
+    } as unknown as ServerContext;
+    return { context, calls };
+  }
+
+  const details = { method: 'PUT', path: '/api/v1/agents/me' };
+
+  it('should publish an agent update', async () => {
+    const { context, calls } = await makeContext();
+    const result = await tool('wisdom_trust_agent')({ target_agent: 'bob', trust_level: 0.7 }, context);
+    expect(result).toMatchObject({ method: 'agent_update', version: 2 });
+    expect(calls.relations).toHaveLength(0);
+  });
+
+  it('should fall back to a TRUST relation only when updates are unsupported', async () => {
+    const unsupported = await makeContext(new GatewayError('Method Not Allowed', 'bad_request', { ...details, status: 405 }));
+    expect(await tool('wisdom_trust_agent')({ target_agent: 'bob', trust_level: 0.7 }, unsupported.context))
+      .toMatchObject({ method: 'trust_relation' });
+    expect(JSON.parse(unsupported.calls.relations[0].content ?? '')).toEqual({ trust: 0.7 });
+    // The new relation supersedes the active one; retracted ones are left alone
+    expect(unsupported.calls.votes).toEqual([expect.objectContaining({ target: 'rel-mine', vote_type: 'retract' })]);
+
+    const missing = await makeContext(new NotFoundError('no route', { ...details, status: 404 }));
+    expect(await tool('wisdom_trust_agent')({ target_agent: 'bob', trust_level: 0.7 }, missing.context))
+      .toMatchObject({ method: 'trust_relation' });
+
+    for (const error of [
+      new NetworkError('down', details, 'connection'),
+      new ConflictError('Conflict', { ...details, status: 409 }),
+    ]) {
+      const { context, calls } = await makeContext(error);
+      await expect(tool('wisdom_trust_agent')({ target_agent: 'bob', trust_level: 0.7 }, context)).rejects.toBe(error);
+      expect(calls.relations).toHaveLength(0);
+    }
+  });
+
+  it('should revoke own TRUST relations when removing trust without agent updates', async () => {
+    const { context, calls } = await makeContext(
+      new GatewayError('Method Not Allowed', 'bad_request', { ...details, status: 405 })
+    );
+    const result = await tool('wisdom_untrust_agent')({ target_agent: 'bob' }, context);
+
+    expect(result).toMatchObject({
+      removed: true,
+      method: 'trust_relation_revoked',
+      revoked_relations: ['rel-mine'],
+      previous_trust: 0.4,
+    });
+    expect(calls.votes).toEqual([expect.objectContaining({ target: 'rel-mine', vote_type: 'retract', voter: 'me' })]);
+    expect(calls.relations).toHaveLength(0);
+    expect(calls.getAgent).toBe(1);
+
+    const untouched = await makeContext();
+    expect(await tool('wisdom_untrust_agent')({ target_agent: 'carol' }, untouched.context)).toMatchObject({ removed: false });
+    expect(untouched.calls.votes).toHaveLength(0);
+  });
+
+  it('should list trust kept in TRUST relations', async () => {
+    const { context } = await makeContext(undefined, [['dave', 0.2]]);
+    const result = (await tool('wisdom_list_my_trusts')({ include_details: false }, context)) as {
+      trusted: Array<{ agent: string; trust: number }>;
+      distrusted: unknown[];
+    };
+
+    // The signed store wins for dave; retracted and forged relations are ignored
+    expect(result.trusted.map((t) => [t.agent, t.trust])).toEqual([['bob', 0.4], ['dave', 0.2]]);
+    expect(result.distrusted).toEqual([]);
+  });
+});
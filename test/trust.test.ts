@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { TrustEngine, combinePathTrust } from '../src/trust/engine.js';
+import type { GatewayClient } from '../src/gateway/client.js';
+import type { SignatureVerifier } from '../src/crypto/verification.js';
+import type { Agent, Fragment, TrustVote } from '../src/gateway/types.js';
+
+function agent(uuid: string, trusts: Array<[string, number]>): Agent {
+  return {
+    uuid,
+    public_key: '',
+    version: 1,
+    description: uuid,
+    trust: {
+      num_trusts: trusts.length,
+      trusts: trusts.map(([target, trust]) => ({
+        agent: { server_port: '', domain: 'AGENT', entity: target },
+        trust,
+      })),
+    },
+    primary_hub: '',
+    signature: 'signed',
+    profile: {
+      specializations: {},
+      known_biases: [],
+      avg_confidence: 0,
+      fragment_count: 0,
+      historical_accuracy: 0,
+    },
+  };
+}
+
+function fakeGateway(agents: Agent[]): GatewayClient {
+  const byUuid = new Map(agents.map((a) => [a.uuid, a]));
+  return {
+    getAgent: async (uuid: string) => {
+      const found = byUuid.get(uuid);
+      if (!found) throw new Error('not found');
+      return found;
+    },
+  } as unknown as GatewayClient;
+}
+
+// Agents without a public key cannot be checked; 'forged' marks a bad signature
+const verifier = {
+  verifyAgent: async (a: Agent) => (a.signature === 'forged' ? false : a.public_key ? true : 'unknown_key'),
+  annotateTrustVotes: async (votes: TrustVote[]) =>
+    votes.map((v) => ({ ...v, verified: v.signature === 'signed' })),
+} as unknown as SignatureVerifier;
+
+const graph = [
+  agent('me', [['alice', 0.8], ['mallory', -1]]),
+  agent('alice', [['bob', 0.5], ['carol', -0.6]]),
+  agent('bob', [['carol', 1]]),
+  agent('mallory', [['eve', 1]]),
+  agent('carol', []),
+  agent('eve', []),
+];
+
+describe('combinePathTrust', () => {
+  it('should combine positive paths without exceeding 1', () => {
+    expect(combinePathTrust([0.5, 0.5])).toBeCloseTo(0.75);
+    expect(combinePathTrust([1, 1])).toBe(1);
+  });
+
+  it('should subtract negative evidence', () => {
+    expect(combinePathTrust([0.5, -0.5])).toBeCloseTo(0);
+  });
+});
+
+describe('TrustEngine', () => {
+  it('should prefer direct trust', async () => {
+    const engine = new TrustEngine(fakeGateway(graph), verifier);
+    const result = await engine.calculateAgentTrust('me', 'alice');
+
+    expect(result.effective_trust).toBe(0.8);
+    expect(result.direct_trust).toBe(0.8);
+  });
+
+  it('should decay trust over multiple hops', async () => {
+    const engine = new TrustEngine(fakeGateway(graph), verifier, { decay: 0.5 });
+    const result = await engine.calculateAgentTrust('me', 'bob');
+
+    // 0.8 * 0.5 * decay^1
+    expect(result.effective_trust).toBeCloseTo(0.2);
+    expect(result.paths[0].hops.map((h) => h.to)).toEqual(['alice', 'bob']);
+  });
+
+  it('should not follow opinions of distrusted agents', async () => {
+    const engine = new TrustEngine(fakeGateway(graph), verifier);
+    const result = await engine.calculateAgentTrust('me', 'eve');
+
+    expect(result.effective_trust).toBe(0);
+    expect(result.paths).toHaveLength(0);
+  });
+
+  it('should propagate distrust only when enabled', async () => {
+    const withDistrust = await new TrustEngine(fakeGateway(graph), verifier, { decay: 1 })
+      .calculateAgentTrust('me', 'carol');
+    const withoutDistrust = await new TrustEngine(fakeGateway(graph), verifier, { decay: 1, propagateDistrust: false })
+      .calculateAgentTrust('me', 'carol');
+
+    expect(withDistrust.effective_trust).toBeLessThan(withoutDistrust.effective_trust);
+    expect(withoutDistrust.effective_trust).toBeCloseTo(0.4);
+  });
+
+  it('should respect max depth', async () => {
+    const engine = new TrustEngine(fakeGateway(graph), verifier, { maxDepth: 1 });
+    const result = await engine.calculateAgentTrust('me', 'bob');
+
+    expect(result.effective_trust).toBe(0);
+  });
+
+  it('should keep defaults for options passed as undefined', async () => {
+    const engine = new TrustEngine(fakeGateway(graph), verifier, { maxDepth: undefined, decay: undefined });
+    const result = await engine.calculateAgentTrust('me', 'bob');
+
+    expect(result.effective_trust).toBeGreaterThan(0);
+  });
+
+  it('should weight fragment trust by creator and votes', async () => {
+    const engine = new TrustEngine(fakeGateway(graph), verifier);
+    const fragment = {
+      uuid: 'frag',
+      creator: { server_port: '', domain: 'AGENT', entity: 'bob' },
+    } as Fragment;
+    const votes: TrustVote[] = [
+      { uuid: 'v1', voter: 'alice', target: 'frag', vote_type: 'contest', comment: '', created_at: '', signature: 'signed' },
+      { uuid: 'v2', voter: 'mallory', target: 'frag', vote_type: 'verify', comment: '', created_at: '', signature: 'signed' },
+    ];
+
+    const withoutVotes = await engine.calculateFragmentTrust('me', fragment, []);
+    const withVotes = await engine.calculateFragmentTrust('me', fragment, votes);
+
+    expect(withVotes.effective_trust).toBeLessThan(withoutVotes.effective_trust);
+    expect(withVotes.votes.find((v) => v.voter === 'mallory')?.contribution).toBe(0);
+  });
+
+  it('should ignore trust stores of agent records that fail their signature', async () => {
+    const tampered = graph.map((a) => (a.uuid === 'alice' ? { ...a, signature: 'forged' } : a));
+    const result = await new TrustEngine(fakeGateway(tampered), verifier).calculateAgentTrust('me', 'bob');
+
+    expect(result.effective_trust).toBe(0);
+    expect(result.paths).toHaveLength(0);
+  });
+
+  it('should ignore unverifiable agent records when dropping unverified entities', async () => {
+    const kept = await new TrustEngine(fakeGateway(graph), verifier).calculateAgentTrust('me', 'alice');
+    const dropped = await new TrustEngine(fakeGateway(graph), verifier, { dropUnverified: true })
+      .calculateAgentTrust('me', 'alice');
+
+    expect(kept.effective_trust).toBe(0.8);
+    expect(dropped.effective_trust).toBe(0);
+  });
+
+  it('should ignore votes without a valid signature', async () => {
+    const engine = new TrustEngine(fakeGateway(graph), verifier);
+    const fragment = {
+      uuid: 'frag',
+      creator: { server_port: '', domain: 'AGENT', entity: 'bob' },
+    } as Fragment;
+    const votes: TrustVote[] = [
+      { uuid: 'v1', voter: 'alice', target: 'frag', vote_type: 'contest', comment: '', created_at: '', signature: 'forged' },
+      { uuid: 'v2', voter: 'bob', target: 'frag', vote_type: 'retract', comment: '', created_at: '', signature: 'forged' },
+    ];
+
+    const result = await engine.calculateFragmentTrust('me', fragment, votes);
+    expect(result.votes).toEqual([]);
+    expect(result.unverified_votes).toBe(2);
+    expect(result.retracted).toBe(false);
+  });
+});
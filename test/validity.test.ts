@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import { createValidityTools } from '../src/tools/validity.js';
+import { NotFoundError } from '../src/gateway/errors.js';
+import type { ServerContext } from '../src/server.js';
+import type { Agent, Fragment, Relation, RelationType, TrustVote } from '../src/gateway/types.js';
+
+const notFound = (path: string) => new NotFoundError('not found', { method: 'GET', path, status: 404 });
+
+const address = (domain: 'AGENT' | 'FRAGMENT' | 'TRANSFORM', entity: string) => ({ server_port: '', domain, entity });
+
+function fragment(uuid: string, creator = 'alice'): Fragment {
+  return {
+    uuid,
+    content: `Content of ${uuid}`,
+    tags: [],
+    transform: address('TRANSFORM', 'plain'),
+    creator: address('AGENT', creator),
+    version: 1,
+    when: '',
+    signature: 'signed',
+    confidence: 1.0,
+    evidence_type: 'unknown',
+  };
+}
+
+function relation(
+  from: string,
+  to: string,
+  type: RelationType,
+  creator: string,
+  options: { by?: string; signature?: string } = {}
+): Relation {
+  return {
+    uuid: `${from}-${type}-${to}`,
+    from: address('FRAGMENT', from),
+    to: address('FRAGMENT', to),
+    by: address('AGENT', options.by ?? creator),
+    type,
+    creator: address('AGENT', creator),
+    version: 1,
+    when: '',
+    signature: options.signature ?? 'signed',
+    confidence: 1.0,
+  } as Relation;
+}
+
+function vote(target: string, voter: string, voteType: TrustVote['vote_type'], signature = 'signed'): TrustVote {
+  return { uuid: `${voter}-${target}`, voter, target, vote_type: voteType, comment: '', created_at: '', signature };
+}
+
+interface Fixture {
+  fragments: Fragment[];
+  relations: Relation[];
+  votes?: TrustVote[];
+  agents?: Agent[];
+  unknownKeys?: string[];
+  dropUnverified?: boolean;
+  endless?: boolean; // Every relation page points at another one
+}
+
+function makeContext(fixture: Fixture): ServerContext {
+  const unknownKeys = new Set(fixture.unknownKeys || []);
+  let page = 0;
+  const verifyRelation = (r: Relation) => (unknownKeys.has(r.creator.entity) ? 'unknown_key' : r.signature === 'signed');
+  return {
+    config: { config: { agent_uuid: 'me', drop_unverified: fixture.dropUnverified } },
+    gateway: {
+      getFragment: async (uuid: string) => {
+        const found = fixture.fragments.find((f) => f.uuid === uuid);
+        if (!found) throw notFound(`/fragments/${uuid}`);
+        return found;
+      },
+      getRelationsForEntity: async (uuid: string) => ({
+        items: fixture.relations.filter((r) => r.from.entity === uuid || r.to.entity === uuid),
+        next_cursor: fixture.endless ? `page-${page++}` : undefined,
+      }),
+      getAgent: async (uuid: string) => {
+        const found = fixture.agents?.find((a) => a.uuid === uuid);
+        if (!found) throw notFound(`/agents/${uuid}`);
+        return found;
+      },
+      getVotesForTarget: async (uuid: string) => (fixture.votes || []).filter((v) => v.target === uuid),
+    },
+    verifier: {
+      verifyFragment: async () => true,
+      verifyAgent: async (a: Agent) => a.signature !== 'forged',
+      verifyRelation: async (r: Relation) => verifyRelation(r),
+      annotateRelations: async (list: Relation[]) => list.map((r) => ({ ...r, verified: verifyRelation(r) })),
+      annotateTrustVotes: async (list: TrustVote[]) =>
+        list.map((v) => ({ ...v, verified: v.signature === 'signed' })),
+    },
+  } as unknown as ServerContext;
+}
+
+// "me" fully trusts alice and knows nothing about mallory
+const me = {
+  uuid: 'me',
+  trust: { trusts: [{ agent: address('AGENT', 'alice'), trust: 1.0 }] },
+} as unknown as Agent;
+
+const tool = (name: string) => {
+  const found = createValidityTools().find((t) => t.tool.name === name);
+  if (!found) throw new Error(`missing tool ${name}`);
+  return found.handler;
+};
+
+interface EvidenceOutput {
+  fragment_id: string;
+  relation_creator: string;
+  creator_trust: number;
+  weight: number;
+}
+
+describe('wisdom_get_evidence_balance', () => {
+  const getEvidenceBalance = tool('wisdom_get_evidence_balance');
+
+  it('should weight evidence by the trust of the agent that signed the relation', async () => {
+    const context = makeContext({
+      fragments: [fragment('thesis'), fragment('from-alice'), fragment('claims-alice')],
+      relations: [
+        relation('from-alice', 'thesis', 'SUPPORTS', 'alice'),
+        // Claims to be asserted by alice but was signed by mallory
+        relation('claims-alice', 'thesis', 'SUPPORTS', 'mallory', { by: 'alice' }),
+      ],
+      agents: [me],
+    });
+    const output = (await getEvidenceBalance({ fragment_id: 'thesis' }, context)) as {
+      supporting: EvidenceOutput[];
+    };
+
+    const byFragment = new Map(output.supporting.map((e) => [e.fragment_id, e]));
+    expect(byFragment.get('from-alice')).toMatchObject({ relation_creator: 'alice', creator_trust: 1, weight: 1 });
+    expect(byFragment.get('claims-alice')).toMatchObject({ relation_creator: 'mallory', creator_trust: 0, weight: 0.5 });
+  });
+
+  it('should drop forged relations and count unknown signers as unknown agents', async () => {
+    const fixture: Fixture = {
+      fragments: [fragment('thesis'), fragment('forged'), fragment('unknown')],
+      relations: [
+        relation('forged', 'thesis', 'CONTRADICTS', 'mallory', { signature: 'forged' }),
+        relation('unknown', 'thesis', 'CONTRADICTS', 'alice'),
+      ],
+      agents: [me],
+      unknownKeys: ['alice'],
+    };
+
+    const output = (await getEvidenceBalance({ fragment_id: 'thesis' }, makeContext(fixture))) as {
+      contradicting: EvidenceOutput[];
+    };
+    expect(output.contradicting).toEqual([
+      expect.objectContaining({ fragment_id: 'unknown', relation_creator: 'unknown', creator_trust: 0, weight: 0.5 }),
+    ]);
+
+    const dropped = (await getEvidenceBalance(
+      { fragment_id: 'thesis' },
+      makeContext({ ...fixture, dropUnverified: true })
+    )) as { contradicting: EvidenceOutput[] };
+    expect(dropped.contradicting).toEqual([]);
+  });
+
+  it('should report when the relations were truncated', async () => {
+    const complete = makeContext({ fragments: [fragment('thesis')], relations: [] });
+    expect(await getEvidenceBalance({ fragment_id: 'thesis' }, complete)).toMatchObject({ truncated: false });
+
+    const endless = makeContext({ fragments: [fragment('thesis')], relations: [], endless: true });
+    expect(await getEvidenceBalance({ fragment_id: 'thesis' }, endless)).toMatchObject({ truncated: true });
+  });
+});
+
+describe('wisdom_check_derivation_chain', () => {
+  const checkDerivationChain = tool('wisdom_check_derivation_chain');
+
+  it('should only follow DERIVED_FROM relations signed by the derived fragment\'s creator', async () => {
+    const context = makeContext({
+      fragments: [fragment('claim'), fragment('premise'), fragment('grafted', 'mallory'), fragment('forged')],
+      relations: [
+        relation('claim', 'premise', 'DERIVED_FROM', 'alice'),
+        relation('claim', 'grafted', 'DERIVED_FROM', 'mallory'),
+        relation('claim', 'forged', 'DERIVED_FROM', 'alice', { signature: 'forged' }),
+      ],
+    });
+    const output = (await checkDerivationChain({ fragment_id: 'claim' }, context)) as {
+      derivation_chain: Array<{ fragment_id: string; derives_from: string[] }>;
+    };
+
+    expect(output.derivation_chain.map((node) => node.fragment_id)).toEqual(['claim', 'premise']);
+    expect(output.derivation_chain[0].derives_from).toEqual(['premise']);
+  });
+
+  it('should ignore votes without a valid signature', async () => {
+    const fixture: Fixture = {
+      fragments: [fragment('claim'), fragment('premise')],
+      relations: [relation('claim', 'premise', 'DERIVED_FROM', 'alice')],
+      agents: [me],
+      votes: [vote('premise', 'alice', 'retract', 'forged'), vote('premise', 'alice', 'contest', 'forged')],
+    };
+    const forged = await checkDerivationChain({ fragment_id: 'claim' }, makeContext(fixture));
+    expect(forged).toMatchObject({ validity: 'valid', issues: [] });
+
+    const signed = await checkDerivationChain(
+      { fragment_id: 'claim' },
+      makeContext({ ...fixture, votes: [vote('premise', 'alice', 'retract')] })
+    );
+    expect(signed).toMatchObject({
+      validity: 'contested',
+      issues: [expect.objectContaining({ fragment_id: 'premise', issue_type: 'contested_premise' })],
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { generateKeyPair, KeyManager } from '../src/crypto/keys.js';
+import {
+  cachedPlaintextKeyWarnings,
+  migratePlaintextKey,
+  openKeyVault,
+  plaintextKeyWarnings,
+  readKeyVault,
+  sealPrivateKey,
+  writeKeyVault,
+} from '../src/crypto/vault.js';
+import { createUtilityTools } from '../src/tools/utility.js';
+import type { ServerContext } from '../src/server.js';
+
+// Cheap scrypt parameters keep the tests fast
+const FAST = { N: 1024, r: 8, p: 1 };
+
+describe('key vault', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wisdom-vault-'));
+    delete process.env.WISDOM_KEY_PASSPHRASE;
+  });
+
+  afterEach(() => {
+    delete process.env.WISDOM_KEY_PASSPHRASE;
+    delete process.env.WISDOM_PRIVATE_KEY;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should encrypt and decrypt a private key', async () => {
+    const keypair = await generateKeyPair();
+    const vault = sealPrivateKey(keypair.privateKey, keypair.publicKeyBase64, 'correct horse', FAST);
+
+    expect(JSON.stringify(vault)).not.toContain(keypair.privateKeyBase64);
+    expect(openKeyVault(vault, 'correct horse')).toEqual(keypair.privateKey);
+    expect(() => openKeyVault(vault, 'wrong')).toThrow(/wrong passphrase/);
+    expect(() => openKeyVault({ ...vault, public_key: 'c3dhcHBlZA==' }, 'correct horse')).toThrow(/corrupted/);
+  });
+
+  it('should let KeyManager unlock the vault with a passphrase or key file', async () => {
+    const keypair = await generateKeyPair();
+    const vaultPath = path.join(dir, 'wisdom-key.json');
+    writeKeyVault(vaultPath, sealPrivateKey(keypair.privateKey, keypair.publicKeyBase64, 's3cret', FAST));
+    expect(fs.statSync(vaultPath).mode & 0o777).toBe(0o600);
+
+    const locked = new KeyManager({ gateway_url: 'http://gw' }, vaultPath);
+    expect(locked.hasPrivateKey()).toBe(false);
+    expect(locked.getVaultError()).toMatch(/locked/);
+    expect(() => locked.getPrivateKey()).toThrow(/WISDOM_KEY_PASSPHRASE/);
+
+    const keyFile = path.join(dir, 'passphrase');
+    fs.writeFileSync(keyFile, 's3cret\n');
+    const fromFile = new KeyManager({ gateway_url: 'http://gw', key_file: keyFile }, vaultPath);
+    expect(fromFile.getKeySource()).toBe('vault');
+    expect(await fromFile.getPublicKeyBase64()).toBe(keypair.publicKeyBase64);
+
+    process.env.WISDOM_KEY_PASSPHRASE = 'nope';
+    const wrong = new KeyManager({ gateway_url: 'http://gw' }, vaultPath);
+    expect(wrong.getVaultError()).toMatch(/wrong passphrase/);
+    delete process.env.WISDOM_KEY_PASSPHRASE;
+
+    // Unlocked keys are cached by vault contents, so a replaced vault is read again
+    const replacement = await generateKeyPair();
+    writeKeyVault(vaultPath, sealPrivateKey(replacement.privateKey, replacement.publicKeyBase64, 's3cret', FAST));
+    const reloaded = new KeyManager({ gateway_url: 'http://gw', key_file: keyFile }, vaultPath);
+    expect(await reloaded.getPublicKeyBase64()).toBe(replacement.publicKeyBase64);
+
+    // A plaintext key in config still wins
+    const plain = new KeyManager({ gateway_url: 'http://gw', private_key: keypair.privateKeyBase64 }, vaultPath);
+    expect(plain.getKeySource()).toBe('config');
+  });
+
+  it('should migrate a plaintext key out of config files', async () => {
+    const keypair = await generateKeyPair();
+    const other = await generateKeyPair();
+    const project = path.join(dir, 'project.json');
+    const global = path.join(dir, 'global.json');
+    fs.writeFileSync(project, JSON.stringify({ private_key: keypair.privateKeyBase64, agent_uuid: 'a1', extra: 1 }));
+    fs.writeFileSync(global, JSON.stringify({ private_key: other.privateKeyBase64 }));
+    const vaultPath = path.join(dir, 'vault', 'wisdom-key.json');
+
+    const migration = await migratePlaintextKey(keypair.privateKeyBase64, vaultPath, 'pw', [project, global], FAST);
+    expect(migration).toMatchObject({ public_key: keypair.publicKeyBase64, removed_from: [project], kept_different_key: [global] });
+    expect(JSON.parse(fs.readFileSync(project, 'utf-8'))).toEqual({ agent_uuid: 'a1', extra: 1 });
+    expect(openKeyVault(readKeyVault(vaultPath)!, 'pw')).toEqual(keypair.privateKey);
+
+    await expect(migratePlaintextKey(other.privateKeyBase64, vaultPath, 'pw', [], FAST)).rejects.toThrow(/different key/);
+  });
+
+  it('should warn about plaintext keys that git tracks or would pick up', () => {
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'ignore' });
+    git('init', '-q');
+    fs.mkdirSync(path.join(dir, '.wisdom'));
+    const config = path.join(dir, '.wisdom', 'config.json');
+    fs.writeFileSync(config, JSON.stringify({ private_key: 'a2V5' }));
+
+    expect(plaintextKeyWarnings([config, null])).toEqual([expect.stringMatching(/not git-ignored/)]);
+    git('add', '.wisdom/config.json');
+    expect(plaintextKeyWarnings([config])).toEqual([expect.stringMatching(/tracked by git/)]);
+
+    git('rm', '-q', '--cached', '.wisdom/config.json');
+    fs.writeFileSync(path.join(dir, '.gitignore'), '.wisdom/\n');
+    expect(plaintextKeyWarnings([config])).toEqual([]);
+  });
+
+  it('should cache plaintext key warnings until the config file changes', () => {
+    execFileSync('git', ['init', '-q'], { cwd: dir, stdio: 'ignore' });
+    const config = path.join(dir, 'config.json');
+    fs.writeFileSync(config, JSON.stringify({ private_key: 'a2V5' }));
+
+    expect(cachedPlaintextKeyWarnings([config, null])).toEqual([expect.stringMatching(/not git-ignored/)]);
+    fs.writeFileSync(path.join(dir, '.gitignore'), 'config.json\n');
+    expect(cachedPlaintextKeyWarnings([config])).toHaveLength(1);
+
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(config, later, later);
+    expect(cachedPlaintextKeyWarnings([config])).toEqual([]);
+  });
+
+  it('should not store a generated key in the vault where a plaintext key would shadow it', async () => {
+    const generate = createUtilityTools().find((t) => t.tool.name === 'wisdom_generate_keypair')!.handler;
+    const projectConfig = path.join(dir, '.wisdom', 'config.json');
+    const globalConfig = path.join(dir, 'global.json');
+    const keyVault = path.join(dir, 'wisdom-key.json');
+    const context = {
+      config: { config: { gateway_url: 'http://gw' }, paths: { projectRoot: dir, projectConfig, globalConfig, keyVault } },
+      updateConfig: () => {},
+    } as unknown as ServerContext;
+    const args = { register: false, save_to: 'project' };
+    process.env.WISDOM_KEY_PASSPHRASE = 'pw';
+
+    fs.writeFileSync(globalConfig, JSON.stringify({ private_key: 'b2xk' }));
+    await expect(generate(args, context)).rejects.toThrow(/global\.json would take precedence/);
+    fs.writeFileSync(globalConfig, '{}');
+
+    process.env.WISDOM_PRIVATE_KEY = 'b2xk';
+    await expect(generate(args, context)).rejects.toThrow(/WISDOM_PRIVATE_KEY/);
+    delete process.env.WISDOM_PRIVATE_KEY;
+    expect(fs.existsSync(keyVault)).toBe(false);
+
+    // The key in the file being saved is replaced
+    fs.mkdirSync(path.dirname(projectConfig));
+    fs.writeFileSync(projectConfig, JSON.stringify({ private_key: 'b2xk' }));
+    expect(await generate(args, context)).toMatchObject({ key_storage: 'vault', saved: true });
+    expect(JSON.parse(fs.readFileSync(projectConfig, 'utf-8')).private_key).toBeUndefined();
+
+    await expect(generate(args, context)).rejects.toThrow(/different key/);
+  });
+});
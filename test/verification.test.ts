@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPair } from '../src/crypto/keys.js';
+import { signFragment } from '../src/crypto/signing.js';
+import { SignatureVerifier } from '../src/crypto/verification.js';
+import type { GatewayClient } from '../src/gateway/client.js';
+import type { Agent, Fragment } from '../src/gateway/types.js';
+
+async function signedFragment(creator: string, privateKey: Uint8Array): Promise<Fragment> {
+  const data = {
+    uuid: 'frag-1',
+    content: 'Signed content',
+    creator: { server_port: '', domain: 'AGENT' as const, entity: creator },
+    when: '2026-01-01T00:00:00.000Z',
+    tags: [],
+    transform: { server_port: '', domain: 'TRANSFORMATION' as const, entity: 'transform-1' },
+    confidence: 0.8,
+    evidence_type: 'empirical' as const,
+  };
+  const signature = await signFragment(data, privateKey);
+  return { ...data, version: 1, signature };
+}
+
+describe('SignatureVerifier', () => {
+  it('should verify fragments and cache public keys', async () => {
+    const keypair = await generateKeyPair();
+    let lookups = 0;
+    const gateway = {
+      getAgent: async (uuid: string) => {
+        lookups++;
+        if (uuid !== 'agent-1') throw new Error('not found');
+        return { uuid, public_key: keypair.publicKeyBase64 } as Agent;
+      },
+    } as unknown as GatewayClient;
+    const verifier = new SignatureVerifier(gateway);
+    const fragment = await signedFragment('agent-1', keypair.privateKey);
+
+    expect(await verifier.verifyFragment(fragment)).toBe(true);
+    expect(await verifier.verifyFragment({ ...fragment, content: 'Forged content' })).toBe(false);
+    expect(lookups).toBe(1);
+  });
+
+  it('should report unknown keys', async () => {
+    const keypair = await generateKeyPair();
+    const gateway = {
+      getAgent: async () => {
+        throw new Error('not found');
+      },
+    } as unknown as GatewayClient;
+    const verifier = new SignatureVerifier(gateway);
+    const fragment = await signedFragment('agent-2', keypair.privateKey);
+
+    const [annotated] = await verifier.annotateFragments([fragment]);
+    expect(annotated.verified).toBe('unknown_key');
+  });
+});